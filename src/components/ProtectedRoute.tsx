@@ -1,8 +1,7 @@
 import { Navigate, Outlet, useNavigate, useLocation } from "react-router-dom";
 import { useAuth } from "./context/AuthContext";
 import { useEffect, useState } from "react";
-import axios from "axios";
-import { BACKEND_URL, AUTH_BACKEND_URL } from "../config";
+import { api } from "../utils/api";
 
 const ProtectedRoute = () => {
   const { user, token, login } = useAuth();
@@ -54,12 +53,10 @@ const ProtectedRoute = () => {
 
         // As a last resort, check if there's an active session
         try {
-          const response = await axios.get(`${AUTH_BACKEND_URL}/auth/check-session`, {
-            withCredentials: true
-          });
+          const session = await api.auth.checkSession();
 
-          if (response.data.user && response.data.token) {
-            await login(response.data.user, response.data.token);
+          if (session.user && session.token) {
+            await login(session.user, session.token);
             setIsAuthenticating(false);
           } else {
             navigate("/login", { replace: true });
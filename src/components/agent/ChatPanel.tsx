@@ -3,7 +3,8 @@ import { AgentMessage, AgentMessageData } from './AgentMessage';
 import { ProcessingStep, ProcessingPhase } from './ProcessingStep';
 import { UserInput } from './UserInput';
 import { AgentStatus, AgentStatusType } from './AgentStatus';
-import { Bot } from 'lucide-react';
+import { Bot, Crosshair, Smartphone, X } from 'lucide-react';
+import type { PreviewViewport, SelectedElement } from '../../types/api.types';
 
 interface ChatPanelProps {
     messages: AgentMessageData[];
@@ -14,6 +15,9 @@ interface ChatPanelProps {
     onStop?: () => void;
     isProcessing: boolean;
     isCreating?: boolean; // NEW: Only show phases during new project creation
+    selectedElement?: SelectedElement | null; // Sent along with the next message
+    onClearSelectedElement?: () => void;
+    viewport?: PreviewViewport | null; // Device size of the preview, sent along with follow-ups
 }
 
 export const ChatPanel: React.FC<ChatPanelProps> = ({
@@ -24,7 +28,10 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
     onSendMessage,
     onStop,
     isProcessing,
-    isCreating = false // Default to false - don't show phases
+    isCreating = false, // Default to false - don't show phases
+    selectedElement,
+    onClearSelectedElement,
+    viewport
 }) => {
     const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -59,8 +66,8 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
                             <AgentMessage key={message.id} message={message} />
                         ))}
 
-                        {/* Only show full processing steps during NEW PROJECT CREATION */}
-                        {isProcessing && isCreating && phases.length > 0 && (
+                        {/* Only show full processing steps during NEW PROJECT CREATION (kept visible while a stopped run is settled) */}
+                        {isCreating && phases.length > 0 && (isProcessing || phases.some(p => p.status === 'cancelled' || p.status === 'error')) && (
                             <ProcessingStep phases={phases} />
                         )}
 
@@ -69,6 +76,41 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
                 )}
             </div>
 
+            {/* Preview device size, reported with follow-up messages */}
+            {viewport && messages.length > 0 && (
+                <div className="mx-4 mb-1 flex items-center gap-1.5 text-[11px] text-gray-500">
+                    <Smartphone className="w-3 h-3" />
+                    Previewing at {viewport.name} · {viewport.width}×{viewport.height}
+                </div>
+            )}
+
+            {/* Element picked in the preview */}
+            {selectedElement && (
+                <div className="mx-4 mb-1 flex items-center gap-2 px-3 py-1.5 bg-amber-500/10 border border-amber-500/20 rounded-lg text-xs">
+                    <Crosshair className="w-3.5 h-3.5 text-amber-400 flex-shrink-0" />
+                    <span className="min-w-0 flex-1 truncate text-gray-300" title={selectedElement.domPath}>
+                        <span className="text-amber-400">
+                            {selectedElement.component ?? `<${selectedElement.tagName}>`}
+                        </span>
+                        {selectedElement.file && (
+                            <span className="text-gray-500">
+                                {' '}· {selectedElement.file}{selectedElement.line ? `:${selectedElement.line}` : ''}
+                            </span>
+                        )}
+                        {selectedElement.text && <span className="text-gray-500"> · "{selectedElement.text}"</span>}
+                    </span>
+                    {onClearSelectedElement && (
+                        <button
+                            onClick={onClearSelectedElement}
+                            className="p-0.5 hover:bg-[#2e2e2e] rounded transition-colors"
+                            title="Remove selection"
+                        >
+                            <X className="w-3.5 h-3.5 text-gray-500" />
+                        </button>
+                    )}
+                </div>
+            )}
+
             {/* Input Area */}
             <UserInput
                 onSend={onSendMessage}
@@ -0,0 +1,206 @@
+/**
+ * DiffReview Component - Side-by-side review of proposed file changes before they are applied
+ */
+
+import React, { useMemo, useRef, useState } from 'react';
+import { DiffEditor, type DiffOnMount } from '@monaco-editor/react';
+import { Check, X, FileCode, GitCompare, FilePlus } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { computeHunks, applyHunks, type DiffHunk } from '../../utils/diff';
+import { getLanguage } from '../../utils/language';
+import type { ProjectFile } from '../../types/project.types';
+
+export interface ProposedChange {
+    path: string;
+    original: string;
+    modified: string;
+}
+
+interface DiffReviewProps {
+    title: string;
+    description?: string;
+    changes: ProposedChange[];
+    onApply: (files: ProjectFile[]) => void; // Final content of every reviewed file
+    onCancel: () => void;
+}
+
+export const DiffReview: React.FC<DiffReviewProps> = ({
+    title,
+    description,
+    changes,
+    onApply,
+    onCancel
+}) => {
+    const hunksByPath = useMemo(() => {
+        const map: Record<string, DiffHunk[]> = {};
+        changes.forEach(change => {
+            map[change.path] = computeHunks(change.original, change.modified);
+        });
+        return map;
+    }, [changes]);
+
+    // Everything starts accepted; the reviewer opts out per file or per hunk
+    const [accepted, setAccepted] = useState<Record<string, Set<number>>>(() => {
+        const initial: Record<string, Set<number>> = {};
+        Object.entries(hunksByPath).forEach(([path, hunks]) => {
+            initial[path] = new Set(hunks.map(h => h.id));
+        });
+        return initial;
+    });
+    const [activePath, setActivePath] = useState(changes[0]?.path ?? '');
+    const editorRef = useRef<Parameters<DiffOnMount>[0] | null>(null);
+
+    const activeChange = changes.find(c => c.path === activePath);
+    const activeHunks = hunksByPath[activePath] ?? [];
+
+    const toggleHunk = (path: string, id: number) => {
+        setAccepted(prev => {
+            const next = new Set(prev[path]);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return { ...prev, [path]: next };
+        });
+    };
+
+    const setFileAccepted = (path: string, value: boolean) => {
+        setAccepted(prev => ({
+            ...prev,
+            [path]: value ? new Set((hunksByPath[path] ?? []).map(h => h.id)) : new Set()
+        }));
+    };
+
+    const setAllAccepted = (value: boolean) => {
+        changes.forEach(change => setFileAccepted(change.path, value));
+    };
+
+    const revealHunk = (hunk: DiffHunk) => {
+        editorRef.current?.getModifiedEditor().revealLineInCenter(Math.max(hunk.modifiedStart, 1));
+    };
+
+    const handleApply = () => {
+        onApply(changes.map(change => ({
+            path: change.path,
+            content: applyHunks(change.original, hunksByPath[change.path] ?? [], accepted[change.path] ?? new Set())
+        })));
+    };
+
+    const acceptedCount = changes.reduce((sum, c) => sum + (accepted[c.path]?.size ?? 0), 0);
+    const totalCount = changes.reduce((sum, c) => sum + (hunksByPath[c.path]?.length ?? 0), 0);
+
+    return (
+        <div className="absolute inset-0 z-50 bg-[#0a0a0a]/98 backdrop-blur-sm flex flex-col">
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-[#2e2e2e] bg-[#141414]">
+                <div className="flex items-center gap-3 min-w-0">
+                    <GitCompare className="w-5 h-5 text-amber-400 flex-shrink-0" />
+                    <div className="min-w-0">
+                        <h2 className="text-sm font-semibold text-gray-100 truncate">{title}</h2>
+                        {description && <p className="text-xs text-gray-500 truncate">{description}</p>}
+                    </div>
+                </div>
+                <div className="flex items-center gap-2">
+                    <span className="hidden sm:inline text-xs text-gray-500">
+                        {acceptedCount}/{totalCount} changes selected
+                    </span>
+                    <Button variant="ghost" size="sm" onClick={() => setAllAccepted(false)}>Reject all</Button>
+                    <Button variant="ghost" size="sm" onClick={() => setAllAccepted(true)}>Accept all</Button>
+                    <Button variant="secondary" size="sm" onClick={onCancel}>
+                        <X className="w-4 h-4" />
+                        Discard
+                    </Button>
+                    <Button variant="primary" size="sm" onClick={handleApply}>
+                        <Check className="w-4 h-4" />
+                        Apply selected
+                    </Button>
+                </div>
+            </div>
+
+            <div className="flex-1 flex overflow-hidden">
+                {/* File list */}
+                <div className="w-64 flex-shrink-0 border-r border-[#2e2e2e] overflow-y-auto">
+                    {changes.map(change => {
+                        const hunks = hunksByPath[change.path] ?? [];
+                        const selected = accepted[change.path]?.size ?? 0;
+                        const isNew = !change.original;
+                        return (
+                            <div
+                                key={change.path}
+                                onClick={() => setActivePath(change.path)}
+                                className={`flex items-center gap-2 px-3 py-2 cursor-pointer text-sm transition-colors ${change.path === activePath
+                                    ? 'bg-amber-500/10 text-amber-400'
+                                    : 'text-gray-400 hover:bg-white/5'
+                                    }`}
+                            >
+                                <input
+                                    type="checkbox"
+                                    checked={selected > 0}
+                                    ref={el => { if (el) el.indeterminate = selected > 0 && selected < hunks.length; }}
+                                    onClick={e => e.stopPropagation()}
+                                    onChange={e => setFileAccepted(change.path, e.target.checked)}
+                                    className="accent-amber-500"
+                                />
+                                {isNew ? <FilePlus className="w-4 h-4 flex-shrink-0" /> : <FileCode className="w-4 h-4 flex-shrink-0" />}
+                                <span className="truncate flex-1" title={change.path}>{change.path}</span>
+                                <span className="text-[10px] text-gray-500">{selected}/{hunks.length}</span>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {/* Diff + hunks */}
+                <div className="flex-1 flex flex-col overflow-hidden">
+                    {activeHunks.length > 0 && (
+                        <div className="flex gap-2 px-3 py-2 border-b border-[#2e2e2e] bg-[#141414] overflow-x-auto">
+                            {activeHunks.map(hunk => {
+                                const isAccepted = accepted[activePath]?.has(hunk.id);
+                                return (
+                                    <div
+                                        key={hunk.id}
+                                        className={`flex items-center gap-1.5 px-2 py-1 rounded border text-xs whitespace-nowrap ${isAccepted
+                                            ? 'border-amber-500/40 bg-amber-500/10 text-amber-300'
+                                            : 'border-[#2e2e2e] text-gray-500 line-through'
+                                            }`}
+                                    >
+                                        <button onClick={() => revealHunk(hunk)} className="hover:underline">
+                                            L{hunk.modifiedStart}
+                                            <span className="text-red-400 ml-1">-{hunk.originalLines.length}</span>
+                                            <span className="text-green-400 ml-1">+{hunk.modifiedLines.length}</span>
+                                        </button>
+                                        <button
+                                            onClick={() => toggleHunk(activePath, hunk.id)}
+                                            className="p-0.5 hover:bg-white/10 rounded"
+                                            title={isAccepted ? 'Reject this change' : 'Accept this change'}
+                                        >
+                                            {isAccepted ? <X className="w-3 h-3" /> : <Check className="w-3 h-3" />}
+                                        </button>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+
+                    <div className="flex-1">
+                        {activeChange && (
+                            <DiffEditor
+                                height="100%"
+                                language={getLanguage(activeChange.path)}
+                                original={activeChange.original}
+                                modified={activeChange.modified}
+                                theme="vs-dark"
+                                onMount={editor => { editorRef.current = editor; }}
+                                options={{
+                                    readOnly: true,
+                                    renderSideBySide: true,
+                                    minimap: { enabled: false },
+                                    fontSize: 13,
+                                    scrollBeyondLastLine: false,
+                                    automaticLayout: true,
+                                }}
+                            />
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
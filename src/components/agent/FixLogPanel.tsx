@@ -0,0 +1,181 @@
+/**
+ * FixLogPanel Component - Auto-fix attempts with their errors, diffs and outcomes, plus the fix budget
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Wrench, X, ChevronDown, ChevronRight, RotateCcw, Ban } from 'lucide-react';
+import { computeHunks } from '../../utils/diff';
+import { formatDiagnostic } from '../../utils/diagnostics';
+import type { FixLogEntry, FixOutcome } from '../../types/diagnostics.types';
+
+interface FixLogPanelProps {
+    entries: FixLogEntry[];
+    budget: number;
+    remaining: number;
+    unfixable: string[];
+    onRetryFile: (path: string) => void;
+    onClose: () => void;
+}
+
+const OUTCOME_STYLES: Record<FixOutcome, { label: string; className: string }> = {
+    fixed: { label: 'Fixed', className: 'bg-green-500/10 text-green-400' },
+    improved: { label: 'Improved', className: 'bg-amber-500/10 text-amber-400' },
+    unverified: { label: 'Unverified', className: 'bg-blue-500/10 text-blue-400' },
+    regressed: { label: 'Regressed, rolled back', className: 'bg-red-500/10 text-red-400' },
+    'no-progress': { label: 'No progress, rolled back', className: 'bg-orange-500/10 text-orange-400' },
+    rejected: { label: 'Patch rejected', className: 'bg-gray-500/10 text-gray-400' },
+    declined: { label: 'Declined', className: 'bg-gray-500/10 text-gray-400' },
+    failed: { label: 'Failed', className: 'bg-red-500/10 text-red-400' },
+};
+
+// Changed lines of one file, unified-diff style
+const ChangeDiff: React.FC<{ original: string; modified: string }> = ({ original, modified }) => {
+    const hunks = useMemo(() => computeHunks(original, modified), [original, modified]);
+    return (
+        <pre className="text-[11px] leading-4 font-mono overflow-x-auto bg-[#0a0a0a] rounded p-2">
+            {hunks.map(hunk => (
+                <React.Fragment key={hunk.id}>
+                    <div className="text-gray-600">@@ line {hunk.originalStart} @@</div>
+                    {hunk.originalLines.map((line, i) => (
+                        <div key={`d${i}`} className="text-red-400">-{line}</div>
+                    ))}
+                    {hunk.modifiedLines.map((line, i) => (
+                        <div key={`a${i}`} className="text-green-400">+{line}</div>
+                    ))}
+                </React.Fragment>
+            ))}
+        </pre>
+    );
+};
+
+export const FixLogPanel: React.FC<FixLogPanelProps> = ({
+    entries,
+    budget,
+    remaining,
+    unfixable,
+    onRetryFile,
+    onClose
+}) => {
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    return (
+        <div className="absolute top-0 right-0 bottom-0 z-40 w-full sm:w-[28rem] bg-[#141414] border-l border-[#2e2e2e] shadow-2xl flex flex-col">
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-[#2e2e2e]">
+                <div className="flex items-center gap-2">
+                    <Wrench className="w-4 h-4 text-amber-400" />
+                    <h3 className="text-sm font-medium text-gray-200">Fix Log</h3>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="p-1.5 hover:bg-[#2e2e2e] rounded transition-colors"
+                >
+                    <X className="w-4 h-4 text-gray-400" />
+                </button>
+            </div>
+
+            {/* Budget */}
+            <div className="px-4 py-3 border-b border-[#2e2e2e]">
+                <div className="flex items-center justify-between text-xs text-gray-400 mb-1.5">
+                    <span>Fix budget</span>
+                    <span>{budget - remaining} / {budget} used</span>
+                </div>
+                <div className="h-1.5 bg-[#2e2e2e] rounded-full overflow-hidden">
+                    <div
+                        className={`h-full ${remaining === 0 ? 'bg-red-500' : 'bg-amber-500'}`}
+                        style={{ width: `${((budget - remaining) / budget) * 100}%` }}
+                    />
+                </div>
+            </div>
+
+            {/* Files the fixer gave up on */}
+            {unfixable.length > 0 && (
+                <div className="px-4 py-3 border-b border-[#2e2e2e] space-y-1.5">
+                    <p className="text-xs text-gray-400">Not auto-fixed any more</p>
+                    {unfixable.map(path => (
+                        <div key={path} className="flex items-center justify-between gap-2 text-xs">
+                            <span className="flex items-center gap-1.5 text-red-400 truncate">
+                                <Ban className="w-3 h-3 flex-shrink-0" />
+                                {path}
+                            </span>
+                            <button
+                                onClick={() => onRetryFile(path)}
+                                disabled={remaining === 0}
+                                className="flex items-center gap-1 px-2 py-1 bg-white/5 hover:bg-amber-500/20 text-gray-300 hover:text-amber-400 rounded transition-colors disabled:opacity-50"
+                            >
+                                <RotateCcw className="w-3 h-3" />
+                                Retry
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Attempts, newest first */}
+            <div className="flex-1 overflow-y-auto">
+                {entries.length === 0 ? (
+                    <div className="flex flex-col items-center justify-center text-center py-8 px-6">
+                        <Wrench className="w-8 h-8 text-gray-600 mb-2" />
+                        <p className="text-sm text-gray-500">No auto-fixes yet</p>
+                        <p className="text-xs text-gray-600">Every attempt is listed here with its errors, diff and outcome</p>
+                    </div>
+                ) : (
+                    <ul className="divide-y divide-[#2e2e2e]">
+                        {entries.map(entry => {
+                            const style = OUTCOME_STYLES[entry.outcome];
+                            const isExpanded = expandedId === entry.id;
+                            const files = [...new Set(entry.diagnostics.map(d => d.file))];
+                            return (
+                                <li key={entry.id} className="px-4 py-3">
+                                    <button
+                                        onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                                        className="w-full flex items-start gap-2 text-left"
+                                    >
+                                        {isExpanded
+                                            ? <ChevronDown className="w-3.5 h-3.5 text-gray-500 mt-0.5 flex-shrink-0" />
+                                            : <ChevronRight className="w-3.5 h-3.5 text-gray-500 mt-0.5 flex-shrink-0" />}
+                                        <div className="min-w-0 flex-1">
+                                            <p className="text-sm text-gray-200 truncate" title={files.join(', ')}>
+                                                {files.join(', ')}
+                                            </p>
+                                            <div className="flex items-center gap-2 mt-1">
+                                                <span className={`px-1.5 py-0.5 rounded text-[10px] ${style.className}`}>
+                                                    {style.label}
+                                                </span>
+                                                {entry.errorsBefore !== undefined && entry.errorsAfter !== undefined && (
+                                                    <span className="text-[11px] text-gray-500">
+                                                        {entry.errorsBefore} → {entry.errorsAfter} errors
+                                                    </span>
+                                                )}
+                                                <span className="text-[11px] text-gray-600">
+                                                    {new Date(entry.at).toLocaleTimeString()}
+                                                </span>
+                                            </div>
+                                        </div>
+                                    </button>
+
+                                    {isExpanded && (
+                                        <div className="mt-2 ml-5 space-y-2">
+                                            <pre className="text-[11px] leading-4 text-red-300 whitespace-pre-wrap break-words bg-[#0a0a0a] rounded p-2">
+                                                {entry.diagnostics.map(formatDiagnostic).join('\n')}
+                                            </pre>
+                                            {entry.detail && (
+                                                <p className="text-xs text-gray-500">{entry.detail}</p>
+                                            )}
+                                            {entry.changes.map(change => (
+                                                <div key={change.path}>
+                                                    <p className="text-xs text-gray-400 mb-1">{change.path}</p>
+                                                    <ChangeDiff original={change.original} modified={change.modified} />
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,63 @@
+/**
+ * PartialGenerationDialog Component - Decide what happens to files from a stopped generation
+ */
+
+import React from 'react';
+import { AlertTriangle, FileCode, Save, Trash2 } from 'lucide-react';
+import { Button } from '../ui/Button';
+import type { ProjectFile } from '../../types/project.types';
+
+interface PartialGenerationDialogProps {
+    files: ProjectFile[];
+    reason: 'cancelled' | 'error';
+    isSaving?: boolean;
+    onKeep: () => void;
+    onDiscard: () => void;
+}
+
+export const PartialGenerationDialog: React.FC<PartialGenerationDialogProps> = ({
+    files,
+    reason,
+    isSaving = false,
+    onKeep,
+    onDiscard
+}) => {
+    return (
+        <div className="absolute inset-0 z-50 bg-[#0a0a0a]/90 backdrop-blur-sm flex items-center justify-center p-4">
+            <div className="w-full max-w-md bg-[#141414] border border-[#2e2e2e] rounded-xl shadow-xl">
+                <div className="flex items-start gap-3 px-5 pt-5">
+                    <AlertTriangle className="w-5 h-5 text-amber-400 flex-shrink-0 mt-0.5" />
+                    <div className="min-w-0">
+                        <h2 className="text-sm font-semibold text-gray-100">
+                            {reason === 'cancelled' ? 'Generation stopped' : 'Generation failed'}
+                        </h2>
+                        <p className="text-xs text-gray-500 mt-1">
+                            {files.length} {files.length === 1 ? 'file was' : 'files were'} generated before it ended.
+                            Keep them as an incomplete project, or discard them and start over.
+                        </p>
+                    </div>
+                </div>
+
+                <div className="mx-5 mt-4 max-h-48 overflow-auto rounded-lg border border-[#2e2e2e] bg-[#0a0a0a]">
+                    {files.map(file => (
+                        <div key={file.path} className="flex items-center gap-2 px-3 py-1.5 text-xs text-gray-400">
+                            <FileCode className="w-3.5 h-3.5 text-gray-500 flex-shrink-0" />
+                            <span className="truncate">{file.path}</span>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="flex justify-end gap-2 px-5 py-4">
+                    <Button variant="secondary" size="sm" onClick={onDiscard} disabled={isSaving}>
+                        <Trash2 className="w-4 h-4" />
+                        Discard
+                    </Button>
+                    <Button variant="primary" size="sm" onClick={onKeep} isLoading={isSaving}>
+                        <Save className="w-4 h-4" />
+                        Keep as incomplete
+                    </Button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,10 +1,10 @@
 import React from 'react';
-import { CheckCircle, Loader2, Circle, FileCode } from 'lucide-react';
+import { CheckCircle, Loader2, Circle, FileCode, XCircle } from 'lucide-react';
 
 export interface ProcessingPhase {
     id: string;
     name: string;
-    status: 'pending' | 'in-progress' | 'complete' | 'error';
+    status: 'pending' | 'in-progress' | 'complete' | 'error' | 'cancelled';
     filesCreated?: number;
 }
 
@@ -22,6 +22,8 @@ export const ProcessingStep: React.FC<ProcessingStepProps> = ({ phases, currentP
                 return <Loader2 className="w-4 h-4 text-amber-400 animate-spin" />;
             case 'error':
                 return <Circle className="w-4 h-4 text-red-400" />;
+            case 'cancelled':
+                return <XCircle className="w-4 h-4 text-gray-500" />;
             default:
                 return <Circle className="w-4 h-4 text-gray-600" />;
         }
@@ -38,11 +40,19 @@ export const ProcessingStep: React.FC<ProcessingStepProps> = ({ phases, currentP
         }
     };
 
+    const stopped = phases.find(p => p.status === 'cancelled' || p.status === 'error')?.status;
+
     return (
         <div className="bg-[#141414] border border-[#2e2e2e] rounded-xl p-4">
             <div className="flex items-center gap-2 mb-4">
-                <Loader2 className="w-4 h-4 text-amber-400 animate-spin" />
-                <span className="text-sm font-medium text-gray-200">Processing next step...</span>
+                {stopped ? (
+                    <XCircle className={`w-4 h-4 ${stopped === 'error' ? 'text-red-400' : 'text-gray-500'}`} />
+                ) : (
+                    <Loader2 className="w-4 h-4 text-amber-400 animate-spin" />
+                )}
+                <span className="text-sm font-medium text-gray-200">
+                    {stopped === 'cancelled' ? 'Generation stopped' : stopped === 'error' ? 'Generation failed' : 'Processing next step...'}
+                </span>
             </div>
 
             <div className="space-y-1">
@@ -63,6 +73,7 @@ export const ProcessingStep: React.FC<ProcessingStepProps> = ({ phases, currentP
                             <div className="flex items-center justify-between">
                                 <span className={`text-sm ${phase.status === 'complete' ? 'text-gray-400' :
                                         phase.status === 'in-progress' ? 'text-gray-200' :
+                                        phase.status === 'cancelled' ? 'text-gray-500 line-through' :
                                             'text-gray-500'
                                     }`}>
                                     {phase.name}
@@ -0,0 +1,101 @@
+/**
+ * SyncConflictDialog Component - Resolve files that changed both locally and on the server
+ */
+
+import React, { useState } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { AlertTriangle, FileCode, X, Cloud, Monitor } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { getLanguage } from '../../utils/language';
+import type { SyncConflict } from '../../types/project.types';
+
+interface SyncConflictDialogProps {
+    conflicts: SyncConflict[];
+    onResolve: (path: string, keep: 'local' | 'server') => void;
+    onClose: () => void;
+}
+
+export const SyncConflictDialog: React.FC<SyncConflictDialogProps> = ({
+    conflicts,
+    onResolve,
+    onClose
+}) => {
+    const [activePath, setActivePath] = useState(conflicts[0]?.path ?? '');
+    const active = conflicts.find(c => c.path === activePath) ?? conflicts[0];
+
+    return (
+        <div className="absolute inset-0 z-50 bg-[#0a0a0a]/98 backdrop-blur-sm flex flex-col">
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-[#2e2e2e] bg-[#141414]">
+                <div className="flex items-center gap-3 min-w-0">
+                    <AlertTriangle className="w-5 h-5 text-red-400 flex-shrink-0" />
+                    <div className="min-w-0">
+                        <h2 className="text-sm font-semibold text-gray-100 truncate">Sync conflicts</h2>
+                        <p className="text-xs text-gray-500 truncate">
+                            These files changed on the server after your last sync. Left: server, right: your version.
+                        </p>
+                    </div>
+                </div>
+                <div className="flex items-center gap-2">
+                    {active && (
+                        <>
+                            <Button variant="secondary" size="sm" onClick={() => onResolve(active.path, 'server')}>
+                                <Cloud className="w-4 h-4" />
+                                Use server
+                            </Button>
+                            <Button variant="primary" size="sm" onClick={() => onResolve(active.path, 'local')}>
+                                <Monitor className="w-4 h-4" />
+                                Keep mine
+                            </Button>
+                        </>
+                    )}
+                    <button
+                        onClick={onClose}
+                        className="p-1.5 hover:bg-[#2e2e2e] rounded transition-colors"
+                    >
+                        <X className="w-4 h-4 text-gray-400" />
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex-1 flex overflow-hidden">
+                {/* File list */}
+                <div className="w-64 flex-shrink-0 border-r border-[#2e2e2e] overflow-y-auto">
+                    {conflicts.map(conflict => (
+                        <div
+                            key={conflict.path}
+                            onClick={() => setActivePath(conflict.path)}
+                            className={`flex items-center gap-2 px-3 py-2 cursor-pointer text-sm transition-colors ${conflict.path === active?.path
+                                ? 'bg-red-500/10 text-red-300'
+                                : 'text-gray-400 hover:bg-white/5'
+                                }`}
+                        >
+                            <FileCode className="w-4 h-4 flex-shrink-0" />
+                            <span className="truncate" title={conflict.path}>{conflict.path}</span>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="flex-1">
+                    {active && (
+                        <DiffEditor
+                            height="100%"
+                            language={getLanguage(active.path)}
+                            original={active.server}
+                            modified={active.local}
+                            theme="vs-dark"
+                            options={{
+                                readOnly: true,
+                                renderSideBySide: true,
+                                minimap: { enabled: false },
+                                fontSize: 13,
+                                scrollBeyondLastLine: false,
+                                automaticLayout: true,
+                            }}
+                        />
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
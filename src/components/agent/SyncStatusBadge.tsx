@@ -0,0 +1,53 @@
+/**
+ * SyncStatusBadge Component - Shows whether a project's local changes reached the backend
+ */
+
+import React from 'react';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import type { SyncStatus } from '../../types/project.types';
+
+interface SyncStatusBadgeProps {
+    status: SyncStatus;
+    pending?: number;
+    error?: string;
+    compact?: boolean; // Icon only on small screens
+    onClick?: () => void;
+}
+
+const STATUS_STYLES: Record<SyncStatus, { label: string; className: string; icon: React.ReactNode }> = {
+    synced: { label: 'Saved', className: 'bg-white/5 text-gray-400', icon: <Cloud className="w-3 h-3" /> },
+    pending: { label: 'Syncing', className: 'bg-amber-500/10 text-amber-400', icon: <RefreshCw className="w-3 h-3 animate-spin" /> },
+    offline: { label: 'Offline', className: 'bg-orange-500/10 text-orange-400', icon: <CloudOff className="w-3 h-3" /> },
+    conflict: { label: 'Conflict', className: 'bg-red-500/10 text-red-400', icon: <AlertTriangle className="w-3 h-3" /> },
+};
+
+export const SyncStatusBadge: React.FC<SyncStatusBadgeProps> = ({
+    status,
+    pending = 0,
+    error,
+    compact = false,
+    onClick
+}) => {
+    const style = STATUS_STYLES[status];
+    const title = status === 'offline'
+        ? `${pending} change${pending === 1 ? '' : 's'} saved locally, waiting for the backend${error ? ` (${error})` : ''}. Click to retry.`
+        : status === 'conflict'
+            ? 'The server copy changed too. Click to resolve.'
+            : status === 'pending'
+                ? `${pending} change${pending === 1 ? '' : 's'} waiting to sync`
+                : 'All changes saved';
+
+    return (
+        <button
+            type="button"
+            onClick={onClick}
+            disabled={!onClick}
+            title={title}
+            className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs transition-colors disabled:cursor-default ${style.className} ${onClick ? 'hover:brightness-125' : ''}`}
+        >
+            {style.icon}
+            <span className={compact ? 'hidden md:inline' : ''}>{style.label}</span>
+            {pending > 0 && status !== 'synced' && <span className="opacity-70">({pending})</span>}
+        </button>
+    );
+};
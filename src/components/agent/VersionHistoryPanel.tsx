@@ -0,0 +1,175 @@
+/**
+ * VersionHistoryPanel Component - Lists project snapshots and restores a selected one
+ * Versions with preview screenshots can be picked in pairs for a visual comparison.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { History, RotateCcw, X, Loader2, Sparkles, MessageSquare, Wrench, Camera, GitCompare } from 'lucide-react';
+import { listProjectScreenshots, listSnapshots } from '../../utils/versionHistory';
+import type { ProjectSnapshot, SnapshotSource } from '../../types/project.types';
+
+interface VersionHistoryPanelProps {
+    projectId: string | null;
+    refreshKey?: number; // Bump to reload after a new snapshot is taken
+    onRestore: (snapshot: ProjectSnapshot) => void;
+    onCompare?: (before: ProjectSnapshot, after: ProjectSnapshot) => void;
+    onClose: () => void;
+}
+
+const SOURCE_STYLES: Record<SnapshotSource, { label: string; className: string; icon: React.ReactNode }> = {
+    generation: { label: 'Generation', className: 'bg-amber-500/10 text-amber-400', icon: <Sparkles className="w-3 h-3" /> },
+    chat: { label: 'Chat', className: 'bg-blue-500/10 text-blue-400', icon: <MessageSquare className="w-3 h-3" /> },
+    'auto-fix': { label: 'Auto-fix', className: 'bg-orange-500/10 text-orange-400', icon: <Wrench className="w-3 h-3" /> },
+    restore: { label: 'Restore', className: 'bg-purple-500/10 text-purple-400', icon: <RotateCcw className="w-3 h-3" /> },
+};
+
+export const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
+    projectId,
+    refreshKey = 0,
+    onRestore,
+    onCompare,
+    onClose
+}) => {
+    const [snapshots, setSnapshots] = useState<ProjectSnapshot[]>([]);
+    const [screenshotCounts, setScreenshotCounts] = useState<Record<string, number>>({});
+    const [compareIds, setCompareIds] = useState<string[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    useEffect(() => {
+        if (!projectId) {
+            setSnapshots([]);
+            return;
+        }
+
+        let cancelled = false;
+        setIsLoading(true);
+        Promise.all([listSnapshots(projectId), listProjectScreenshots(projectId)])
+            .then(([list, screenshots]) => {
+                if (cancelled) return;
+                const counts: Record<string, number> = {};
+                for (const screenshot of screenshots) counts[screenshot.snapshotId] = (counts[screenshot.snapshotId] ?? 0) + 1;
+                setSnapshots(list);
+                setScreenshotCounts(counts);
+            })
+            .catch(err => console.error('Failed to load version history:', err))
+            .finally(() => { if (!cancelled) setIsLoading(false); });
+
+        return () => { cancelled = true; };
+    }, [projectId, refreshKey]);
+
+    // The two most recently picked versions
+    const toggleCompare = (id: string) => {
+        setCompareIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id].slice(-2));
+    };
+
+    const handleCompare = () => {
+        // Older version on the left, whatever order they were picked in
+        const [after, before] = snapshots.filter(s => compareIds.includes(s.id));
+        if (before && after) onCompare?.(before, after);
+    };
+
+    return (
+        <div className="absolute top-0 right-0 bottom-0 z-40 w-full sm:w-96 bg-[#141414] border-l border-[#2e2e2e] shadow-2xl flex flex-col">
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-[#2e2e2e]">
+                <div className="flex items-center gap-2">
+                    <History className="w-4 h-4 text-amber-400" />
+                    <h3 className="text-sm font-medium text-gray-200">Version History</h3>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="p-1.5 hover:bg-[#2e2e2e] rounded transition-colors"
+                >
+                    <X className="w-4 h-4 text-gray-400" />
+                </button>
+            </div>
+
+            {/* Snapshot list */}
+            <div className="flex-1 overflow-y-auto">
+                {isLoading ? (
+                    <div className="flex items-center justify-center py-8">
+                        <Loader2 className="w-5 h-5 animate-spin text-amber-400" />
+                    </div>
+                ) : snapshots.length === 0 ? (
+                    <div className="flex flex-col items-center justify-center text-center py-8 px-6">
+                        <History className="w-8 h-8 text-gray-600 mb-2" />
+                        <p className="text-sm text-gray-500">No versions yet</p>
+                        <p className="text-xs text-gray-600">Snapshots appear after generation, chat edits and auto-fixes</p>
+                    </div>
+                ) : (
+                    <ul className="divide-y divide-[#2e2e2e]">
+                        {snapshots.map((snapshot) => {
+                            const style = SOURCE_STYLES[snapshot.source];
+                            const screenshots = screenshotCounts[snapshot.id] ?? 0;
+                            return (
+                                <li key={snapshot.id} className="px-4 py-3 hover:bg-white/5 transition-colors">
+                                    <div className="flex items-start justify-between gap-3">
+                                        <div className="min-w-0">
+                                            <p className="text-sm text-gray-200 truncate" title={snapshot.label}>
+                                                {snapshot.label}
+                                            </p>
+                                            <div className="flex items-center gap-2 mt-1">
+                                                <span className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] ${style.className}`}>
+                                                    {style.icon}
+                                                    {style.label}
+                                                </span>
+                                                <span className="text-[11px] text-gray-500">
+                                                    {new Date(snapshot.createdAt).toLocaleString()}
+                                                </span>
+                                            </div>
+                                            <p className="flex items-center gap-2 text-[11px] text-gray-600 mt-1">
+                                                {snapshot.files.length} files
+                                                {screenshots > 0 && (
+                                                    <span className="flex items-center gap-1" title="Preview screenshots">
+                                                        <Camera className="w-3 h-3" />
+                                                        {screenshots}
+                                                    </span>
+                                                )}
+                                            </p>
+                                        </div>
+                                        <div className="flex flex-col items-end gap-1.5">
+                                            <button
+                                                onClick={() => onRestore(snapshot)}
+                                                className="flex items-center gap-1 px-2 py-1 bg-white/5 hover:bg-amber-500/20 text-xs text-gray-300 hover:text-amber-400 rounded transition-colors whitespace-nowrap"
+                                            >
+                                                <RotateCcw className="w-3 h-3" />
+                                                Restore
+                                            </button>
+                                            {onCompare && screenshots > 0 && (
+                                                <label className="flex items-center gap-1.5 text-[11px] text-gray-500 cursor-pointer">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={compareIds.includes(snapshot.id)}
+                                                        onChange={() => toggleCompare(snapshot.id)}
+                                                        className="accent-amber-500"
+                                                    />
+                                                    Compare
+                                                </label>
+                                            )}
+                                        </div>
+                                    </div>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+
+            {onCompare && compareIds.length > 0 && (
+                <div className="flex items-center justify-between gap-3 px-4 py-3 border-t border-[#2e2e2e]">
+                    <span className="text-xs text-gray-500">
+                        {compareIds.length === 2 ? '2 versions selected' : 'Pick one more version'}
+                    </span>
+                    <button
+                        onClick={handleCompare}
+                        disabled={compareIds.length < 2}
+                        className="flex items-center gap-1 px-2 py-1 bg-amber-500/20 hover:bg-amber-500/30 text-xs text-amber-400 rounded transition-colors disabled:opacity-50"
+                    >
+                        <GitCompare className="w-3 h-3" />
+                        Compare visually
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,198 @@
+/**
+ * VisualDiffDialog Component - Compare preview screenshots of two versions pixel by pixel
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { GitCompare, ImageOff, Loader2, X } from 'lucide-react';
+import { listScreenshots } from '../../utils/versionHistory';
+import { diffScreenshots, type VisualDiff } from '../../utils/visualDiff';
+import type { ProjectSnapshot, SnapshotScreenshot } from '../../types/project.types';
+
+interface VisualDiffDialogProps {
+    before: ProjectSnapshot;
+    after: ProjectSnapshot;
+    onClose: () => void;
+}
+
+interface ViewportPair {
+    key: string;
+    width: number;
+    height: number;
+    before?: SnapshotScreenshot;
+    after?: SnapshotScreenshot;
+}
+
+type ViewMode = 'diff' | 'side-by-side';
+
+// Screenshots of both versions matched up by the viewport they were taken at
+function pairByViewport(before: SnapshotScreenshot[], after: SnapshotScreenshot[]): ViewportPair[] {
+    const pairs = new Map<string, ViewportPair>();
+    const pairOf = (shot: SnapshotScreenshot) => {
+        const key = `${shot.width}×${shot.height}`;
+        if (!pairs.has(key)) pairs.set(key, { key, width: shot.width, height: shot.height });
+        return pairs.get(key)!;
+    };
+    before.forEach(shot => { pairOf(shot).before = shot; });
+    after.forEach(shot => { pairOf(shot).after = shot; });
+    return [...pairs.values()].sort((a, b) => a.width - b.width || a.height - b.height);
+}
+
+const Screenshot: React.FC<{ src: string; caption: string }> = ({ src, caption }) => (
+    <figure className="flex flex-col gap-2 min-w-0">
+        <figcaption className="text-xs text-gray-500">{caption}</figcaption>
+        <img src={src} alt={caption} className="max-w-full border border-[#2e2e2e] rounded bg-white" />
+    </figure>
+);
+
+export const VisualDiffDialog: React.FC<VisualDiffDialogProps> = ({
+    before,
+    after,
+    onClose
+}) => {
+    const [pairs, setPairs] = useState<ViewportPair[] | null>(null);
+    const [activeKey, setActiveKey] = useState<string | null>(null);
+    const [mode, setMode] = useState<ViewMode>('diff');
+    const [diffs, setDiffs] = useState<Record<string, VisualDiff | Error>>({});
+
+    useEffect(() => {
+        let cancelled = false;
+        Promise.all([listScreenshots(before.id), listScreenshots(after.id)])
+            .then(([beforeShots, afterShots]) => {
+                if (cancelled) return;
+                const list = pairByViewport(beforeShots, afterShots);
+                setPairs(list);
+                setActiveKey((list.find(p => p.before && p.after) ?? list[0])?.key ?? null);
+            })
+            .catch(err => {
+                console.error('Failed to load screenshots:', err);
+                if (!cancelled) setPairs([]);
+            });
+        return () => { cancelled = true; };
+    }, [before.id, after.id]);
+
+    const active = useMemo(() => pairs?.find(p => p.key === activeKey) ?? null, [pairs, activeKey]);
+    const activeDiff = active ? diffs[active.key] : undefined;
+
+    // Diffs are computed when a viewport is first opened and kept for switching back
+    useEffect(() => {
+        if (!active?.before || !active.after || diffs[active.key]) return;
+        let cancelled = false;
+        const key = active.key;
+        diffScreenshots(active.before.image, active.after.image)
+            .then(diff => { if (!cancelled) setDiffs(prev => ({ ...prev, [key]: diff })); })
+            .catch(err => { if (!cancelled) setDiffs(prev => ({ ...prev, [key]: err instanceof Error ? err : new Error(String(err)) })); });
+        return () => { cancelled = true; };
+    }, [active, diffs]);
+
+    return (
+        <div className="absolute inset-0 z-50 bg-[#0a0a0a]/98 backdrop-blur-sm flex flex-col">
+            {/* Header */}
+            <div className="flex items-center justify-between px-4 py-3 border-b border-[#2e2e2e] bg-[#141414]">
+                <div className="flex items-center gap-3 min-w-0">
+                    <GitCompare className="w-5 h-5 text-amber-400 flex-shrink-0" />
+                    <div className="min-w-0">
+                        <h2 className="text-sm font-semibold text-gray-100 truncate">Visual changes</h2>
+                        <p className="text-xs text-gray-500 truncate">
+                            {before.label} → {after.label}
+                        </p>
+                    </div>
+                </div>
+                <div className="flex items-center gap-2">
+                    <div className="flex rounded border border-[#2e2e2e] overflow-hidden text-xs">
+                        {(['diff', 'side-by-side'] as const).map(option => (
+                            <button
+                                key={option}
+                                onClick={() => setMode(option)}
+                                className={`px-2.5 py-1 transition-colors ${mode === option
+                                    ? 'bg-amber-500/20 text-amber-400'
+                                    : 'text-gray-400 hover:bg-[#2e2e2e]'
+                                    }`}
+                            >
+                                {option === 'diff' ? 'Changes' : 'Side by side'}
+                            </button>
+                        ))}
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-1.5 hover:bg-[#2e2e2e] rounded transition-colors"
+                    >
+                        <X className="w-4 h-4 text-gray-400" />
+                    </button>
+                </div>
+            </div>
+
+            {pairs === null ? (
+                <div className="flex-1 flex items-center justify-center">
+                    <Loader2 className="w-5 h-5 animate-spin text-amber-400" />
+                </div>
+            ) : pairs.length === 0 ? (
+                <div className="flex-1 flex flex-col items-center justify-center text-center px-6">
+                    <ImageOff className="w-8 h-8 text-gray-600 mb-2" />
+                    <p className="text-sm text-gray-500">No screenshots for these versions</p>
+                </div>
+            ) : (
+                <div className="flex-1 flex overflow-hidden">
+                    {/* Viewport list */}
+                    <div className="w-56 flex-shrink-0 border-r border-[#2e2e2e] overflow-y-auto">
+                        {pairs.map(pair => {
+                            const diff = diffs[pair.key];
+                            const comparable = Boolean(pair.before && pair.after);
+                            return (
+                                <div
+                                    key={pair.key}
+                                    onClick={() => setActiveKey(pair.key)}
+                                    className={`flex items-center justify-between gap-2 px-3 py-2 cursor-pointer text-sm transition-colors ${pair.key === activeKey
+                                        ? 'bg-amber-500/10 text-amber-300'
+                                        : 'text-gray-400 hover:bg-white/5'
+                                        }`}
+                                >
+                                    <span>{pair.key}</span>
+                                    <span className="text-[11px] text-gray-500">
+                                        {!comparable
+                                            ? pair.before ? 'before only' : 'after only'
+                                            : diff && !(diff instanceof Error) ? `${(diff.ratio * 100).toFixed(1)}%` : ''}
+                                    </span>
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    {/* Screenshots */}
+                    <div className="flex-1 overflow-auto p-4">
+                        {active && (!active.before || !active.after) ? (
+                            <div className="flex flex-col gap-3">
+                                <p className="text-xs text-gray-500">
+                                    Only the {active.before ? 'earlier' : 'later'} version was captured at this size.
+                                </p>
+                                <Screenshot
+                                    src={(active.before ?? active.after)!.image}
+                                    caption={active.before ? before.label : after.label}
+                                />
+                            </div>
+                        ) : active && mode === 'side-by-side' ? (
+                            <div className="grid grid-cols-2 gap-4 items-start">
+                                <Screenshot src={active.before!.image} caption={before.label} />
+                                <Screenshot src={active.after!.image} caption={after.label} />
+                            </div>
+                        ) : activeDiff instanceof Error ? (
+                            <p className="text-sm text-red-400">Could not compare: {activeDiff.message}</p>
+                        ) : activeDiff ? (
+                            <div className="flex flex-col gap-2">
+                                <p className="text-xs text-gray-400">
+                                    {activeDiff.changedPixels === 0
+                                        ? 'No visible changes'
+                                        : `${activeDiff.changedPixels.toLocaleString()} pixels changed (${(activeDiff.ratio * 100).toFixed(2)}%), shown in magenta`}
+                                </p>
+                                <img src={activeDiff.image} alt="Changed pixels" className="max-w-full border border-[#2e2e2e] rounded" />
+                            </div>
+                        ) : (
+                            <div className="flex items-center justify-center py-8">
+                                <Loader2 className="w-5 h-5 animate-spin text-amber-400" />
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,6 +1,5 @@
 import React, { createContext, useContext, useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import axios from "axios";
 
 interface User {
   id: string;
@@ -25,8 +24,6 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   useEffect(() => {
     const initAuth = async () => {
-      axios.defaults.headers.common['ngrok-skip-browser-warning'] = 'true';
-
       const storedToken = localStorage.getItem("token");
       const storedUser = localStorage.getItem("user");
 
@@ -35,7 +32,6 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           const userData = JSON.parse(storedUser);
           setToken(storedToken);
           setUser(userData);
-          axios.defaults.headers.common['Authorization'] = `Bearer ${storedToken}`;
         } catch (error) {
           console.error("Failed to restore auth state:", error);
           localStorage.removeItem("token");
@@ -53,8 +49,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       localStorage.setItem("token", authToken);
       localStorage.setItem("user", JSON.stringify(userData));
 
-      // Set default authorization header
-      axios.defaults.headers.common['Authorization'] = `Bearer ${authToken}`;
+      // The API client reads the token from localStorage for every request
 
       setUser(userData);
       setToken(authToken);
@@ -70,8 +65,6 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const logout = () => {
     localStorage.removeItem("token");
     localStorage.removeItem("user");
-    // Remove authorization header
-    delete axios.defaults.headers.common['Authorization'];
     setUser(null);
     setToken(null);
     navigate("/login", { replace: true });
@@ -0,0 +1,121 @@
+/**
+ * AddressBar Component - Back, forward, reload and the current path of the preview,
+ * with a list of the site's routes to jump to
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, ArrowRight, ChevronDown, RotateCw } from 'lucide-react';
+import type { PreviewNavigation } from '../../utils/previewChannel';
+import type { PreviewRoute } from '../../utils/routes';
+
+interface AddressBarProps {
+    path: string | null; // null until the preview reports one
+    routes: PreviewRoute[];
+    onNavigate: (navigation: PreviewNavigation) => void;
+}
+
+export const AddressBar: React.FC<AddressBarProps> = ({ path, routes, onNavigate }) => {
+    const [draft, setDraft] = useState(path ?? '/');
+    const [showRoutes, setShowRoutes] = useState(false);
+    const inputRef = useRef<HTMLInputElement>(null);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    // Follow the preview unless the user is typing
+    useEffect(() => {
+        if (document.activeElement !== inputRef.current) setDraft(path ?? '/');
+    }, [path]);
+
+    useEffect(() => {
+        if (!showRoutes) return;
+        const handleClick = (e: MouseEvent) => {
+            if (!menuRef.current?.contains(e.target as Node)) setShowRoutes(false);
+        };
+        document.addEventListener('mousedown', handleClick);
+        return () => document.removeEventListener('mousedown', handleClick);
+    }, [showRoutes]);
+
+    const go = (target: string) => {
+        const trimmed = target.trim();
+        if (!trimmed) return;
+        onNavigate({ action: 'go', path: trimmed.startsWith('/') ? trimmed : '/' + trimmed });
+        inputRef.current?.blur();
+    };
+
+    // A route with parameters goes into the field so the user can fill them in
+    const handleRoute = (route: PreviewRoute) => {
+        setShowRoutes(false);
+        if (route.hasParams) {
+            setDraft(route.path);
+            inputRef.current?.focus();
+        } else {
+            go(route.path);
+        }
+    };
+
+    const navButton = 'p-1 hover:bg-[#2e2e2e] rounded transition-colors text-gray-500 hover:text-gray-300';
+
+    return (
+        <div className="flex items-center gap-1 min-w-0 flex-1">
+            <button onClick={() => onNavigate({ action: 'back' })} className={navButton} title="Back">
+                <ArrowLeft className="w-4 h-4" />
+            </button>
+            <button onClick={() => onNavigate({ action: 'forward' })} className={navButton} title="Forward">
+                <ArrowRight className="w-4 h-4" />
+            </button>
+            <button onClick={() => onNavigate({ action: 'reload' })} className={navButton} title="Reload">
+                <RotateCw className="w-4 h-4" />
+            </button>
+
+            <div ref={menuRef} className="relative flex-1 min-w-0 flex items-center">
+                <form
+                    className="flex-1 min-w-0"
+                    onSubmit={(e) => {
+                        e.preventDefault();
+                        go(draft);
+                    }}
+                >
+                    <input
+                        ref={inputRef}
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        onBlur={() => setDraft(path ?? '/')}
+                        onKeyDown={(e) => e.key === 'Escape' && inputRef.current?.blur()}
+                        spellCheck={false}
+                        className="w-full bg-[#0a0a0a] border border-[#2e2e2e] rounded-l px-2 py-1 text-sm text-gray-300 font-mono focus:outline-none focus:border-amber-500/50"
+                        aria-label="Preview path"
+                    />
+                </form>
+                <button
+                    onClick={() => setShowRoutes(!showRoutes)}
+                    disabled={routes.length === 0}
+                    className="px-1.5 py-1 bg-[#0a0a0a] border border-l-0 border-[#2e2e2e] rounded-r text-gray-500 hover:text-gray-300 disabled:opacity-50 transition-colors"
+                    title="Pages"
+                >
+                    <ChevronDown className="w-4 h-4" />
+                </button>
+
+                {showRoutes && (
+                    <ul className="absolute left-0 right-0 top-full mt-1 z-30 max-h-64 overflow-y-auto bg-[#141414] border border-[#2e2e2e] rounded-lg shadow-2xl py-1">
+                        {routes.map(route => (
+                            <li key={route.path}>
+                                <button
+                                    onMouseDown={(e) => e.preventDefault()}
+                                    onClick={() => handleRoute(route)}
+                                    className={`w-full flex items-center justify-between gap-3 px-3 py-1.5 text-left text-xs hover:bg-[#2e2e2e] transition-colors ${route.path === path ? 'text-amber-400' : 'text-gray-300'}`}
+                                >
+                                    <span className="font-mono truncate">{route.path}</span>
+                                    <span className="text-gray-500 truncate">{route.label}</span>
+                                </button>
+                            </li>
+                        ))}
+                        {routes[0]?.source === 'blueprint' && (
+                            <li className="px-3 pt-1.5 pb-1 text-[11px] text-gray-600 border-t border-[#2e2e2e] mt-1">
+                                From the blueprint; no router config found yet
+                            </li>
+                        )}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
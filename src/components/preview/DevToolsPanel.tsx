@@ -0,0 +1,202 @@
+/**
+ * DevToolsPanel Component - Console output, failed requests and Web Vitals of the preview
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Activity, AlertCircle, AlertTriangle, Ban, Globe, Info, TerminalSquare, X } from 'lucide-react';
+import { formatVital } from '../../utils/previewTelemetry';
+import type { ConsoleLevel, PreviewTelemetry, WebVitalName, WebVitalRating } from '../../types/telemetry.types';
+
+interface DevToolsPanelProps {
+    telemetry: PreviewTelemetry;
+    onClear?: () => void;
+    onClose?: () => void;
+}
+
+type DevToolsTab = 'console' | 'network' | 'performance';
+
+type LevelFilter = 'all' | 'error' | 'warn' | 'info';
+
+const LEVEL_STYLES: Record<ConsoleLevel, string> = {
+    log: 'text-gray-300',
+    info: 'text-blue-300',
+    debug: 'text-gray-500',
+    warn: 'text-yellow-300 bg-yellow-500/5',
+    error: 'text-red-300 bg-red-500/5',
+};
+
+const LEVEL_ICON: Partial<Record<ConsoleLevel, React.ReactNode>> = {
+    error: <AlertCircle className="w-3 h-3 text-red-400 flex-shrink-0 mt-0.5" />,
+    warn: <AlertTriangle className="w-3 h-3 text-yellow-400 flex-shrink-0 mt-0.5" />,
+    info: <Info className="w-3 h-3 text-blue-400 flex-shrink-0 mt-0.5" />,
+};
+
+const RATING_STYLES: Record<WebVitalRating, string> = {
+    good: 'text-green-400',
+    'needs-improvement': 'text-amber-400',
+    poor: 'text-red-400',
+};
+
+const VITALS: { name: WebVitalName; label: string }[] = [
+    { name: 'LCP', label: 'Largest Contentful Paint' },
+    { name: 'CLS', label: 'Cumulative Layout Shift' },
+    { name: 'INP', label: 'Interaction to Next Paint' },
+];
+
+const matchesFilter = (level: ConsoleLevel, filter: LevelFilter) =>
+    filter === 'all' || level === filter || (filter === 'info' && (level === 'info' || level === 'log'));
+
+export const DevToolsPanel: React.FC<DevToolsPanelProps> = ({ telemetry, onClear, onClose }) => {
+    const [activeTab, setActiveTab] = useState<DevToolsTab>('console');
+    const [filter, setFilter] = useState<LevelFilter>('all');
+    const scrollRef = useRef<HTMLDivElement>(null);
+
+    const logs = useMemo(
+        () => telemetry.console.filter(entry => matchesFilter(entry.level, filter)),
+        [telemetry.console, filter]
+    );
+    const errorCount = telemetry.console.filter(entry => entry.level === 'error').length;
+
+    // Keep the newest output in view
+    useEffect(() => {
+        if (activeTab === 'console' && scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }, [logs, activeTab]);
+
+    const tabs: { id: DevToolsTab; label: string; icon: React.ReactNode; count?: number }[] = [
+        { id: 'console', label: 'Console', icon: <TerminalSquare className="w-3.5 h-3.5" />, count: errorCount },
+        { id: 'network', label: 'Network', icon: <Globe className="w-3.5 h-3.5" />, count: telemetry.network.length },
+        { id: 'performance', label: 'Performance', icon: <Activity className="w-3.5 h-3.5" /> },
+    ];
+
+    return (
+        <div className="h-full flex flex-col bg-[#0d0d0d] text-xs">
+            <div className="flex items-center gap-1 px-2 bg-[#141414] border-b border-[#2e2e2e]">
+                {tabs.map(tab => (
+                    <button
+                        key={tab.id}
+                        onClick={() => setActiveTab(tab.id)}
+                        className={`flex items-center gap-1.5 px-2.5 py-1.5 transition-colors ${activeTab === tab.id
+                            ? 'text-amber-400 border-b-2 border-amber-400'
+                            : 'text-gray-500 hover:text-gray-300'
+                            }`}
+                    >
+                        {tab.icon}
+                        {tab.label}
+                        {!!tab.count && (
+                            <span className="px-1 min-w-[1rem] leading-4 rounded-full bg-red-500/20 text-red-400 text-[10px]">
+                                {tab.count}
+                            </span>
+                        )}
+                    </button>
+                ))}
+
+                <div className="ml-auto flex items-center gap-1">
+                    {activeTab === 'console' && (
+                        <select
+                            value={filter}
+                            onChange={(e) => setFilter(e.target.value as LevelFilter)}
+                            className="bg-[#0a0a0a] border border-[#2e2e2e] rounded px-1.5 py-0.5 text-gray-400 focus:outline-none"
+                        >
+                            <option value="all">All levels</option>
+                            <option value="error">Errors</option>
+                            <option value="warn">Warnings</option>
+                            <option value="info">Info</option>
+                        </select>
+                    )}
+                    {onClear && activeTab !== 'performance' && (
+                        <button
+                            onClick={onClear}
+                            className="p-1 hover:bg-[#2e2e2e] rounded transition-colors"
+                            title="Clear"
+                        >
+                            <Ban className="w-3.5 h-3.5 text-gray-500" />
+                        </button>
+                    )}
+                    {onClose && (
+                        <button
+                            onClick={onClose}
+                            className="p-1 hover:bg-[#2e2e2e] rounded transition-colors"
+                            title="Close DevTools"
+                        >
+                            <X className="w-3.5 h-3.5 text-gray-500" />
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            <div ref={scrollRef} className="flex-1 overflow-auto font-mono">
+                {activeTab === 'console' && (
+                    logs.length === 0 ? (
+                        <p className="px-3 py-2 text-gray-600">No console output</p>
+                    ) : (
+                        logs.map(entry => (
+                            <div
+                                key={entry.id}
+                                className={`flex items-start gap-1.5 px-3 py-0.5 border-b border-[#1a1a1a] ${LEVEL_STYLES[entry.level]}`}
+                            >
+                                {LEVEL_ICON[entry.level] ?? <span className="w-3 flex-shrink-0" />}
+                                <span className="flex-1 whitespace-pre-wrap break-words">{entry.text}</span>
+                                <span className="text-gray-600 flex-shrink-0">
+                                    {new Date(entry.at).toLocaleTimeString()}
+                                </span>
+                            </div>
+                        ))
+                    )
+                )}
+
+                {activeTab === 'network' && (
+                    telemetry.network.length === 0 ? (
+                        <p className="px-3 py-2 text-gray-600">No failed requests</p>
+                    ) : (
+                        <table className="w-full">
+                            <thead className="sticky top-0 bg-[#141414] text-gray-500 text-left">
+                                <tr>
+                                    <th className="px-3 py-1 font-normal">Status</th>
+                                    <th className="px-3 py-1 font-normal">Method</th>
+                                    <th className="px-3 py-1 font-normal w-full">URL</th>
+                                    <th className="px-3 py-1 font-normal">Type</th>
+                                    <th className="px-3 py-1 font-normal text-right">Time</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {telemetry.network.map(entry => (
+                                    <tr key={entry.id} className="border-b border-[#1a1a1a] text-gray-300">
+                                        <td className="px-3 py-0.5 text-red-400 whitespace-nowrap" title={entry.error ?? entry.statusText}>
+                                            {entry.status > 0 ? entry.status : entry.error ?? 'Failed'}
+                                        </td>
+                                        <td className="px-3 py-0.5">{entry.method}</td>
+                                        <td className="px-3 py-0.5 max-w-0 truncate" title={entry.url}>{entry.url}</td>
+                                        <td className="px-3 py-0.5 text-gray-500">{entry.kind}</td>
+                                        <td className="px-3 py-0.5 text-right text-gray-500 whitespace-nowrap">{entry.duration} ms</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )
+                )}
+
+                {activeTab === 'performance' && (
+                    <div className="grid grid-cols-3 gap-2 p-3 font-sans">
+                        {VITALS.map(({ name, label }) => {
+                            const vital = telemetry.vitals[name];
+                            return (
+                                <div key={name} className="bg-[#141414] border border-[#2e2e2e] rounded-lg p-3">
+                                    <p className="text-gray-400">{name}</p>
+                                    <p className={`text-lg font-semibold ${vital ? RATING_STYLES[vital.rating] : 'text-gray-600'}`}>
+                                        {vital ? formatVital(name, vital.value) : '–'}
+                                    </p>
+                                    <p className="text-[11px] text-gray-600">
+                                        {vital ? vital.rating.replace('-', ' ') : label}
+                                    </p>
+                                </div>
+                            );
+                        })}
+                        <p className="col-span-3 text-[11px] text-gray-600">
+                            INP appears after the first interaction with the preview.
+                        </p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,224 @@
+/**
+ * DevicePreview Component - The preview iframe at device sizes, with a device toolbar
+ * Responsive fills the pane; a preset or custom size renders a device frame that can be
+ * rotated and zoomed, and side-by-side mode shows one frame per common breakpoint.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Columns3, RotateCw } from 'lucide-react';
+import {
+    DEVICE_PRESETS,
+    MAX_VIEWPORT_SIZE,
+    MIN_VIEWPORT_SIZE,
+    SIDE_BY_SIDE_PRESETS,
+    clampViewportSize,
+    deviceKind,
+    fitScale,
+    rotateViewport,
+} from '../../utils/viewports';
+import type { PreviewViewport } from '../../types/api.types';
+
+interface DevicePreviewProps {
+    src: string;
+    viewport: PreviewViewport | null; // null: fill the pane
+    onViewportChange: (viewport: PreviewViewport | null) => void;
+}
+
+type Zoom = 'fit' | number;
+
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.25];
+const FRAME_GAP = 24; // px around and between frames
+const LABEL_HEIGHT = 20;
+
+// Size of an element, kept up to date as the pane is resized
+function useElementSize(ref: React.RefObject<HTMLElement>) {
+    const [size, setSize] = useState({ width: 0, height: 0 });
+    useEffect(() => {
+        const element = ref.current;
+        if (!element) return;
+        const observer = new ResizeObserver(([entry]) => {
+            setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+        });
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, [ref]);
+    return size;
+}
+
+// Number field that applies its value on Enter or blur, so typing "1024" does not clamp at "1"
+const SizeInput: React.FC<{ value: number; label: string; onCommit: (value: number) => void }> = ({ value, label, onCommit }) => {
+    const [draft, setDraft] = useState(String(value));
+    useEffect(() => setDraft(String(value)), [value]);
+
+    const commit = () => {
+        const size = Number(draft);
+        if (Number.isFinite(size) && size > 0) onCommit(clampViewportSize(size));
+        else setDraft(String(value));
+    };
+
+    return (
+        <input
+            type="number"
+            min={MIN_VIEWPORT_SIZE}
+            max={MAX_VIEWPORT_SIZE}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => e.key === 'Enter' && commit()}
+            className="w-16 bg-[#0a0a0a] border border-[#2e2e2e] rounded px-1.5 py-1 text-gray-300 focus:outline-none"
+            aria-label={label}
+        />
+    );
+};
+
+// The page at `viewport` size, drawn at `scale` inside a bezel that suits the device
+const DeviceFrame: React.FC<{ src: string; viewport: PreviewViewport; scale: number; label?: string }> = ({
+    src,
+    viewport,
+    scale,
+    label
+}) => {
+    const kind = deviceKind(viewport);
+    const bezel = kind === 'desktop'
+        ? 'rounded-md border border-[#2e2e2e]'
+        : `border-[#1f1f1f] shadow-2xl ${kind === 'mobile' ? 'rounded-[2rem] border-[10px]' : 'rounded-[1.5rem] border-[14px]'}`;
+
+    return (
+        <div className="flex flex-col items-center flex-shrink-0">
+            {label && (
+                <p className="text-[11px] text-gray-500 whitespace-nowrap" style={{ height: LABEL_HEIGHT }}>{label}</p>
+            )}
+            <div className={`bg-white overflow-hidden ${bezel}`}>
+                <div style={{ width: viewport.width * scale, height: viewport.height * scale }}>
+                    <iframe
+                        src={src}
+                        title={`Preview at ${viewport.width}×${viewport.height}`}
+                        className="border-0 origin-top-left"
+                        style={{ width: viewport.width, height: viewport.height, transform: `scale(${scale})` }}
+                    />
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export const DevicePreview: React.FC<DevicePreviewProps> = ({ src, viewport, onViewportChange }) => {
+    const [zoom, setZoom] = useState<Zoom>('fit');
+    const [sideBySide, setSideBySide] = useState(false);
+    const areaRef = useRef<HTMLDivElement>(null);
+    const area = useElementSize(areaRef);
+    const available = { width: area.width - FRAME_GAP * 2, height: area.height - FRAME_GAP * 2 - LABEL_HEIGHT };
+
+    const handlePreset = (name: string) => {
+        if (!name) return onViewportChange(null);
+        const preset = DEVICE_PRESETS.find(p => p.name === name);
+        if (!preset) return;
+        // Keep the orientation the user rotated to
+        const landscape = viewport !== null && viewport.width > viewport.height;
+        const rotated = landscape !== (preset.width > preset.height);
+        onViewportChange(rotated ? rotateViewport(preset) : preset);
+    };
+
+    const handleSize = (dimension: 'width' | 'height', size: number) => {
+        if (!viewport || viewport[dimension] === size) return;
+        onViewportChange({ ...viewport, name: 'Custom', [dimension]: size });
+    };
+
+    // Side-by-side frames share one scale so their sizes stay comparable
+    const sideBySideScale = Math.min(
+        ...SIDE_BY_SIDE_PRESETS.map(preset => fitScale(preset.width, preset.height, { width: Infinity, height: available.height }))
+    );
+
+    return (
+        <div className="flex-1 min-h-0 flex flex-col">
+            {/* Device toolbar */}
+            <div className="flex items-center gap-2 px-4 py-1.5 bg-[#141414] border-b border-[#2e2e2e] text-xs text-gray-400">
+                <select
+                    value={sideBySide ? '' : viewport?.name ?? ''}
+                    onChange={(e) => handlePreset(e.target.value)}
+                    disabled={sideBySide}
+                    className="bg-[#0a0a0a] border border-[#2e2e2e] rounded px-1.5 py-1 focus:outline-none disabled:opacity-50"
+                >
+                    <option value="">Responsive</option>
+                    {DEVICE_PRESETS.map(preset => (
+                        <option key={preset.name} value={preset.name}>{preset.name}</option>
+                    ))}
+                    {viewport?.name === 'Custom' && <option value="Custom">Custom</option>}
+                </select>
+
+                {viewport && !sideBySide && (
+                    <>
+                        <SizeInput value={viewport.width} label="Viewport width" onCommit={size => handleSize('width', size)} />
+                        <span>×</span>
+                        <SizeInput value={viewport.height} label="Viewport height" onCommit={size => handleSize('height', size)} />
+                        <button
+                            onClick={() => onViewportChange(rotateViewport(viewport))}
+                            className="p-1 hover:bg-[#2e2e2e] rounded transition-colors"
+                            title="Rotate"
+                        >
+                            <RotateCw className="w-3.5 h-3.5" />
+                        </button>
+                        <select
+                            value={String(zoom)}
+                            onChange={(e) => setZoom(e.target.value === 'fit' ? 'fit' : Number(e.target.value))}
+                            className="bg-[#0a0a0a] border border-[#2e2e2e] rounded px-1.5 py-1 focus:outline-none"
+                            aria-label="Zoom"
+                        >
+                            <option value="fit">Fit</option>
+                            {ZOOM_LEVELS.map(level => (
+                                <option key={level} value={level}>{Math.round(level * 100)}%</option>
+                            ))}
+                        </select>
+                    </>
+                )}
+
+                <button
+                    onClick={() => setSideBySide(!sideBySide)}
+                    className={`ml-auto flex items-center gap-1 px-2 py-1 rounded transition-colors ${sideBySide
+                        ? 'bg-amber-500/20 text-amber-400'
+                        : 'hover:bg-[#2e2e2e]'
+                        }`}
+                    title="Show several breakpoints at once"
+                >
+                    <Columns3 className="w-3.5 h-3.5" />
+                    Side by side
+                </button>
+            </div>
+
+            {/* Frames */}
+            <div
+                ref={areaRef}
+                className={`flex-1 min-h-0 ${viewport || sideBySide ? 'overflow-auto bg-[#0d0d0d]' : 'bg-white'}`}
+            >
+                {sideBySide ? (
+                    <div className="flex items-start min-w-max" style={{ gap: FRAME_GAP, padding: FRAME_GAP }}>
+                        {SIDE_BY_SIDE_PRESETS.map(preset => (
+                            <DeviceFrame
+                                key={preset.name}
+                                src={src}
+                                viewport={preset}
+                                scale={sideBySideScale}
+                                label={`${preset.name} · ${preset.width}×${preset.height}`}
+                            />
+                        ))}
+                    </div>
+                ) : viewport ? (
+                    <div className="flex justify-center min-w-max" style={{ padding: FRAME_GAP }}>
+                        <DeviceFrame
+                            src={src}
+                            viewport={viewport}
+                            scale={zoom === 'fit' ? fitScale(viewport.width, viewport.height, available) : zoom}
+                            label={`${viewport.width}×${viewport.height}`}
+                        />
+                    </div>
+                ) : (
+                    <iframe
+                        src={src}
+                        className="w-full h-full border-0"
+                        title="Preview"
+                    />
+                )}
+            </div>
+        </div>
+    );
+};
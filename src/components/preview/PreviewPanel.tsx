@@ -1,6 +1,10 @@
-import React, { useState, useCallback } from 'react';
-import Editor from '@monaco-editor/react';
+import React, { useState, useCallback, useRef } from 'react';
+import Editor, { type OnMount } from '@monaco-editor/react';
 import { FileTree, FileNode } from './FileTree';
+import { ProblemsPanel } from './ProblemsPanel';
+import { DevToolsPanel } from './DevToolsPanel';
+import { DevicePreview } from './DevicePreview';
+import { AddressBar } from './AddressBar';
 import {
     Code2,
     Eye,
@@ -12,10 +16,19 @@ import {
     FolderTree,
     Save,
     Terminal,
-    Loader2
+    Loader2,
+    AlertCircle,
+    PanelBottom,
+    Crosshair
 } from 'lucide-react';
 import { Button } from '../ui/Button';
 import { Badge } from '../ui/Badge';
+import { getLanguage } from '../../utils/language';
+import type { Diagnostic } from '../../types/diagnostics.types';
+import type { PreviewTelemetry } from '../../types/telemetry.types';
+import type { PreviewViewport } from '../../types/api.types';
+import type { PreviewNavigation } from '../../utils/previewChannel';
+import type { PreviewRoute } from '../../utils/routes';
 
 interface PreviewPanelProps {
     files: FileNode[];
@@ -29,24 +42,20 @@ interface PreviewPanelProps {
     terminalOutput?: string[];
     isInstalling?: boolean;
     isBooting?: boolean;
+    diagnostics?: Diagnostic[];
+    isCheckingDiagnostics?: boolean;
+    onRunDiagnostics?: () => void;
+    onOpenDiagnostic?: (diagnostic: Diagnostic) => void;
+    telemetry?: PreviewTelemetry;
+    onClearTelemetry?: () => void;
+    isInspecting?: boolean;
+    onToggleInspect?: () => void;
+    onViewportChange?: (viewport: PreviewViewport | null) => void;
+    previewPath?: string | null;
+    routes?: PreviewRoute[];
+    onNavigate?: (navigation: PreviewNavigation) => boolean;
 }
 
-// Determine language for Monaco from file extension
-const getLanguage = (path: string): string => {
-    const ext = path.split('.').pop()?.toLowerCase();
-    const languageMap: Record<string, string> = {
-        tsx: 'typescript',
-        ts: 'typescript',
-        jsx: 'javascript',
-        js: 'javascript',
-        css: 'css',
-        html: 'html',
-        json: 'json',
-        md: 'markdown',
-    };
-    return languageMap[ext || ''] || 'plaintext';
-};
-
 export const PreviewPanel: React.FC<PreviewPanelProps> = ({
     files,
     selectedFile,
@@ -58,11 +67,32 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
     terminalOutput = [],
     isInstalling = false,
     isBooting = false,
+    diagnostics = [],
+    isCheckingDiagnostics = false,
+    onRunDiagnostics,
+    onOpenDiagnostic,
+    telemetry,
+    onClearTelemetry,
+    isInspecting = false,
+    onToggleInspect,
+    onViewportChange,
+    previewPath = null,
+    routes = [],
+    onNavigate,
 }) => {
-    const [activeTab, setActiveTab] = useState<'files' | 'preview' | 'code'>('files');
+    const [activeTab, setActiveTab] = useState<'files' | 'preview' | 'code' | 'problems'>('files');
     const [copied, setCopied] = useState(false);
+    const [showDevTools, setShowDevTools] = useState(false);
+    const [viewport, setViewport] = useState<PreviewViewport | null>(null);
+    const [frameKey, setFrameKey] = useState(0);
     const [editedContent, setEditedContent] = useState<string>('');
     const [hasChanges, setHasChanges] = useState(false);
+    const editorRef = useRef<Parameters<OnMount>[0] | null>(null);
+    const pendingRevealRef = useRef<{ line: number; column: number } | null>(null);
+    const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+    const consoleErrorCount = telemetry?.console.filter(entry => entry.level === 'error').length ?? 0;
+    // Copy and open the page being shown, not just the dev server root
+    const pageUrl = previewUrl && previewPath ? new URL(previewPath, previewUrl).href : previewUrl;
 
     const handleCopyCode = () => {
         const content = hasChanges ? editedContent : selectedFile?.content;
@@ -95,6 +125,51 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
         }
     }, [selectedFile?.path, selectedFile?.content]);
 
+    // Move the cursor to a diagnostic once its file is showing in the editor
+    const revealPending = useCallback(() => {
+        const editor = editorRef.current;
+        const position = pendingRevealRef.current;
+        if (!editor || !position) return;
+        pendingRevealRef.current = null;
+        editor.revealLineInCenter(position.line);
+        editor.setPosition({ lineNumber: position.line, column: Math.max(position.column, 1) });
+        editor.focus();
+    }, []);
+
+    React.useEffect(() => {
+        if (activeTab !== 'code') {
+            editorRef.current = null; // The editor unmounts with the tab
+            return;
+        }
+        revealPending();
+    }, [activeTab, selectedFile?.path, revealPending]);
+
+    const handleEditorMount = useCallback<OnMount>((editor) => {
+        editorRef.current = editor;
+        revealPending();
+    }, [revealPending]);
+
+    // The parent keeps the device size too, to report it with chat messages
+    const handleViewportChange = useCallback((next: PreviewViewport | null) => {
+        setViewport(next);
+        onViewportChange?.(next);
+    }, [onViewportChange]);
+
+    // A preview that never loaded has no script to answer, so reload by remounting the frame
+    const handleNavigate = useCallback((navigation: PreviewNavigation) => {
+        const delivered = onNavigate?.(navigation) ?? false;
+        if (!delivered && navigation.action === 'reload') setFrameKey(key => key + 1);
+    }, [onNavigate]);
+
+    const handleOpenDiagnostic = useCallback((diagnostic: Diagnostic) => {
+        if (!onOpenDiagnostic) return;
+        onOpenDiagnostic(diagnostic);
+        if (diagnostic.line > 0) {
+            pendingRevealRef.current = { line: diagnostic.line, column: diagnostic.column };
+        }
+        setActiveTab('code');
+    }, [onOpenDiagnostic]);
+
     return (
         <div className="flex flex-col h-full bg-[#0a0a0a] md:border-l border-[#2e2e2e]">
             {/* Header */}
@@ -149,6 +224,21 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
                     <Eye className="w-4 h-4" />
                     Preview
                 </button>
+                <button
+                    onClick={() => setActiveTab('problems')}
+                    className={`flex-1 flex items-center justify-center gap-2 px-4 py-2.5 text-sm font-medium transition-colors ${activeTab === 'problems'
+                        ? 'text-amber-400 border-b-2 border-amber-400 bg-amber-500/5'
+                        : 'text-gray-500 hover:text-gray-300'
+                        }`}
+                >
+                    <AlertCircle className="w-4 h-4" />
+                    Problems
+                    {errorCount > 0 && (
+                        <span className="px-1.5 min-w-[1.25rem] text-xs leading-5 rounded-full bg-red-500/20 text-red-400">
+                            {errorCount}
+                        </span>
+                    )}
+                </button>
             </div>
 
             {/* Content */}
@@ -209,6 +299,7 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
                                 language={getLanguage(selectedFile.path)}
                                 value={editedContent || selectedFile.content || ''}
                                 onChange={handleEditorChange}
+                                onMount={handleEditorMount}
                                 theme="vs-dark"
                                 beforeMount={(monaco) => {
                                     // Configure TypeScript/JavaScript to be less strict
@@ -248,24 +339,58 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
                     </div>
                 )}
 
+                {activeTab === 'problems' && (
+                    <ProblemsPanel
+                        diagnostics={diagnostics}
+                        isChecking={isCheckingDiagnostics}
+                        onRunCheck={onRunDiagnostics}
+                        onOpenDiagnostic={onOpenDiagnostic ? handleOpenDiagnostic : undefined}
+                    />
+                )}
+
                 {activeTab === 'preview' && (
                     <div className="h-full flex flex-col">
                         {previewUrl ? (
                             <>
-                                <div className="flex items-center justify-between px-4 py-2 bg-[#141414] border-b border-[#2e2e2e]">
-                                    <a
-                                        href={previewUrl}
-                                        target="_blank"
-                                        rel="noopener noreferrer"
-                                        className="text-sm text-blue-400 hover:text-blue-300 hover:underline truncate max-w-[80%] transition-colors"
-                                        title="Click to open in new tab (you may need to click 'Connect to Project')"
-                                    >
-                                        {previewUrl}
-                                    </a>
-                                    <div className="flex items-center gap-1">
+                                <div className="flex items-center justify-between gap-3 px-4 py-2 bg-[#141414] border-b border-[#2e2e2e]">
+                                    {onNavigate ? (
+                                        <AddressBar path={previewPath} routes={routes} onNavigate={handleNavigate} />
+                                    ) : (
+                                        <a
+                                            href={previewUrl}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="text-sm text-blue-400 hover:text-blue-300 hover:underline truncate max-w-[80%] transition-colors"
+                                            title="Click to open in new tab (you may need to click 'Connect to Project')"
+                                        >
+                                            {previewUrl}
+                                        </a>
+                                    )}
+                                    <div className="flex items-center gap-1 flex-shrink-0">
+                                        {onToggleInspect && (
+                                            <button
+                                                onClick={onToggleInspect}
+                                                className={`p-1.5 hover:bg-[#2e2e2e] rounded transition-colors ${isInspecting ? 'bg-amber-500/20' : ''}`}
+                                                title={isInspecting ? 'Stop selecting (Esc)' : 'Select an element to edit'}
+                                            >
+                                                <Crosshair className={`w-4 h-4 ${isInspecting ? 'text-amber-400' : 'text-gray-500 hover:text-gray-300'}`} />
+                                            </button>
+                                        )}
+                                        {telemetry && (
+                                            <button
+                                                onClick={() => setShowDevTools(!showDevTools)}
+                                                className={`relative p-1.5 hover:bg-[#2e2e2e] rounded transition-colors ${showDevTools ? 'bg-[#2e2e2e]' : ''}`}
+                                                title={showDevTools ? 'Hide DevTools' : 'Show DevTools'}
+                                            >
+                                                <PanelBottom className={`w-4 h-4 ${showDevTools ? 'text-amber-400' : 'text-gray-500 hover:text-gray-300'}`} />
+                                                {consoleErrorCount > 0 && !showDevTools && (
+                                                    <span className="absolute top-0.5 right-0.5 w-1.5 h-1.5 rounded-full bg-red-500" />
+                                                )}
+                                            </button>
+                                        )}
                                         <button
                                             onClick={() => {
-                                                navigator.clipboard.writeText(previewUrl);
+                                                navigator.clipboard.writeText(pageUrl ?? previewUrl);
                                             }}
                                             className="p-1.5 hover:bg-[#2e2e2e] rounded transition-colors"
                                             title="Copy URL"
@@ -273,7 +398,7 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
                                             <Copy className="w-4 h-4 text-gray-500 hover:text-gray-300" />
                                         </button>
                                         <a
-                                            href={previewUrl}
+                                            href={pageUrl}
                                             target="_blank"
                                             rel="noopener noreferrer"
                                             className="p-1.5 hover:bg-[#2e2e2e] rounded transition-colors"
@@ -283,13 +408,21 @@ export const PreviewPanel: React.FC<PreviewPanelProps> = ({
                                         </a>
                                     </div>
                                 </div>
-                                <div className="flex-1 bg-white">
-                                    <iframe
-                                        src={previewUrl}
-                                        className="w-full h-full border-0"
-                                        title="Preview"
-                                    />
-                                </div>
+                                <DevicePreview
+                                    key={frameKey}
+                                    src={previewUrl}
+                                    viewport={viewport}
+                                    onViewportChange={handleViewportChange}
+                                />
+                                {telemetry && showDevTools && (
+                                    <div className="h-64 flex-shrink-0 border-t border-[#2e2e2e]">
+                                        <DevToolsPanel
+                                            telemetry={telemetry}
+                                            onClear={onClearTelemetry}
+                                            onClose={() => setShowDevTools(false)}
+                                        />
+                                    </div>
+                                )}
                             </>
                         ) : (isInstalling || isBooting) ? (
                             /* Terminal view during installation */
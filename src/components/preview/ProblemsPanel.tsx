@@ -0,0 +1,121 @@
+/**
+ * ProblemsPanel Component - Diagnostics of the running project, grouped by file
+ */
+
+import React, { useMemo } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle, FileCode, Info, Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '../ui/Button';
+import type { Diagnostic, DiagnosticExcerpt, DiagnosticSeverity } from '../../types/diagnostics.types';
+
+interface ProblemsPanelProps {
+    diagnostics: Diagnostic[];
+    isChecking?: boolean;
+    onRunCheck?: () => void;
+    onOpenDiagnostic?: (diagnostic: Diagnostic) => void;
+}
+
+const SEVERITY_ICON: Record<DiagnosticSeverity, React.ReactNode> = {
+    error: <AlertCircle className="w-3.5 h-3.5 text-red-400 flex-shrink-0 mt-0.5" />,
+    warning: <AlertTriangle className="w-3.5 h-3.5 text-yellow-400 flex-shrink-0 mt-0.5" />,
+    info: <Info className="w-3.5 h-3.5 text-blue-400 flex-shrink-0 mt-0.5" />,
+};
+
+// Source lines around a runtime error, with the error line highlighted
+const Excerpt: React.FC<{ excerpt: DiagnosticExcerpt; line: number }> = ({ excerpt, line }) => (
+    <pre className="mt-1 text-[11px] leading-4 font-mono overflow-x-auto bg-[#0a0a0a] rounded p-2">
+        {excerpt.lines.map((text, i) => {
+            const lineNumber = excerpt.startLine + i;
+            return (
+                <div key={lineNumber} className={lineNumber === line ? 'text-red-300 bg-red-500/10' : 'text-gray-500'}>
+                    <span className="inline-block w-8 pr-2 text-right text-gray-600 select-none">{lineNumber}</span>
+                    {text}
+                </div>
+            );
+        })}
+    </pre>
+);
+
+export const ProblemsPanel: React.FC<ProblemsPanelProps> = ({
+    diagnostics,
+    isChecking = false,
+    onRunCheck,
+    onOpenDiagnostic
+}) => {
+    // Diagnostics arrive sorted, so grouping keeps files with errors first
+    const groups = useMemo(() => {
+        const byFile = new Map<string, Diagnostic[]>();
+        for (const d of diagnostics) {
+            byFile.set(d.file, [...(byFile.get(d.file) ?? []), d]);
+        }
+        return [...byFile.entries()];
+    }, [diagnostics]);
+
+    const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+    const warningCount = diagnostics.filter(d => d.severity === 'warning').length;
+
+    return (
+        <div className="h-full flex flex-col">
+            <div className="flex items-center justify-between px-4 py-2 bg-[#141414] border-b border-[#2e2e2e]">
+                <div className="flex items-center gap-3 text-xs text-gray-400">
+                    <span className="flex items-center gap-1">
+                        <AlertCircle className="w-3.5 h-3.5 text-red-400" />
+                        {errorCount} {errorCount === 1 ? 'error' : 'errors'}
+                    </span>
+                    <span className="flex items-center gap-1">
+                        <AlertTriangle className="w-3.5 h-3.5 text-yellow-400" />
+                        {warningCount} {warningCount === 1 ? 'warning' : 'warnings'}
+                    </span>
+                    {isChecking && (
+                        <span className="flex items-center gap-1 text-amber-400">
+                            <Loader2 className="w-3 h-3 animate-spin" />
+                            Type checking...
+                        </span>
+                    )}
+                </div>
+                {onRunCheck && (
+                    <Button variant="ghost" size="sm" onClick={onRunCheck} disabled={isChecking}>
+                        <RefreshCw className="w-3.5 h-3.5" />
+                        Re-check
+                    </Button>
+                )}
+            </div>
+
+            <div className="flex-1 overflow-auto">
+                {groups.length === 0 ? (
+                    <div className="flex flex-col items-center justify-center h-full text-center py-8">
+                        <CheckCircle className="w-8 h-8 text-gray-600 mb-2" />
+                        <p className="text-sm text-gray-500">No problems detected</p>
+                    </div>
+                ) : groups.map(([file, items]) => (
+                    <div key={file || 'project'} className="border-b border-[#2e2e2e]">
+                        <div className="flex items-center gap-2 px-4 py-1.5 bg-[#0d0d0d] text-xs text-gray-300">
+                            <FileCode className="w-3.5 h-3.5 text-blue-400" />
+                            <span className="truncate">{file || 'Project'}</span>
+                            <span className="ml-auto text-gray-500">{items.length}</span>
+                        </div>
+                        {items.map((d, i) => (
+                            <button
+                                key={i}
+                                onClick={() => onOpenDiagnostic?.(d)}
+                                disabled={!d.file || !onOpenDiagnostic}
+                                className="w-full flex items-start gap-2 px-6 py-1.5 text-left text-xs hover:bg-[#141414] disabled:hover:bg-transparent transition-colors"
+                            >
+                                {SEVERITY_ICON[d.severity]}
+                                <span className="min-w-0 flex-1">
+                                    <span className="block text-gray-300 whitespace-pre-wrap break-words line-clamp-3">
+                                        {d.message}
+                                    </span>
+                                    <span className="text-gray-600">
+                                        {d.source}{d.code ? ` ${d.code}` : ''}
+                                        {d.line > 0 && ` · Ln ${d.line}${d.column > 0 ? `, Col ${d.column}` : ''}`}
+                                    </span>
+                                    {d.excerpt && <Excerpt excerpt={d.excerpt} line={d.line} />}
+                                </span>
+                            </button>
+                        ))}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
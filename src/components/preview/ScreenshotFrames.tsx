@@ -0,0 +1,28 @@
+/**
+ * ScreenshotFrames Component - Hidden preview frames at the viewports screenshots are taken at
+ * Mounted only while a capture runs. The frames stay on the page behind a one-pixel clip
+ * rather than off-screen, so the browser keeps rendering them.
+ */
+
+import React from 'react';
+import type { PreviewViewport } from '../../types/api.types';
+
+interface ScreenshotFramesProps {
+    src: string;
+    viewports: PreviewViewport[];
+}
+
+export const ScreenshotFrames: React.FC<ScreenshotFramesProps> = ({ src, viewports }) => (
+    <div aria-hidden className="fixed top-0 left-0 w-px h-px overflow-hidden opacity-0 pointer-events-none">
+        {viewports.map(viewport => (
+            <iframe
+                key={`${viewport.width}x${viewport.height}`}
+                src={src}
+                title={`Screenshot at ${viewport.width}×${viewport.height}`}
+                tabIndex={-1}
+                className="border-0"
+                style={{ width: viewport.width, height: viewport.height }}
+            />
+        ))}
+    </div>
+);
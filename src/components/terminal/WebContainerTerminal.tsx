@@ -1,30 +1,119 @@
-import React, { useEffect, useRef, useCallback, useState } from 'react';
+import React, { useEffect, useRef, useCallback, useMemo, useState } from 'react';
 import { Terminal } from 'xterm';
 import { FitAddon } from '@xterm/addon-fit';
 import { WebLinksAddon } from '@xterm/addon-web-links';
 import 'xterm/css/xterm.css';
-import { ChevronUp, ChevronDown, Trash2, Terminal as TerminalIcon, Square } from 'lucide-react';
+import { saveAs } from 'file-saver';
+import { ChevronUp, ChevronDown, Trash2, Terminal as TerminalIcon, Square, X, Plus, Search, Download } from 'lucide-react';
+import { BUILDER_CHANNEL, OUTPUT_CAPACITY_OPTIONS, formatOutputLog } from '../../utils/outputBuffer';
+import type { OutputLevel, OutputLine, ProcessInfo, ProcessStatus } from '../../types/process.types';
 
 interface WebContainerTerminalProps {
-    terminalOutput: string[];
-    onCommand?: (command: string) => void;
-    onKill?: () => void;
-    isRunning?: boolean;
+    outputLines: OutputLine[];
+    outputCapacity?: number;
+    onCapacityChange?: (lines: number) => void;
+    processes?: ProcessInfo[];
+    onOpenShell?: (size: { cols: number; rows: number }) => Promise<string | null>; // Resolves with its process id
+    onAttach?: (id: string, listener: (data: string) => void) => () => void;
+    onInput?: (id: string, data: string) => void;
+    onResize?: (id: string, cols: number, rows: number) => void;
+    onKill?: (id: string) => void;
+    onRemove?: (id: string) => void;
 }
 
+// The builder's own log, read-only; every other tab is a process
+const LOG_TAB = 'log';
+
+type LevelFilter = 'all' | OutputLevel;
+
+const STATUS_DOTS: Record<ProcessStatus, string> = {
+    running: 'bg-emerald-400 animate-pulse',
+    exited: 'bg-slate-500',
+    failed: 'bg-red-400',
+    killed: 'bg-amber-400',
+};
+
+// Helper to color lines
+const colorLine = (line: OutputLine, text: string): string => {
+    if (line.level === 'error') {
+        return `\x1b[31m${text}\x1b[0m`;
+    } else if (line.level === 'warn') {
+        return `\x1b[33m${text}\x1b[0m`;
+    } else if (line.text.includes('success') || line.text.includes('ready') || line.text.includes('compiled') || line.text.includes('Ready')) {
+        return `\x1b[32m${text}\x1b[0m`;
+    } else if (line.text.startsWith('$') || line.text.startsWith('>')) {
+        return `\x1b[36m${text}\x1b[0m`;
+    }
+    return text;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const formatTime = (at: number) => new Date(at).toLocaleTimeString([], { hour12: false });
+
+const statusText = (process: ProcessInfo) =>
+    process.status === 'running' ? 'running' : process.status === 'killed' ? 'killed' : `exited with code ${process.exitCode}`;
+
 export const WebContainerTerminal: React.FC<WebContainerTerminalProps> = ({
-    terminalOutput,
-    onCommand,
+    outputLines,
+    outputCapacity,
+    onCapacityChange,
+    processes = [],
+    onOpenShell,
+    onAttach,
+    onInput,
+    onResize,
     onKill,
-    isRunning = false
+    onRemove
 }) => {
     const terminalRef = useRef<HTMLDivElement>(null);
     const xtermRef = useRef<Terminal | null>(null);
     const fitAddonRef = useRef<FitAddon | null>(null);
     const [isCollapsed, setIsCollapsed] = useState(false);
-    const inputBufferRef = useRef('');
-    const lastOutputIndexRef = useRef(0);
+    const [activeTab, setActiveTab] = useState<string>(LOG_TAB);
+    const [search, setSearch] = useState('');
+    const [levelFilter, setLevelFilter] = useState<LevelFilter>('all');
+    const [channelFilter, setChannelFilter] = useState('all');
+    const [clearedSeq, setClearedSeq] = useState(0); // Lines up to this one are hidden from the log
+    const lastSeqRef = useRef(0); // Newest line written to the log
+    const outputLinesRef = useRef(outputLines);
+    outputLinesRef.current = outputLines;
     const isInitializedRef = useRef(false);
+    const hasOpenedShellRef = useRef(false);
+    // Read by the xterm handlers, which are only registered once
+    const activeTabRef = useRef(activeTab);
+    const processesRef = useRef(processes);
+    const handlersRef = useRef({ onInput, onResize, onKill });
+    activeTabRef.current = activeTab;
+    processesRef.current = processes;
+    handlersRef.current = { onInput, onResize, onKill };
+
+    const activeProcess = processes.find(p => p.id === activeTab) ?? null;
+    const runningCount = processes.filter(p => p.status === 'running').length;
+
+    const channelName = useCallback((channel: string) =>
+        channel === BUILDER_CHANNEL ? 'builder' : processes.find(p => p.id === channel)?.name ?? channel,
+    [processes]);
+    const channelNameRef = useRef(channelName);
+    channelNameRef.current = channelName;
+
+    // Blank lines are kept and exported but not shown
+    const matchesFilters = useCallback((line: OutputLine) => {
+        if (line.seq <= clearedSeq) return false;
+        if (levelFilter !== 'all' && line.level !== levelFilter) return false;
+        if (channelFilter !== 'all' && line.channel !== channelFilter) return false;
+        return !search || line.text.toLowerCase().includes(search.toLowerCase());
+    }, [clearedSeq, levelFilter, channelFilter, search]);
+
+    const filteredLines = useMemo(() => outputLines.filter(matchesFilters), [outputLines, matchesFilters]);
+
+    // "12:03:45 [dev server] text", with search matches inverted
+    const formatLine = useCallback((line: OutputLine) => {
+        const text = search
+            ? line.text.replace(new RegExp(escapeRegExp(search), 'gi'), match => `\x1b[7m${match}\x1b[27m`)
+            : line.text;
+        return `\x1b[90m${formatTime(line.at)} [${channelNameRef.current(line.channel)}]\x1b[0m ${colorLine(line, text)}`;
+    }, [search]);
 
     // Initialize xterm
     useEffect(() => {
@@ -85,63 +174,31 @@ export const WebContainerTerminal: React.FC<WebContainerTerminalProps> = ({
             }
         }, 200);
 
-        // Write initial message
-        term.writeln('\x1b[36m[WebContainer Terminal]\x1b[0m Ready - Type commands below');
-        term.write('\x1b[32m$ \x1b[0m');
-
-        // Write any existing output
-        if (terminalOutput.length > 0) {
-            terminalOutput.forEach(line => {
-                term.writeln(colorLine(line));
-            });
-            lastOutputIndexRef.current = terminalOutput.length;
-            term.write('\x1b[32m$ \x1b[0m');
-        }
-
-        // Handle user input
+        // Keystrokes go to the process of the active tab as typed; its pseudoterminal
+        // does the echoing and line editing. Ctrl+C interrupts inside a shell and stops
+        // any other process.
         term.onData((data) => {
-            // Ctrl+C
-            if (data === '\x03') {
-                if (onKill) {
-                    term.write('^C\r\n');
-                    term.write('\x1b[32m$ \x1b[0m');
-                    onKill();
-                }
-                inputBufferRef.current = '';
-                return;
-            }
-
-            // Enter
-            if (data === '\r') {
-                term.write('\r\n');
-                const cmd = inputBufferRef.current.trim();
-                if (cmd && onCommand) {
-                    onCommand(cmd);
-                }
-                inputBufferRef.current = '';
-                setTimeout(() => term.write('\x1b[32m$ \x1b[0m'), 100);
-                return;
-            }
-
-            // Backspace
-            if (data === '\x7f' || data === '\b') {
-                if (inputBufferRef.current.length > 0) {
-                    inputBufferRef.current = inputBufferRef.current.slice(0, -1);
-                    term.write('\b \b');
-                }
-                return;
+            const { onInput, onKill } = handlersRef.current;
+            const tab = activeTabRef.current;
+            const process = processesRef.current.find(p => p.id === tab);
+            if (process?.status !== 'running') return;
+            if (data === '\x03' && process.kind !== 'shell' && onKill) {
+                term.write('^C\r\n');
+                onKill(tab);
+            } else {
+                onInput?.(tab, data);
             }
+        });
 
-            // Regular printable character
-            if (data >= ' ' && data <= '~') {
-                inputBufferRef.current += data;
-                term.write(data);
-            }
+        // The fit addon resizes the terminal; the process's pseudoterminal follows
+        term.onResize(({ cols, rows }) => {
+            const tab = activeTabRef.current;
+            if (tab !== LOG_TAB) handlersRef.current.onResize?.(tab, cols, rows);
         });
 
-        // ResizeObserver for proper fitting
+        // ResizeObserver for proper fitting (the body is unmounted while collapsed)
         const resizeObserver = new ResizeObserver(() => {
-            if (fitAddonRef.current && !isCollapsed) {
+            if (fitAddonRef.current) {
                 try {
                     fitAddonRef.current.fit();
                 } catch (e) {
@@ -163,20 +220,6 @@ export const WebContainerTerminal: React.FC<WebContainerTerminalProps> = ({
         };
     }, []);
 
-    // Helper to color lines
-    const colorLine = (line: string): string => {
-        if (line.includes('error') || line.includes('Error') || line.includes('ERR!')) {
-            return `\x1b[31m${line}\x1b[0m`;
-        } else if (line.includes('warning') || line.includes('Warning') || line.includes('WARN')) {
-            return `\x1b[33m${line}\x1b[0m`;
-        } else if (line.includes('success') || line.includes('ready') || line.includes('compiled') || line.includes('Ready')) {
-            return `\x1b[32m${line}\x1b[0m`;
-        } else if (line.startsWith('$') || line.startsWith('>')) {
-            return `\x1b[36m${line}\x1b[0m`;
-        }
-        return line;
-    };
-
     // Fit on collapse toggle
     useEffect(() => {
         if (!isCollapsed && fitAddonRef.current) {
@@ -190,58 +233,152 @@ export const WebContainerTerminal: React.FC<WebContainerTerminalProps> = ({
         }
     }, [isCollapsed]);
 
-    // Write new terminal output AND sync session history
+    const openShell = useCallback(async () => {
+        if (!onOpenShell) return;
+        const term = xtermRef.current;
+        const id = await onOpenShell({ cols: term?.cols ?? 80, rows: term?.rows ?? 12 });
+        if (id) setActiveTab(id);
+    }, [onOpenShell]);
+
+    // Start with a shell ready to type into
     useEffect(() => {
-        if (!xtermRef.current || !isInitializedRef.current) return;
-
-        // If lastOutputIndexRef is 0 and we have output, write all history
-        if (lastOutputIndexRef.current === 0 && terminalOutput.length > 0) {
-            xtermRef.current.writeln('\x1b[36m--- Session History ---\x1b[0m');
-            terminalOutput.forEach(line => {
-                xtermRef.current?.writeln(colorLine(line));
-            });
-            xtermRef.current.writeln('\x1b[36m--- End History ---\x1b[0m');
-            lastOutputIndexRef.current = terminalOutput.length;
-        } else {
-            // Write only new output
-            const newOutput = terminalOutput.slice(lastOutputIndexRef.current);
-            if (newOutput.length > 0) {
-                newOutput.forEach(line => {
-                    xtermRef.current?.writeln(colorLine(line));
-                });
-                lastOutputIndexRef.current = terminalOutput.length;
-            }
-        }
-    }, [terminalOutput]);
+        if (hasOpenedShellRef.current || !onOpenShell) return;
+        hasOpenedShellRef.current = true;
+        if (!processesRef.current.some(p => p.kind === 'shell' && p.status === 'running')) openShell();
+    }, [onOpenShell, openShell]);
+
+    // Fall back to the log when the active process tab is closed
+    useEffect(() => {
+        if (activeTab !== LOG_TAB && !processes.some(p => p.id === activeTab)) setActiveTab(LOG_TAB);
+    }, [activeTab, processes]);
+
+    // Redraw the terminal for a process tab
+    useEffect(() => {
+        const term = xtermRef.current;
+        if (!term || activeTab === LOG_TAB) return;
+        term.reset();
+
+        // Output is written raw; a shell prints its own prompt
+        const process = processesRef.current.find(p => p.id === activeTab);
+        if (process && process.kind !== 'shell') term.writeln(`\x1b[36m$ ${process.command}\x1b[0m`);
+        const detach = onAttach?.(activeTab, data => term.write(data));
+        handlersRef.current.onResize?.(activeTab, term.cols, term.rows);
+        term.focus();
+        return detach;
+    }, [activeTab, onAttach]);
 
+    // Redraw the log when it is opened or its filters change
+    useEffect(() => {
+        const term = xtermRef.current;
+        if (!term || activeTab !== LOG_TAB) return;
+        term.reset();
+        term.writeln('\x1b[36m[WebContainer Output]\x1b[0m Builder messages and process output');
+        const lines = outputLinesRef.current;
+        lines.forEach(line => {
+            if (line.text.trim() && matchesFilters(line)) term.writeln(formatLine(line));
+        });
+        lastSeqRef.current = lines.length > 0 ? lines[lines.length - 1].seq : 0;
+    }, [activeTab, matchesFilters, formatLine]);
+
+    // Write new output while the log is showing
+    useEffect(() => {
+        const term = xtermRef.current;
+        if (!term || activeTabRef.current !== LOG_TAB) return;
+        outputLines.forEach(line => {
+            if (line.seq > lastSeqRef.current && line.text.trim() && matchesFilters(line)) term.writeln(formatLine(line));
+        });
+        if (outputLines.length > 0) lastSeqRef.current = outputLines[outputLines.length - 1].seq;
+    }, [outputLines, matchesFilters, formatLine]);
+
+    // Note in the process's tab how it ended; only when the status changes, not on every process list update
+    const activeStatus = activeProcess?.status;
+    useEffect(() => {
+        const process = processesRef.current.find(p => p.id === activeTab);
+        if (!process || activeStatus === 'running') return;
+        xtermRef.current?.writeln(`\r\n\x1b[90m[Process ${statusText(process)}]\x1b[0m`);
+    }, [activeTab, activeStatus]);
+
+    // The log hides what it showed so far; the buffer keeps it for export
     const clearTerminal = useCallback(() => {
-        if (xtermRef.current) {
-            xtermRef.current.clear();
-            xtermRef.current.writeln('\x1b[36m[Terminal cleared]\x1b[0m');
-            xtermRef.current.write('\x1b[32m$ \x1b[0m');
+        if (activeTab === LOG_TAB) {
+            setClearedSeq(lastSeqRef.current);
+        } else {
+            xtermRef.current?.clear();
         }
-        lastOutputIndexRef.current = terminalOutput.length;
-        inputBufferRef.current = '';
-    }, [terminalOutput.length]);
+    }, [activeTab]);
+
+    const exportLog = useCallback(() => {
+        const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const log = formatOutputLog(filteredLines, channelName);
+        saveAs(new Blob([log], { type: 'text/plain;charset=utf-8' }), `sitecrafter-terminal-${stamp}.log`);
+    }, [filteredLines, channelName]);
 
     return (
         <div className={`flex flex-col bg-[#1a1a2e] border-t border-[#2e2e4a] transition-all duration-300 ${isCollapsed ? 'h-10' : 'h-56'}`}>
             {/* Terminal Header */}
-            <div className="flex items-center justify-between px-3 py-1.5 bg-[#16162a] border-b border-[#2e2e4a] shrink-0">
-                <div className="flex items-center gap-2">
-                    <TerminalIcon className="w-4 h-4 text-cyan-400" />
-                    <span className="text-xs font-medium text-slate-300">Terminal</span>
-                    {isRunning && (
-                        <span className="flex items-center gap-1 px-1.5 py-0.5 bg-emerald-500/20 rounded text-[10px] text-emerald-400">
+            <div className="flex items-center justify-between gap-2 px-3 py-1.5 bg-[#16162a] border-b border-[#2e2e4a] shrink-0">
+                <div className="flex items-center gap-2 min-w-0">
+                    <TerminalIcon className="w-4 h-4 text-cyan-400 shrink-0" />
+                    {/* Tabs */}
+                    <div className="flex items-center gap-1 min-w-0 overflow-x-auto">
+                        <button
+                            onClick={() => setActiveTab(LOG_TAB)}
+                            className={`px-2 py-0.5 rounded text-xs whitespace-nowrap transition-colors ${activeTab === LOG_TAB
+                                ? 'bg-white/10 text-slate-200'
+                                : 'text-slate-400 hover:bg-white/5'
+                                }`}
+                        >
+                            Output
+                        </button>
+                        {processes.map(process => (
+                            <div
+                                key={process.id}
+                                onClick={() => setActiveTab(process.id)}
+                                className={`group flex items-center gap-1.5 pl-2 pr-1 py-0.5 rounded text-xs whitespace-nowrap cursor-pointer transition-colors ${activeTab === process.id
+                                    ? 'bg-white/10 text-slate-200'
+                                    : 'text-slate-400 hover:bg-white/5'
+                                    }`}
+                                title={`${process.command} (${statusText(process)})`}
+                            >
+                                <span className={`w-1.5 h-1.5 rounded-full ${STATUS_DOTS[process.status]}`} />
+                                {process.name}
+                                {process.status !== 'running' && onRemove ? (
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            onRemove(process.id);
+                                        }}
+                                        className="p-0.5 rounded hover:bg-white/10 opacity-60 group-hover:opacity-100"
+                                        title="Close"
+                                    >
+                                        <X className="w-3 h-3" />
+                                    </button>
+                                ) : (
+                                    <span className="w-4" />
+                                )}
+                            </div>
+                        ))}
+                        {onOpenShell && (
+                            <button
+                                onClick={openShell}
+                                className="p-1 hover:bg-white/10 rounded text-slate-400 transition-colors"
+                                title="New shell"
+                            >
+                                <Plus className="w-3.5 h-3.5" />
+                            </button>
+                        )}
+                    </div>
+                    {runningCount > 0 && (
+                        <span className="flex items-center gap-1 px-1.5 py-0.5 bg-emerald-500/20 rounded text-[10px] text-emerald-400 whitespace-nowrap">
                             <span className="w-1.5 h-1.5 bg-emerald-400 rounded-full animate-pulse" />
-                            Running
+                            {runningCount} running
                         </span>
                     )}
                 </div>
-                <div className="flex items-center gap-1">
-                    {isRunning && onKill && (
+                <div className="flex items-center gap-1 shrink-0">
+                    {activeProcess?.status === 'running' && onKill && (
                         <button
-                            onClick={onKill}
+                            onClick={() => onKill(activeProcess.id)}
                             className="p-1 hover:bg-red-500/20 rounded text-red-400 transition-colors"
                             title="Stop process (Ctrl+C)"
                         >
@@ -265,13 +402,71 @@ export const WebContainerTerminal: React.FC<WebContainerTerminalProps> = ({
                 </div>
             </div>
 
+            {/* Log toolbar */}
+            {!isCollapsed && activeTab === LOG_TAB && (
+                <div className="flex items-center gap-2 px-3 py-1 bg-[#16162a] border-b border-[#2e2e4a] text-xs shrink-0">
+                    <div className="flex items-center gap-1.5 flex-1 min-w-0 px-1.5 py-0.5 bg-[#1a1a2e] border border-[#2e2e4a] rounded">
+                        <Search className="w-3 h-3 text-slate-500 shrink-0" />
+                        <input
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                            placeholder="Search output"
+                            className="flex-1 min-w-0 bg-transparent text-slate-200 placeholder-slate-500 focus:outline-none"
+                        />
+                    </div>
+                    <select
+                        value={levelFilter}
+                        onChange={(e) => setLevelFilter(e.target.value as LevelFilter)}
+                        className="bg-[#1a1a2e] border border-[#2e2e4a] rounded px-1.5 py-0.5 text-slate-400 focus:outline-none"
+                    >
+                        <option value="all">All levels</option>
+                        <option value="error">Errors</option>
+                        <option value="warn">Warnings</option>
+                        <option value="info">Info</option>
+                    </select>
+                    <select
+                        value={channelFilter}
+                        onChange={(e) => setChannelFilter(e.target.value)}
+                        className="bg-[#1a1a2e] border border-[#2e2e4a] rounded px-1.5 py-0.5 text-slate-400 focus:outline-none max-w-[9rem]"
+                    >
+                        <option value="all">All sources</option>
+                        <option value={BUILDER_CHANNEL}>builder</option>
+                        {processes.map(process => (
+                            <option key={process.id} value={process.id}>{process.name}</option>
+                        ))}
+                    </select>
+                    {onCapacityChange && (
+                        <select
+                            value={outputCapacity}
+                            onChange={(e) => onCapacityChange(Number(e.target.value))}
+                            className="bg-[#1a1a2e] border border-[#2e2e4a] rounded px-1.5 py-0.5 text-slate-400 focus:outline-none"
+                            title="Lines kept in the buffer"
+                        >
+                            {OUTPUT_CAPACITY_OPTIONS.map(option => (
+                                <option key={option} value={option}>{option.toLocaleString()} lines</option>
+                            ))}
+                        </select>
+                    )}
+                    <span className="text-slate-500 whitespace-nowrap">
+                        {filteredLines.length.toLocaleString()} / {outputLines.length.toLocaleString()}
+                    </span>
+                    <button
+                        onClick={exportLog}
+                        disabled={filteredLines.length === 0}
+                        className="p-1 hover:bg-white/10 rounded text-slate-400 transition-colors disabled:opacity-40"
+                        title="Export these lines as a log file"
+                    >
+                        <Download className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+            )}
+
             {/* Terminal Body - Fixed height for xterm */}
             {!isCollapsed && (
                 <div
                     ref={terminalRef}
-                    className="flex-1 overflow-hidden"
+                    className="flex-1 min-h-0 overflow-hidden"
                     style={{
-                        height: 'calc(100% - 36px)',
                         padding: '4px 8px',
                     }}
                 />
@@ -281,4 +476,3 @@ export const WebContainerTerminal: React.FC<WebContainerTerminalProps> = ({
 };
 
 export default WebContainerTerminal;
-
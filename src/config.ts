@@ -1,3 +1,12 @@
-export const BACKEND_URL = "https://monticulate-colleen-strainless.ngrok-free.dev"
+export const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || "https://monticulate-colleen-strainless.ngrok-free.dev"
 
-export const AUTH_BACKEND_URL = "https://sitecrafter-final-version-backend.vercel.app"
+export const AUTH_BACKEND_URL = import.meta.env.VITE_AUTH_BACKEND_URL || "https://sitecrafter-final-version-backend.vercel.app"
+
+// VITE_MOCK_BACKEND=true serves every API call from the in-process fake in src/mocks
+export const USE_MOCK_BACKEND = import.meta.env.VITE_MOCK_BACKEND === 'true'
+
+// Artificial latency of the mock backend in ms (VITE_MOCK_LATENCY)
+export const MOCK_LATENCY_MS = Number(import.meta.env.VITE_MOCK_LATENCY ?? 300)
+
+// Log each request the mock backend answers (VITE_MOCK_DEBUG)
+export const MOCK_DEBUG = import.meta.env.VITE_MOCK_DEBUG === 'true'
@@ -6,6 +6,11 @@ export enum StepType {
   RunScript
 }
 
+export interface SearchReplaceHunk {
+  search: string;
+  replace: string;
+}
+
 export interface Step {
   id: number;
   title: string;
@@ -14,6 +19,7 @@ export interface Step {
   status: 'pending' | 'in-progress' | 'completed';
   code?: string;
   path?: string;
+  edits?: SearchReplaceHunk[];
 }
 
 export interface Project {
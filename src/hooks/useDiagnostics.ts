@@ -0,0 +1,111 @@
+/**
+ * useDiagnostics - Current problems of the running project as Diagnostic records
+ * Merges tsc (re-run shortly after files change), Vite errors from the dev server log
+ * and the preview's error overlay, and runtime errors reported by the preview over its channel.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+    dedupeDiagnostics,
+    fromRuntimeError,
+    fromViteError,
+    parseTscOutput,
+    parseViteLog,
+    sortDiagnostics,
+} from '../utils/diagnostics';
+import type { PreviewChannel } from './usePreviewChannel';
+import type { Diagnostic } from '../types/diagnostics.types';
+import type { ProjectFile } from '../types/project.types';
+
+const TYPECHECK_DEBOUNCE_MS = 1500;
+
+interface UseDiagnosticsOptions {
+    enabled: boolean; // Only collect while the dev server is running
+    terminalOutput: string[];
+    files: ProjectFile[];
+    runTypeCheck: () => Promise<string | null>;
+    channel: PreviewChannel;
+}
+
+export function useDiagnostics({ enabled, terminalOutput, files, runTypeCheck, channel }: UseDiagnosticsOptions) {
+    const [tscDiagnostics, setTscDiagnostics] = useState<Diagnostic[]>([]);
+    const [overlayDiagnostics, setOverlayDiagnostics] = useState<Diagnostic[]>([]);
+    const [runtimeDiagnostics, setRuntimeDiagnostics] = useState<Diagnostic[]>([]);
+    const [isChecking, setIsChecking] = useState(false);
+    const checkRunRef = useRef(0);
+
+    const hasTypeScript = useMemo(
+        () => files.some(f => /\.tsx?$/.test(f.path) && !f.path.endsWith('.d.ts')),
+        [files]
+    );
+
+    const logDiagnostics = useMemo(
+        () => (enabled ? parseViteLog(terminalOutput) : []),
+        [enabled, terminalOutput]
+    );
+
+    // Run tsc now and resolve with its diagnostics, or null when it could not run.
+    // Only the latest run updates the state.
+    const runCheck = useCallback(async (): Promise<Diagnostic[] | null> => {
+        if (!hasTypeScript) {
+            setTscDiagnostics([]);
+            return [];
+        }
+
+        const run = ++checkRunRef.current;
+        setIsChecking(true);
+        try {
+            const output = await runTypeCheck();
+            const result = output === null ? null : parseTscOutput(output);
+            if (run === checkRunRef.current && result) setTscDiagnostics(result);
+            return result;
+        } catch (err) {
+            console.warn('Type check failed:', err);
+            return null;
+        } finally {
+            if (run === checkRunRef.current) setIsChecking(false);
+        }
+    }, [hasTypeScript, runTypeCheck]);
+
+    // Files changed: runtime errors are stale until the preview reports them again
+    useEffect(() => {
+        if (!enabled) return;
+        setRuntimeDiagnostics([]);
+        const timer = setTimeout(() => void runCheck(), TYPECHECK_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [enabled, files, runCheck]);
+
+    useEffect(() => {
+        if (enabled) return;
+        checkRunRef.current++;
+        setTscDiagnostics([]);
+        setOverlayDiagnostics([]);
+        setRuntimeDiagnostics([]);
+        setIsChecking(false);
+    }, [enabled]);
+
+    // Reports from the preview iframe (see errorReporter)
+    useEffect(() => channel.subscribe(message => {
+        if (message.type === 'vite-error') {
+            const diagnostic = fromViteError(message.payload.err);
+            setOverlayDiagnostics(prev => dedupeDiagnostics([...prev, diagnostic]));
+        } else if (message.type === 'vite-update') {
+            setOverlayDiagnostics([]);
+        } else if (message.type === 'runtime-error') {
+            const diagnostic = fromRuntimeError(message.payload);
+            setRuntimeDiagnostics(prev => dedupeDiagnostics([...prev, diagnostic]));
+        }
+    }), [channel]);
+
+    const diagnostics = useMemo(
+        () => sortDiagnostics(dedupeDiagnostics([
+            ...logDiagnostics,
+            ...overlayDiagnostics,
+            ...runtimeDiagnostics,
+            ...tscDiagnostics,
+        ])),
+        [logDiagnostics, overlayDiagnostics, runtimeDiagnostics, tscDiagnostics]
+    );
+
+    return { diagnostics, isChecking, runCheck };
+}
@@ -0,0 +1,63 @@
+/**
+ * useFixLog - Outcome of every auto-fix attempt, the project's fix budget and unfixable files
+ * A file is given up on after MAX_FILE_FAILURES failed attempts in a row; the user can
+ * retry it from the fix log.
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import type { FixLogEntry, FixOutcome } from '../types/diagnostics.types';
+
+export const FIX_BUDGET_PER_PROJECT = 25; // Fix requests per project before auto-fix stops
+export const MAX_FILE_FAILURES = 3;
+
+// Outcomes that count against a file; 'improved' and 'unverified' are neither
+const FAILED_OUTCOMES: FixOutcome[] = ['regressed', 'no-progress', 'rejected', 'declined', 'failed'];
+
+export function useFixLog() {
+    const [entries, setEntries] = useState<FixLogEntry[]>([]);
+    const [unfixable, setUnfixable] = useState<string[]>([]);
+    const failuresRef = useRef<Map<string, number>>(new Map());
+
+    const record = useCallback((entry: Omit<FixLogEntry, 'id' | 'at'>) => {
+        setEntries(prev => [{ ...entry, id: `fix-${Date.now()}-${crypto.randomUUID().slice(0, 8)}`, at: Date.now() }, ...prev]);
+
+        const files = [...new Set(entry.diagnostics.map(d => d.file).filter(Boolean))];
+        const givenUp: string[] = [];
+        for (const file of files) {
+            if (entry.outcome === 'fixed') {
+                failuresRef.current.delete(file);
+            } else if (FAILED_OUTCOMES.includes(entry.outcome)) {
+                const failures = (failuresRef.current.get(file) ?? 0) + 1;
+                failuresRef.current.set(file, failures);
+                if (failures >= MAX_FILE_FAILURES) givenUp.push(file);
+            }
+        }
+        if (givenUp.length > 0) {
+            setUnfixable(prev => [...new Set([...prev, ...givenUp])]);
+        }
+        return givenUp;
+    }, []);
+
+    // Let the auto-fixer try a file it gave up on again
+    const retryFile = useCallback((path: string) => {
+        failuresRef.current.delete(path);
+        setUnfixable(prev => prev.filter(p => p !== path));
+    }, []);
+
+    // New project: fresh budget and log
+    const reset = useCallback(() => {
+        failuresRef.current.clear();
+        setEntries([]);
+        setUnfixable([]);
+    }, []);
+
+    return {
+        entries,
+        unfixable,
+        budget: FIX_BUDGET_PER_PROJECT,
+        remaining: Math.max(FIX_BUDGET_PER_PROJECT - entries.length, 0),
+        record,
+        retryFile,
+        reset,
+    };
+}
@@ -0,0 +1,130 @@
+/**
+ * usePreviewChannel - The builder's end of the preview channel (see previewChannel)
+ * Owns the single window `message` listener: answers the preview's hello with this
+ * session's token, hands validated messages to subscribers and posts commands to every
+ * preview window that greeted it (side-by-side mode shows several). Each message comes
+ * with the frame that sent it; the earliest frame still open is the primary one, so
+ * subscribers that want one copy of what every frame reports can keep to it. A new
+ * preview URL starts a new session with a new token.
+ */
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+    PREVIEW_PROTOCOL,
+    PREVIEW_PROTOCOL_VERSION,
+    isPreviewHello,
+    originOf,
+    parsePreviewMessage,
+    type PreviewCommand,
+    type PreviewHandshake,
+    type PreviewMessage,
+} from '../utils/previewChannel';
+
+export interface PreviewFrame {
+    id: number; // In the order the frames greeted
+    primary: boolean;
+}
+
+type PreviewListener = (message: PreviewMessage, frame: PreviewFrame) => void;
+
+export interface PreviewChannel {
+    subscribe: (listener: PreviewListener) => () => void;
+    // False when no preview has completed the handshake yet
+    post: <C extends PreviewCommand>(type: C['type'], payload: C['payload']) => boolean;
+}
+
+export function usePreviewChannel(previewUrl: string | null): PreviewChannel {
+    const listenersRef = useRef<Set<PreviewListener>>(new Set());
+    const previewsRef = useRef<Map<Window, number>>(new Map()); // Window -> frame id, in handshake order
+    const nextFrameIdRef = useRef(1);
+    // Per preview session; kept across effect re-runs so an earlier handshake stays valid
+    const token = useMemo(() => (previewUrl ? crypto.randomUUID() : null), [previewUrl]);
+
+    useEffect(() => {
+        const origin = previewUrl ? originOf(previewUrl) : null;
+        if (!origin || !token) return;
+
+        const previews = previewsRef.current;
+        const frameOf = (source: Window): PreviewFrame => {
+            if (!previews.has(source)) previews.set(source, nextFrameIdRef.current++);
+            const id = previews.get(source)!;
+            // Frames that were removed drop out, which hands "primary" to the next one
+            for (const preview of [...previews.keys()]) {
+                if (preview.closed) previews.delete(preview);
+            }
+            return { id, primary: previews.keys().next().value === source };
+        };
+
+        const handleMessage = (event: MessageEvent) => {
+            if (event.origin !== origin) return;
+
+            if (isPreviewHello(event.data)) {
+                const handshake: PreviewHandshake = {
+                    protocol: PREVIEW_PROTOCOL,
+                    version: PREVIEW_PROTOCOL_VERSION,
+                    type: 'handshake',
+                    token,
+                };
+                const source = event.source as Window | null;
+                if (!source) return;
+                source.postMessage(handshake, origin);
+                frameOf(source);
+                return;
+            }
+
+            const message = parsePreviewMessage(event.data, token);
+            if (!message) {
+                console.warn('Dropped invalid message from the preview:', event.data);
+                return;
+            }
+            // A frame that greeted before the listener was re-added still holds a valid token
+            const source = event.source as Window | null;
+            if (!source) return;
+            const frame = frameOf(source);
+            listenersRef.current.forEach(listener => listener(message, frame));
+        };
+
+        window.addEventListener('message', handleMessage);
+        return () => {
+            window.removeEventListener('message', handleMessage);
+            previews.clear();
+        };
+    }, [previewUrl, token]);
+
+    const subscribe = useCallback((listener: PreviewListener) => {
+        listenersRef.current.add(listener);
+        return () => {
+            listenersRef.current.delete(listener);
+        };
+    }, []);
+
+    const post = useCallback(<C extends PreviewCommand>(type: C['type'], payload: C['payload']) => {
+        const origin = previewUrl ? originOf(previewUrl) : null;
+        if (!origin || !token) return false;
+        const command = {
+            protocol: PREVIEW_PROTOCOL,
+            version: PREVIEW_PROTOCOL_VERSION,
+            token,
+            type,
+            payload,
+            timestamp: Date.now(),
+        };
+        let delivered = false;
+        for (const preview of [...previewsRef.current.keys()]) {
+            // Frames that were removed or reloaded greet again if they come back
+            if (preview.closed) {
+                previewsRef.current.delete(preview);
+                continue;
+            }
+            try {
+                preview.postMessage(command, origin);
+                delivered = true;
+            } catch {
+                previewsRef.current.delete(preview);
+            }
+        }
+        return delivered;
+    }, [previewUrl, token]);
+
+    return useMemo(() => ({ subscribe, post }), [subscribe, post]);
+}
@@ -0,0 +1,28 @@
+/**
+ * usePreviewRoute - The path the preview is showing, and navigation commands for it
+ * The path comes from the route tracker in the preview; it is null until the preview
+ * has reported one.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import type { PreviewChannel } from './usePreviewChannel';
+import type { PreviewNavigation } from '../utils/previewChannel';
+
+export function usePreviewRoute(channel: PreviewChannel, previewUrl: string | null) {
+    const [path, setPath] = useState<string | null>(null);
+
+    // A new preview session starts wherever the dev server puts it
+    useEffect(() => {
+        setPath(null);
+    }, [previewUrl]);
+
+    // Navigation goes to every frame; the address bar follows the primary one
+    useEffect(() => channel.subscribe((message, frame) => {
+        if (message.type === 'route-changed' && frame.primary) setPath(message.payload.path);
+    }), [channel]);
+
+    // False when no preview is listening (e.g. it failed to load)
+    const navigate = useCallback((navigation: PreviewNavigation) => channel.post('navigate', navigation), [channel]);
+
+    return { path, navigate };
+}
@@ -0,0 +1,76 @@
+/**
+ * usePreviewScreenshots - Screenshots of the preview at fixed viewports, taken once a change has rendered
+ * `capture` loads the preview in one offscreen frame per capture viewport (see
+ * ScreenshotFrames), waits until the dev server has been quiet for a moment (no hot
+ * update) and asks the frames for a screenshot until each viewport has one or the
+ * timeout passes. Only the capture viewports are kept, so screenshots of any two
+ * versions pair up whatever size the visible preview had.
+ */
+
+import { useCallback, useState } from 'react';
+import { SIDE_BY_SIDE_PRESETS } from '../utils/viewports';
+import type { PreviewChannel } from './usePreviewChannel';
+import type { PreviewViewport } from '../types/api.types';
+
+export interface PreviewCapture {
+    width: number;
+    height: number;
+    image: string;
+}
+
+export const CAPTURE_VIEWPORTS: PreviewViewport[] = SIDE_BY_SIDE_PRESETS;
+
+const SETTLE_MS = 1500; // Quiet time after the last hot update before capturing
+const RETRY_MS = 1500; // Ask again while frames are still loading
+const CAPTURE_TIMEOUT_MS = 20000; // The offscreen frames load the whole app first
+
+const sizeKey = (width: number, height: number) => `${width}x${height}`;
+
+export function usePreviewScreenshots(channel: PreviewChannel) {
+    const [pending, setPending] = useState(0); // Captures in progress; the frames stay loaded meanwhile
+
+    const capture = useCallback(() => new Promise<PreviewCapture[]>(resolve => {
+        const requestId = crypto.randomUUID();
+        const wanted = new Set(CAPTURE_VIEWPORTS.map(v => sizeKey(v.width, v.height)));
+        const captures = new Map<string, PreviewCapture>(); // By viewport size
+        const answered = new Set<string>(); // Viewports that replied, with or without an image
+        let requested = false;
+        let settleTimer = setTimeout(request, SETTLE_MS);
+        let retryTimer: ReturnType<typeof setTimeout> | undefined;
+        const timeout = setTimeout(finish, CAPTURE_TIMEOUT_MS);
+        setPending(n => n + 1);
+
+        const unsubscribe = channel.subscribe(message => {
+            if (message.type === 'vite-update' && !requested) {
+                clearTimeout(settleTimer);
+                settleTimer = setTimeout(request, SETTLE_MS);
+            } else if (message.type === 'screenshot' && message.payload.requestId === requestId) {
+                const { width, height, image, error } = message.payload;
+                const key = sizeKey(width, height);
+                // The visible preview answers too; it counts only at a capture viewport
+                if (!wanted.has(key) || answered.has(key)) return;
+                answered.add(key);
+                if (image) captures.set(key, { width, height, image });
+                else console.warn(`Preview screenshot at ${width}×${height} failed:`, error);
+                if (answered.size === wanted.size) finish();
+            }
+        });
+
+        // Frames that answered already ignore a repeated request id
+        function request() {
+            requested = channel.post('capture', { requestId }) || requested;
+            retryTimer = setTimeout(request, RETRY_MS);
+        }
+
+        function finish() {
+            clearTimeout(settleTimer);
+            clearTimeout(retryTimer);
+            clearTimeout(timeout);
+            unsubscribe();
+            setPending(n => n - 1);
+            resolve([...captures.values()]);
+        }
+    }), [channel]);
+
+    return { capture, captureViewports: pending > 0 ? CAPTURE_VIEWPORTS : null };
+}
@@ -0,0 +1,50 @@
+/**
+ * usePreviewTelemetry - Console output, failed requests and Web Vitals of the preview
+ * Collected from the preview channel while the dev server runs; the oldest
+ * console and network entries are dropped once the caps are reached.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { rateVital } from '../utils/previewTelemetry';
+import type { PreviewChannel } from './usePreviewChannel';
+import type { ConsoleEntry, NetworkEntry, PreviewTelemetry } from '../types/telemetry.types';
+
+const MAX_CONSOLE_ENTRIES = 500;
+const MAX_NETWORK_ENTRIES = 200;
+
+const EMPTY_TELEMETRY: PreviewTelemetry = { console: [], network: [], vitals: {} };
+
+const entryId = (prefix: string) => `${prefix}-${Date.now()}-${crypto.randomUUID().slice(0, 8)}`;
+
+export function usePreviewTelemetry(enabled: boolean, channel: PreviewChannel) {
+    const [telemetry, setTelemetry] = useState<PreviewTelemetry>(EMPTY_TELEMETRY);
+
+    useEffect(() => {
+        if (!enabled) {
+            setTelemetry(EMPTY_TELEMETRY);
+            return;
+        }
+
+        // Side-by-side frames each run the app; one copy of its console and requests is enough
+        return channel.subscribe((message, frame) => {
+            if (!frame.primary) return;
+            if (message.type === 'console') {
+                const entries: ConsoleEntry[] = message.payload.entries.map(entry => ({ ...entry, id: entryId('log') }));
+                setTelemetry(prev => ({ ...prev, console: [...prev.console, ...entries].slice(-MAX_CONSOLE_ENTRIES) }));
+            } else if (message.type === 'network') {
+                const entry: NetworkEntry = { ...message.payload, id: entryId('req') };
+                setTelemetry(prev => ({ ...prev, network: [...prev.network, entry].slice(-MAX_NETWORK_ENTRIES) }));
+            } else if (message.type === 'vital') {
+                const { name, value } = message.payload;
+                setTelemetry(prev => ({
+                    ...prev,
+                    vitals: { ...prev.vitals, [name]: { name, value, rating: rateVital(name, value), at: message.timestamp } },
+                }));
+            }
+        });
+    }, [enabled, channel]);
+
+    const clear = useCallback(() => setTelemetry(prev => ({ ...prev, console: [], network: [] })), []);
+
+    return { telemetry, clear };
+}
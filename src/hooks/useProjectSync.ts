@@ -0,0 +1,62 @@
+/**
+ * useProjectSync - Sync status of one project in the offline-first project store
+ * Also keeps the background outbox flush running while a component uses it.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+    getLocalProject,
+    getPendingCount,
+    resolveConflict as resolveStoredConflict,
+    retryNow,
+    startBackgroundSync,
+    subscribe,
+} from '../utils/projectStore';
+import type { SyncConflict, SyncStatus } from '../types/project.types';
+
+export function useProjectSync(projectId: string | null) {
+    const [status, setStatus] = useState<SyncStatus>('synced');
+    const [pending, setPending] = useState(0);
+    const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+    const [lastError, setLastError] = useState<string>();
+
+    useEffect(() => startBackgroundSync(), []);
+
+    useEffect(() => {
+        if (!projectId) {
+            setStatus('synced');
+            setPending(0);
+            setConflicts([]);
+            setLastError(undefined);
+            return;
+        }
+
+        let cancelled = false;
+        const load = async () => {
+            const [project, count] = await Promise.all([getLocalProject(projectId), getPendingCount(projectId)]);
+            if (cancelled) return;
+            setStatus(project?.syncStatus ?? 'synced');
+            setPending(count);
+            setConflicts(project?.conflicts ?? []);
+            setLastError(project?.lastError);
+        };
+
+        load().catch(err => console.error('Failed to read sync status:', err));
+        const unsubscribe = subscribe(event => {
+            if (event.type === 'status' && event.projectId === projectId) {
+                load().catch(err => console.error('Failed to read sync status:', err));
+            }
+        });
+
+        return () => {
+            cancelled = true;
+            unsubscribe();
+        };
+    }, [projectId]);
+
+    const resolveConflict = useCallback((path: string, keep: 'local' | 'server') => {
+        return projectId ? resolveStoredConflict(projectId, path, keep) : Promise.resolve(null);
+    }, [projectId]);
+
+    return { status, pending, conflicts, lastError, resolveConflict, retryNow };
+}
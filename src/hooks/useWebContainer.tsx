@@ -1,24 +1,64 @@
-import React, { createContext, useContext, useState, useCallback, useRef, useEffect } from 'react';
+import React, { createContext, useContext, useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { WebContainer } from '@webcontainer/api';
 import type { FileSystemTree } from '@webcontainer/api';
 import { getErrorReporterScript } from '../utils/errorReporter';
+import { getElementPickerScript } from '../utils/elementPicker';
+import { getRouteTrackerScript } from '../utils/routeTracker';
+import { getScreenshotScript } from '../utils/screenshotCapture';
+import { BASE_PACKAGE_JSON } from '../utils/webContainerTemplate';
+import {
+    attachProcess,
+    clearProcesses,
+    killProcess as killRegisteredProcess,
+    listProcesses,
+    removeProcess,
+    resizeProcess,
+    spawnProcess,
+    subscribeProcesses,
+    writeProcessInput,
+    type SpawnedProcess,
+} from '../utils/processRegistry';
+import {
+    BUILDER_CHANNEL,
+    appendLine,
+    clearOutput,
+    getOutputCapacity,
+    readOutput,
+    setOutputCapacity as setBufferCapacity,
+    subscribeOutput,
+} from '../utils/outputBuffer';
+import type { OutputLine, ProcessInfo } from '../types/process.types';
 import { Zap, Loader2, X, Check } from 'lucide-react';
 
 interface WebContainerContextType {
     isBooting: boolean;
     isInstalling: boolean;
     isRunning: boolean;
+    hasMountedFiles: boolean; // Project files are in the container, whether or not the dev server runs
     previewUrl: string | null;
     error: string | null;
-    terminalOutput: string[];
+    terminalOutput: string[]; // Builder messages and command output as plain text, without blank lines or shells
+    outputLines: OutputLine[]; // Everything in the output buffer, oldest first
+    outputCapacity: number;
+    setOutputCapacity: (lines: number) => void;
+    processes: ProcessInfo[];
     isPreWarmed: boolean;
     isPreWarming: boolean;
     mountFiles: (files: FileSystemTree) => Promise<void>;
     startDevServer: () => Promise<void>;
-    updateFile: (path: string, content: string) => Promise<void>;
+    // Failures are logged to the terminal; with throwOnError they also reject
+    updateFile: (path: string, content: string, options?: { throwOnError?: boolean }) => Promise<void>;
+    removeFile: (path: string, options?: { throwOnError?: boolean }) => Promise<void>;
     reset: () => void;
     runCommand: (command: string) => Promise<void>;
-    killProcess: () => void;
+    startProcess: (command: string, name?: string) => Promise<string | null>;
+    startShell: (size?: { cols: number; rows: number }) => Promise<string | null>;
+    attachProcess: (id: string, listener: (data: string) => void) => () => void;
+    writeToProcess: (id: string, data: string) => void;
+    resizeProcess: (id: string, cols: number, rows: number) => void;
+    killProcess: (id: string) => void;
+    removeProcess: (id: string) => void;
+    runTypeCheck: () => Promise<string | null>;
 }
 
 const WebContainerContext = createContext<WebContainerContextType | null>(null);
@@ -29,41 +69,6 @@ let bootPromise: Promise<WebContainer> | null = null;
 let preWarmPromise: Promise<void> | null = null;
 let isPreWarmedFlag = false;
 
-// Base package.json with 16 common dependencies
-const BASE_PACKAGE_JSON = {
-    name: 'preview-project',
-    private: true,
-    version: '0.0.0',
-    type: 'module',
-    scripts: {
-        dev: 'vite --host',
-        build: 'vite build',
-    },
-    dependencies: {
-        'react': '^18.3.1',
-        'react-dom': '^18.3.1',
-        'react-router-dom': '^7.1.1',
-        'framer-motion': '^11.14.4',
-        'lucide-react': '^0.460.0',
-        'clsx': '^2.1.1',
-        'tailwind-merge': '^2.5.5',
-        'class-variance-authority': '^0.7.1',
-        'axios': '^1.7.9',
-        'zustand': '^5.0.2',
-        'date-fns': '^4.1.0',
-    },
-    devDependencies: {
-        '@vitejs/plugin-react': '^4.3.4',
-        'vite': '^6.0.3',
-        'typescript': '^5.7.2',
-        '@types/react': '^18.3.12',
-        '@types/react-dom': '^18.3.1',
-        'tailwindcss': '^3.4.17',
-        'postcss': '^8.4.49',
-        'autoprefixer': '^10.4.20',
-    },
-};
-
 const BASE_FILES: FileSystemTree = {
     'package.json': { file: { contents: JSON.stringify(BASE_PACKAGE_JSON, null, 2) } },
     'vite.config.ts': {
@@ -93,24 +98,79 @@ export default defineConfig({ plugins: [react()] })`,
     },
 };
 
+// Compiler flags for projects without a tsconfig.json, roughly what the Vite React template uses
+const FALLBACK_TSC_FLAGS = [
+    '--jsx', 'react-jsx',
+    '--target', 'es2020',
+    '--module', 'esnext',
+    '--moduleResolution', 'bundler',
+    '--esModuleInterop',
+    '--skipLibCheck',
+];
+
+// TypeScript sources below `dir`, relative to the project root
+async function listTypeScriptFiles(instance: WebContainer, dir: string): Promise<string[]> {
+    const entries = await instance.fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+    const found: string[] = [];
+    for (const entry of entries) {
+        const path = `${dir}/${entry.name}`;
+        if (entry.isDirectory()) {
+            if (entry.name !== 'node_modules') found.push(...await listTypeScriptFiles(instance, path));
+        } else if (/\.tsx?$/.test(entry.name)) {
+            found.push(path);
+        }
+    }
+    return found;
+}
+
 export const WebContainerProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     const [isBooting, setIsBooting] = useState(false);
     const [isInstalling, setIsInstalling] = useState(false);
     const [isRunning, setIsRunning] = useState(false);
+    const [hasMountedFiles, setHasMountedFiles] = useState(false);
     const [previewUrl, setPreviewUrl] = useState<string | null>(null);
     const [error, setError] = useState<string | null>(null);
-    const [terminalOutput, setTerminalOutput] = useState<string[]>([]);
+    const [outputLines, setOutputLines] = useState<OutputLine[]>(readOutput);
+    const [outputCapacity, setOutputCapacityState] = useState(getOutputCapacity);
     const [isPreWarmed, setIsPreWarmed] = useState(isPreWarmedFlag);
     const [isPreWarming, setIsPreWarming] = useState(false);
     const [showToast, setShowToast] = useState(false);
 
-    const processRef = useRef<any>(null);
+    const [processes, setProcesses] = useState<ProcessInfo[]>(listProcesses);
+    const devServerIdRef = useRef<string | null>(null);
+    const shellCountRef = useRef(0);
+    const shellIdsRef = useRef<Set<string>>(new Set());
 
-    const appendOutput = useCallback((line: string) => {
-        if (line.includes('[0K') || line.includes('[1G') || line.trim().length < 2) return;
-        setTerminalOutput(prev => [...prev.slice(-100), line]);
+    useEffect(() => subscribeProcesses(() => setProcesses(listProcesses())), []);
+
+    // Processes can print thousands of lines a second; re-read the buffer at most every 100ms
+    useEffect(() => {
+        let timer: ReturnType<typeof setTimeout> | null = null;
+        const unsubscribe = subscribeOutput(() => {
+            if (timer) return;
+            timer = setTimeout(() => {
+                timer = null;
+                setOutputLines(readOutput());
+                setOutputCapacityState(getOutputCapacity());
+            }, 100);
+        });
+        return () => {
+            unsubscribe();
+            if (timer) clearTimeout(timer);
+        };
     }, []);
 
+    // What diagnostics and the install view read; shells are the user's own business
+    const terminalOutput = useMemo(
+        () => outputLines
+            .filter(line => line.text.trim() && !shellIdsRef.current.has(line.channel))
+            .map(line => line.text),
+        [outputLines]
+    );
+
+    const appendOutput = useCallback((line: string) => appendLine(BUILDER_CHANNEL, line), []);
+    const setOutputCapacity = useCallback((lines: number) => setBufferCapacity(lines), []);
+
     // Boot WebContainer (singleton)
     const boot = useCallback(async (): Promise<WebContainer> => {
         if (webcontainerInstance) return webcontainerInstance;
@@ -197,15 +257,9 @@ export const WebContainerProvider: React.FC<{ children: React.ReactNode }> = ({
 
                 await instance.mount(BASE_FILES);
 
-                const installProcess = await instance.spawn('npm', [
+                const installProcess = await spawnProcess(instance, 'npm', [
                     'install', '--prefer-offline', '--no-audit', '--no-fund', '--legacy-peer-deps',
-                ]);
-
-                installProcess.output.pipeTo(new WritableStream({
-                    write(data) {
-                        data.split('\n').filter(Boolean).forEach(line => appendOutput(line));
-                    }
-                }));
+                ], { name: 'npm install (base)' });
 
                 const exitCode = await installProcess.exit;
                 if (exitCode !== 0) throw new Error('npm install failed');
@@ -245,9 +299,10 @@ export const WebContainerProvider: React.FC<{ children: React.ReactNode }> = ({
                 const indexHtmlEntry = files['index.html'];
                 if ('file' in indexHtmlEntry && indexHtmlEntry.file && 'contents' in indexHtmlEntry.file) {
                     const originalHtml = indexHtmlEntry.file.contents;
-                    const errorReporter = getErrorReporterScript();
+                    // The other scripts use the channel the error reporter sets up, so they go after it
+                    const injected = [getErrorReporterScript(), getElementPickerScript(), getRouteTrackerScript(), getScreenshotScript()].join('\n  ');
                     const modifiedHtml = typeof originalHtml === 'string'
-                        ? originalHtml.replace('</head>', `  ${errorReporter}\n  </head>`)
+                        ? originalHtml.replace('</head>', `  ${injected}\n  </head>`)
                         : originalHtml;
                     files['index.html'] = { file: { contents: modifiedHtml } };
                     appendOutput('Error reporter injected');
@@ -289,20 +344,15 @@ export const WebContainerProvider: React.FC<{ children: React.ReactNode }> = ({
             }
 
             await instance.mount(files);
+            setHasMountedFiles(true);
             appendOutput('Files mounted');
 
             // Install additional packages if any were detected
             if (newPackages.length > 0) {
                 appendOutput(`Installing ${newPackages.length} additional packages: ${newPackages.map(p => p.split('@')[0]).join(', ')}`);
-                const addProcess = await instance.spawn('npm', [
+                const addProcess = await spawnProcess(instance, 'npm', [
                     'install', ...newPackages, '--prefer-offline', '--no-audit', '--no-fund', '--legacy-peer-deps'
-                ]);
-
-                addProcess.output.pipeTo(new WritableStream({
-                    write(data) {
-                        data.split('\n').filter(Boolean).forEach(line => appendOutput(line));
-                    }
-                }));
+                ], { name: 'npm install' });
 
                 const exitCode = await addProcess.exit;
                 if (exitCode === 0) {
@@ -321,34 +371,32 @@ export const WebContainerProvider: React.FC<{ children: React.ReactNode }> = ({
     const startDevServer = useCallback(async () => {
         try {
             const instance = await boot();
-            if (processRef.current) processRef.current.kill();
+            if (devServerIdRef.current) killRegisteredProcess(devServerIdRef.current);
+            devServerIdRef.current = null;
 
             setPreviewUrl(null);
             setIsInstalling(true);
             appendOutput('⚡ Installing project dependencies...');
 
-            const installProcess = await instance.spawn('npm', [
+            const installProcess = await spawnProcess(instance, 'npm', [
                 'install', '--prefer-offline', '--no-audit', '--no-fund', '--legacy-peer-deps',
-            ]);
-
-            installProcess.output.pipeTo(new WritableStream({
-                write(data) {
-                    data.split('\n').filter(Boolean).forEach(line => appendOutput(line));
-                }
-            }));
+            ], { name: 'npm install' });
 
             await installProcess.exit;
             appendOutput('✅ Dependencies ready');
             appendOutput('🚀 Starting dev server...');
 
-            const devProcess = await instance.spawn('npm', ['run', 'dev']);
-            processRef.current = devProcess;
+            const devProcess = await spawnProcess(instance, 'npm', ['run', 'dev'], {
+                name: 'dev server',
+            });
+            devServerIdRef.current = devProcess.id;
 
-            devProcess.output.pipeTo(new WritableStream({
-                write(data) {
-                    data.split('\n').filter(Boolean).forEach(line => appendOutput(line));
-                }
-            }));
+            // The preview is gone once the dev server stops, unless it was replaced by a new one
+            devProcess.exit.then(() => {
+                if (devServerIdRef.current !== devProcess.id) return;
+                devServerIdRef.current = null;
+                setIsRunning(false);
+            });
 
         } catch (err) {
             const message = err instanceof Error ? err.message : 'Failed to start';
@@ -357,7 +405,7 @@ export const WebContainerProvider: React.FC<{ children: React.ReactNode }> = ({
         }
     }, [boot, appendOutput]);
 
-    const updateFile = useCallback(async (path: string, content: string) => {
+    const updateFile = useCallback(async (path: string, content: string, options: { throwOnError?: boolean } = {}) => {
         try {
             const instance = await boot();
             await instance.fs.writeFile(path, content);
@@ -391,15 +439,9 @@ export const WebContainerProvider: React.FC<{ children: React.ReactNode }> = ({
                         appendOutput(`Detected ${newPackages.length} new packages: ${newPackages.map(p => p.split('@')[0]).join(', ')}`);
                         appendOutput(`Installing new packages...`);
 
-                        const addProcess = await instance.spawn('npm', [
+                        const addProcess = await spawnProcess(instance, 'npm', [
                             'install', ...newPackages, '--prefer-offline', '--no-audit', '--no-fund', '--legacy-peer-deps'
-                        ]);
-
-                        addProcess.output.pipeTo(new WritableStream({
-                            write(data) {
-                                data.split('\n').filter(Boolean).forEach(line => appendOutput(line));
-                            }
-                        }));
+                        ], { name: 'npm install' });
 
                         const exitCode = await addProcess.exit;
                         if (exitCode === 0) {
@@ -414,33 +456,40 @@ export const WebContainerProvider: React.FC<{ children: React.ReactNode }> = ({
             }
         } catch (err) {
             appendOutput(`Failed to update ${path}: ${err}`);
+            if (options.throwOnError) throw err;
         }
     }, [boot, appendOutput]);
 
-    const reset = useCallback(() => {
-        if (processRef.current) {
-            processRef.current.kill();
-            processRef.current = null;
+    const removeFile = useCallback(async (path: string, options: { throwOnError?: boolean } = {}) => {
+        try {
+            const instance = await boot();
+            await instance.fs.rm(path, { force: true });
+            appendOutput(`Removed: ${path}`);
+        } catch (err) {
+            appendOutput(`Failed to remove ${path}: ${err}`);
+            if (options.throwOnError) throw err;
         }
+    }, [boot, appendOutput]);
+
+    const reset = useCallback(() => {
+        clearProcesses();
+        devServerIdRef.current = null;
         setPreviewUrl(null);
         setIsRunning(false);
+        setHasMountedFiles(false);
         setIsInstalling(false);
         setError(null);
-        setTerminalOutput([]);
+        clearOutput();
     }, []);
 
-    // Kill the current running process (Ctrl+C equivalent)
-    const killProcess = useCallback(() => {
-        if (processRef.current) {
-            processRef.current.kill();
-            processRef.current = null;
-            appendOutput('Process terminated');
-            setIsRunning(false);
-        }
-    }, [appendOutput]);
+    // Stop one process (Ctrl+C equivalent); stopping the dev server ends the preview
+    const killProcess = useCallback((id: string) => {
+        const name = processes.find(p => p.id === id)?.name ?? id;
+        if (killRegisteredProcess(id)) appendOutput(`Process terminated: ${name}`);
+    }, [processes, appendOutput]);
 
-    // Run an arbitrary command in WebContainer
-    const runCommand = useCallback(async (command: string) => {
+    // Start a command next to whatever else is running; null when it could not be spawned
+    const launch = useCallback(async (command: string, name?: string): Promise<SpawnedProcess | null> => {
         try {
             const instance = await boot();
             appendOutput(`$ ${command}`);
@@ -450,34 +499,89 @@ export const WebContainerProvider: React.FC<{ children: React.ReactNode }> = ({
             const program = parts[0];
             const args = parts.slice(1);
 
-            const process = await instance.spawn(program, args);
-            processRef.current = process;
-            setIsRunning(true);
+            const spawned = await spawnProcess(instance, program, args, { name });
+            spawned.exit.then(exitCode => appendOutput(`Process exited with code ${exitCode}: ${name ?? command}`));
+            return spawned;
+        } catch (err) {
+            appendOutput(`Command failed: ${err}`);
+            return null;
+        }
+    }, [boot, appendOutput]);
 
-            process.output.pipeTo(new WritableStream({
-                write(data) {
-                    data.split('\n').filter(Boolean).forEach(line => appendOutput(line));
-                }
-            }));
+    // Resolves with the new process id, without waiting for it to finish
+    const startProcess = useCallback(async (command: string, name?: string) => {
+        return (await launch(command, name))?.id ?? null;
+    }, [launch]);
+
+    // Run an arbitrary command in WebContainer and wait for it to finish
+    const runCommand = useCallback(async (command: string) => {
+        await (await launch(command))?.exit;
+    }, [launch]);
 
-            const exitCode = await process.exit;
-            appendOutput(`Process exited with code ${exitCode}`);
-            setIsRunning(false);
-            processRef.current = null;
+    // An interactive jsh session. Its output stays in its own tab, out of the builder log
+    // that diagnostics read.
+    const startShell = useCallback(async (size?: { cols: number; rows: number }): Promise<string | null> => {
+        try {
+            const instance = await boot();
+            const shell = await spawnProcess(instance, 'jsh', [], {
+                name: `shell ${++shellCountRef.current}`,
+                kind: 'shell',
+                terminal: size,
+            });
+            shellIdsRef.current.add(shell.id);
+            return shell.id;
         } catch (err) {
-            appendOutput(`Command failed: ${err}`);
-            setIsRunning(false);
+            appendOutput(`Could not start a shell: ${err}`);
+            return null;
+        }
+    }, [boot, appendOutput]);
+
+    const writeToProcess = useCallback((id: string, data: string) => {
+        writeProcessInput(id, data).catch(err => console.warn('Could not write to process:', err));
+    }, []);
+
+    // Type-check the mounted project with tsc. Resolves with its raw output, or null when tsc is unavailable.
+    const runTypeCheck = useCallback(async (): Promise<string | null> => {
+        const instance = await boot();
+        const exists = (path: string) => instance.fs.readFile(path, 'utf-8').then(() => true, () => false);
+
+        const args = ['--no-install', 'tsc', '--noEmit', '--pretty', 'false'];
+        if (await exists('tsconfig.app.json')) {
+            // Vite templates keep the real config here; tsconfig.json only holds references
+            args.push('-p', 'tsconfig.app.json');
+        } else if (!await exists('tsconfig.json')) {
+            const sources = await listTypeScriptFiles(instance, 'src');
+            if (sources.length === 0) return '';
+            args.push(...FALLBACK_TSC_FLAGS, ...sources);
+        }
+
+        const checkProcess = await instance.spawn('npx', args);
+        let output = '';
+        const drained = checkProcess.output.pipeTo(new WritableStream({
+            write(data) {
+                output += data;
+            }
+        }));
+        const [exitCode] = await Promise.all([checkProcess.exit, drained]);
+
+        // A failing run without any TS diagnostics means tsc itself could not run
+        if (exitCode !== 0 && !/error TS\d+/.test(output)) {
+            appendOutput(`⚠️ Type check unavailable: ${output.trim().split('\n').pop() || `exit code ${exitCode}`}`);
+            return null;
         }
+        return output;
     }, [boot, appendOutput]);
 
     useEffect(() => {
-        return () => { if (processRef.current) processRef.current.kill(); };
+        return () => clearProcesses();
     }, []);
 
     const value: WebContainerContextType = {
-        isBooting, isInstalling, isRunning, previewUrl, error, terminalOutput,
-        isPreWarmed, isPreWarming, mountFiles, startDevServer, updateFile, reset,
-        runCommand, killProcess,
+        isBooting, isInstalling, isRunning, hasMountedFiles, previewUrl, error, terminalOutput, outputLines, outputCapacity,
+        setOutputCapacity, processes,
+        isPreWarmed, isPreWarming, mountFiles, startDevServer, updateFile, removeFile, reset,
+        runCommand, startProcess, startShell, attachProcess, writeToProcess, resizeProcess, killProcess, removeProcess,
+        runTypeCheck,
     };
 
     return (
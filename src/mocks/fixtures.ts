@@ -0,0 +1,288 @@
+/**
+ * Mock Fixtures - Canned but realistic payloads served by the mock backend
+ * The generated project is a small, runnable Vite + React app so the WebContainer
+ * preview, auto-fixer and chat flows all have something real to work on.
+ */
+
+import type { ProjectBlueprint } from '../types/planning.types';
+import type { ProjectType } from '../types/api.types';
+import type { ProjectFile } from '../types/project.types';
+
+const titleCase = (text: string) =>
+    text.replace(/\b\w/g, ch => ch.toUpperCase());
+
+// A short project name from the first few meaningful words of the request
+export function projectNameFrom(requirements: string): string {
+    const words = requirements
+        .replace(/[^a-zA-Z0-9\s]/g, ' ')
+        .split(/\s+/)
+        .filter(word => word.length > 2 && !/^(the|and|for|with|that|create|build|make|website|site|app)$/i.test(word))
+        .slice(0, 3);
+    return words.length > 0 ? titleCase(words.join(' ')) : 'Mock Project';
+}
+
+export function createBlueprint(requirements: string, projectType: ProjectType | string): ProjectBlueprint {
+    const projectName = projectNameFrom(requirements);
+    const type: ProjectBlueprint['projectType'] =
+        projectType === 'backend' || projectType === 'fullstack' ? projectType : 'frontend';
+
+    return {
+        projectName,
+        description: `${projectName} - ${requirements.trim().slice(0, 160)}`,
+        projectType: type,
+        techStack: {
+            frontend: type === 'backend' ? [] : ['React', 'Vite', 'CSS Modules'],
+            backend: type === 'frontend' ? [] : ['Node.js', 'Express'],
+            database: type === 'frontend' ? [] : ['MongoDB'],
+            external: [],
+        },
+        features: [
+            'Responsive landing page with hero section',
+            'Feature highlights grid',
+            'Contact form with client-side validation',
+            'Shared header and footer navigation',
+        ],
+        workflow: {
+            nodes: [
+                { id: 'client', type: 'client', label: 'Browser', category: 'Frontend' },
+                { id: 'home', type: 'page', label: 'Home Page', category: 'Frontend' },
+                { id: 'contact', type: 'page', label: 'Contact Page', category: 'Frontend' },
+                { id: 'header', type: 'component', label: 'Header', category: 'Frontend' },
+                { id: 'features', type: 'component', label: 'Features', category: 'Frontend' },
+            ],
+            edges: [
+                { id: 'e-client-home', source: 'client', target: 'home', type: 'http' },
+                { id: 'e-client-contact', source: 'client', target: 'contact', type: 'http' },
+                { id: 'e-home-header', source: 'home', target: 'header' },
+                { id: 'e-home-features', source: 'home', target: 'features' },
+            ],
+        },
+        detailedContext: [
+            `Build "${projectName}" as a React + Vite single page app.`,
+            `Original request: ${requirements.trim()}`,
+            'Pages: Home (hero + features) and Contact (form). Components: Header, Features, Footer.',
+        ].join('\n'),
+        ...(type === 'fullstack' && {
+            backendContext: `Express API for ${projectName} with a /api/contact endpoint.`,
+            frontendContext: `React frontend for ${projectName} posting the contact form to /api/contact.`,
+        }),
+    };
+}
+
+export type GeneratedFile = ProjectFile & { phase: 'core' | 'components' | 'page' };
+
+export function createProjectFiles(projectName: string): GeneratedFile[] {
+    return [
+        {
+            phase: 'core',
+            path: '/package.json',
+            content: JSON.stringify({
+                name: projectName.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'mock-project',
+                private: true,
+                version: '0.0.0',
+                type: 'module',
+                scripts: { dev: 'vite', build: 'vite build', preview: 'vite preview' },
+                dependencies: { react: '^18.3.1', 'react-dom': '^18.3.1' },
+                devDependencies: { '@vitejs/plugin-react': '^4.3.1', vite: '^5.4.2' },
+            }, null, 2),
+        },
+        {
+            phase: 'core',
+            path: '/vite.config.js',
+            content: `import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+export default defineConfig({
+  plugins: [react()],
+});
+`,
+        },
+        {
+            phase: 'core',
+            path: '/index.html',
+            content: `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${projectName}</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.jsx"></script>
+  </body>
+</html>
+`,
+        },
+        {
+            phase: 'core',
+            path: '/src/main.jsx',
+            content: `import React from 'react';
+import ReactDOM from 'react-dom/client';
+import App from './App';
+import './index.css';
+
+ReactDOM.createRoot(document.getElementById('root')).render(
+  <React.StrictMode>
+    <App />
+  </React.StrictMode>
+);
+`,
+        },
+        {
+            phase: 'core',
+            path: '/src/index.css',
+            content: `body {
+  margin: 0;
+  font-family: system-ui, sans-serif;
+  background: #0f172a;
+  color: #e2e8f0;
+}
+
+a {
+  color: #fbbf24;
+}
+`,
+        },
+        {
+            phase: 'core',
+            path: '/src/App.jsx',
+            content: `import { useState } from 'react';
+import Header from './components/Header';
+import Footer from './components/Footer';
+import Home from './pages/Home';
+import Contact from './pages/Contact';
+
+export default function App() {
+  const [page, setPage] = useState('home');
+
+  return (
+    <>
+      <Header onNavigate={setPage} />
+      <main style={{ maxWidth: 960, margin: '0 auto', padding: '2rem 1rem' }}>
+        {page === 'home' ? <Home /> : <Contact />}
+      </main>
+      <Footer />
+    </>
+  );
+}
+`,
+        },
+        {
+            phase: 'components',
+            path: '/src/components/Header.jsx',
+            content: `export default function Header({ onNavigate }) {
+  return (
+    <header style={{ display: 'flex', gap: '1rem', padding: '1rem', borderBottom: '1px solid #1e293b' }}>
+      <strong>${projectName}</strong>
+      <a href="#" onClick={() => onNavigate('home')}>Home</a>
+      <a href="#" onClick={() => onNavigate('contact')}>Contact</a>
+    </header>
+  );
+}
+`,
+        },
+        {
+            phase: 'components',
+            path: '/src/components/Features.jsx',
+            content: `const FEATURES = [
+  { title: 'Fast', text: 'Built on Vite for instant reloads.' },
+  { title: 'Responsive', text: 'Looks good on every screen size.' },
+  { title: 'Simple', text: 'Plain React components, easy to extend.' },
+];
+
+export default function Features() {
+  return (
+    <section style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: '1rem' }}>
+      {FEATURES.map(feature => (
+        <article key={feature.title} style={{ padding: '1rem', background: '#1e293b', borderRadius: 8 }}>
+          <h3>{feature.title}</h3>
+          <p>{feature.text}</p>
+        </article>
+      ))}
+    </section>
+  );
+}
+`,
+        },
+        {
+            phase: 'components',
+            path: '/src/components/Footer.jsx',
+            content: `export default function Footer() {
+  return (
+    <footer style={{ padding: '1rem', textAlign: 'center', color: '#64748b' }}>
+      &copy; {new Date().getFullYear()} ${projectName}
+    </footer>
+  );
+}
+`,
+        },
+        {
+            phase: 'page',
+            path: '/src/pages/Home.jsx',
+            content: `import Features from '../components/Features';
+
+export default function Home() {
+  return (
+    <>
+      <h1>Welcome to ${projectName}</h1>
+      <p>This project was generated by the SiteCrafter mock backend.</p>
+      <Features />
+    </>
+  );
+}
+`,
+        },
+        {
+            phase: 'page',
+            path: '/src/pages/Contact.jsx',
+            content: `import { useState } from 'react';
+
+export default function Contact() {
+  const [sent, setSent] = useState(false);
+  const [email, setEmail] = useState('');
+
+  const handleSubmit = (event) => {
+    event.preventDefault();
+    if (email.includes('@')) setSent(true);
+  };
+
+  if (sent) return <p>Thanks! We will be in touch.</p>;
+
+  return (
+    <form onSubmit={handleSubmit} style={{ display: 'grid', gap: '0.5rem', maxWidth: 360 }}>
+      <h1>Contact</h1>
+      <input type="email" value={email} onChange={e => setEmail(e.target.value)} placeholder="you@example.com" />
+      <button type="submit">Send</button>
+    </form>
+  );
+}
+`,
+        },
+    ];
+}
+
+// Same files as a chirArtifact document, as returned by /chat and /chat/langgraph
+export function toArtifact(title: string, files: ProjectFile[]): string {
+    const actions = files.map(file =>
+        `<chirAction type="file" filePath="${file.path.replace(/^\//, '')}">\n${file.content}\n</chirAction>`
+    );
+    return [
+        `<chirArtifact id="mock-project" title="${title}">`,
+        ...actions,
+        '<chirAction type="shell">\nnpm install && npm run dev\n</chirAction>',
+        '</chirArtifact>',
+    ].join('\n');
+}
+
+// A placeholder component for imports the auto-fixer reports as missing
+export function createStubComponent(name: string): string {
+    return `export default function ${name}() {
+  return (
+    <div style={{ padding: '1rem', border: '1px dashed #475569', borderRadius: 8 }}>
+      ${name}
+    </div>
+  );
+}
+`;
+}
@@ -0,0 +1,507 @@
+/**
+ * Mock Backend - In-process stand-in for the SiteCrafter API (VITE_MOCK_BACKEND=true)
+ * Plugs into the API client as an axios adapter plus a fetch replacement for the
+ * langgraph SSE stream, so every page runs unchanged without the ngrok and Vercel
+ * backends. State lives in memory and is lost on reload.
+ */
+
+import { AxiosError, CanceledError, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import JSZip from 'jszip';
+import { MOCK_DEBUG, MOCK_LATENCY_MS } from '../config';
+import { createBlueprint, createProjectFiles, createStubComponent, projectNameFrom, toArtifact } from './fixtures';
+import type {
+    AuthResponse,
+    ChatMessage,
+    CreateProjectRequest,
+    FixErrorRequest,
+    FixErrorResponse,
+    FixErrorsRequest,
+    FixErrorsResponse,
+    GenerationResume,
+    ProjectSummary,
+    UpdateProjectRequest,
+} from '../types/api.types';
+import type { GenerationCheckpoint, ProjectFile } from '../types/project.types';
+
+export interface MockBackendOptions {
+    latencyMs: number;
+    debug: boolean; // Log every request to the console
+    // Override /api/fix-error answers, e.g. to make tests deterministic
+    fixError?: (request: FixErrorRequest) => FixErrorResponse;
+    fixErrors?: (request: FixErrorsRequest) => FixErrorsResponse;
+}
+
+interface MockRequest {
+    method: string;
+    path: string;
+    query: URLSearchParams;
+    body: unknown;
+    signal?: AbortSignal;
+    lastEventId?: string;
+}
+
+interface MockResponse {
+    status: number;
+    body: unknown;
+}
+
+interface StoredProject extends Omit<ProjectSummary, 'fileCount'> {
+    description?: string;
+    blueprint?: unknown;
+    userId?: string | null;
+    sessionId?: string;
+    generation?: GenerationCheckpoint | null;
+    files: ProjectFile[];
+}
+
+interface GenerationStreamOptions {
+    signal?: AbortSignal;
+    lastEventId?: string;
+    generationId?: string;
+    resume?: GenerationResume;
+}
+
+type Route = {
+    method: string;
+    pattern: RegExp;
+    handle: (request: MockRequest, params: string[]) => MockResponse | Response | Promise<MockResponse | Response>;
+};
+
+const options: MockBackendOptions = { latencyMs: MOCK_LATENCY_MS, debug: MOCK_DEBUG };
+const projects = new Map<string, StoredProject>();
+const activeGenerations = new Map<string, AbortController>();
+let nextProjectId = 1;
+
+export function configureMockBackend(overrides: Partial<MockBackendOptions>) {
+    Object.assign(options, overrides);
+}
+
+// Drop all stored projects and overrides (between tests)
+export function resetMockBackend() {
+    projects.clear();
+    activeGenerations.forEach(run => run.abort());
+    activeGenerations.clear();
+    nextProjectId = 1;
+    options.latencyMs = MOCK_LATENCY_MS;
+    options.debug = MOCK_DEBUG;
+    options.fixError = undefined;
+    options.fixErrors = undefined;
+}
+
+const ok = (body: unknown, status = 200): MockResponse => ({ status, body });
+const fail = (status: number, error: string): MockResponse => ({ status, body: { success: false, error } });
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+const delay = (ms: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) return reject(abortError());
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(abortError());
+        }, { once: true });
+    });
+
+const asRecord = (body: unknown): Record<string, unknown> =>
+    body && typeof body === 'object' ? body as Record<string, unknown> : {};
+
+const normalizePath = (path: string) => (path.startsWith('/') ? path : '/' + path);
+
+const summarize = (project: StoredProject): ProjectSummary => ({
+    _id: project._id,
+    name: project.name,
+    prompt: project.prompt,
+    fileCount: project.files.length,
+    status: project.status,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+});
+
+function storeProject(data: Partial<CreateProjectRequest> & { name?: string; description?: string }): StoredProject {
+    const now = new Date().toISOString();
+    const project: StoredProject = {
+        _id: `mock-${(nextProjectId++).toString().padStart(6, '0')}`,
+        name: data.name ?? projectNameFrom(data.prompt ?? ''),
+        prompt: data.prompt ?? '',
+        description: data.description,
+        blueprint: data.blueprint,
+        userId: data.userId,
+        sessionId: data.sessionId,
+        status: data.status ?? 'complete',
+        generation: data.generation,
+        files: (data.files ?? []).map(f => ({ path: normalizePath(f.path), content: f.content })),
+        createdAt: now,
+        updatedAt: now,
+    };
+    projects.set(project._id, project);
+    return project;
+}
+
+function lastUserMessage(messages: unknown): string {
+    const list = Array.isArray(messages) ? messages as ChatMessage[] : [];
+    return [...list].reverse().find(m => m.role === 'user')?.content ?? '';
+}
+
+function defaultFix(request: FixErrorRequest): FixErrorResponse | MockResponse {
+    const component = /Create a new React component for: (\w+)/.exec(request.error);
+    if (component) {
+        return { fixedCode: createStubComponent(component[1]) };
+    }
+    return fail(422, 'The mock backend has no automatic fix for this error');
+}
+
+// Server-sent events for /chat/langgraph-stream, paced by the configured latency.
+// The run is deterministic, so a Last-Event-ID resume just skips what was already sent,
+// and continuing an interrupted generation leaves out finished phases and existing files.
+function generationStream(prompt: string, { signal, lastEventId, generationId, resume }: GenerationStreamOptions): Response {
+    const existing = new Set((resume?.existingFiles ?? []).map(normalizePath));
+    const phases = (['core', 'components', 'page'] as const).filter(phase => !resume?.completedPhases.includes(phase));
+    const files = createProjectFiles(projectNameFrom(prompt)).filter(f => !existing.has(f.path));
+    const encoder = new TextEncoder();
+    const resumeAfter = Number(lastEventId) || 0;
+    let eventId = 0;
+
+    // Stops on either a client disconnect or an explicit /cancel for this generation
+    const run = new AbortController();
+    signal?.addEventListener('abort', () => run.abort(), { once: true });
+    if (generationId) activeGenerations.set(generationId, run);
+
+    const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (data: unknown) => {
+                if (++eventId <= resumeAfter) return;
+                controller.enqueue(encoder.encode(`id: ${eventId}\ndata: ${JSON.stringify(data)}\n\n`));
+            };
+            const step = () => eventId < resumeAfter
+                ? Promise.resolve()
+                : delay(Math.max(options.latencyMs / 3, 0), run.signal);
+
+            try {
+                for (const phase of phases) {
+                    send({ type: 'phase', phase, message: `Generating ${phase === 'page' ? 'pages' : phase} files...` });
+                    for (const file of files.filter(f => f.phase === phase)) {
+                        await step();
+                        send({ type: 'file', path: file.path.replace(/^\//, ''), content: file.content, phase: file.phase });
+                    }
+                }
+                await step();
+                send({ type: 'complete', totalFiles: files.filter(f => phases.includes(f.phase)).length });
+                controller.close();
+            } catch (err) {
+                if (signal?.aborted) {
+                    controller.error(err);
+                } else {
+                    send({ type: 'error', message: 'Generation was cancelled' });
+                    controller.close();
+                }
+            } finally {
+                if (generationId) activeGenerations.delete(generationId);
+            }
+        },
+    });
+
+    return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+const routes: Route[] = [
+    {
+        method: 'post', pattern: /^\/planning$/, handle: ({ body }) => {
+            const { requirements, projectType } = asRecord(body);
+            if (typeof requirements !== 'string' || !requirements.trim()) return fail(400, 'Requirements are required');
+            const blueprint = createBlueprint(requirements, String(projectType ?? 'frontend'));
+            return ok({ success: true, data: { blueprint, rawOutput: JSON.stringify(blueprint) } });
+        },
+    },
+    {
+        method: 'post', pattern: /^\/template$/, handle: ({ body }) => {
+            const name = projectNameFrom(String(asRecord(body).prompt ?? ''));
+            const core = createProjectFiles(name).filter(f => f.phase === 'core' && f.path !== '/src/App.jsx');
+            return ok({
+                prompts: [`Here is the base template of the project:\n${toArtifact('Project Template', core)}`],
+                uiPrompts: [toArtifact('Project Template', core)],
+            });
+        },
+    },
+    {
+        method: 'post', pattern: /^\/chat$/, handle: ({ body }) => {
+            const name = projectNameFrom(lastUserMessage(asRecord(body).messages));
+            return ok({ response: toArtifact(name, createProjectFiles(name)) });
+        },
+    },
+    {
+        method: 'post', pattern: /^\/chat\/langgraph$/, handle: ({ body }) => {
+            const name = projectNameFrom(String(asRecord(body).prompt ?? ''));
+            return ok({ response: toArtifact(name, createProjectFiles(name)) });
+        },
+    },
+    {
+        method: 'post', pattern: /^\/chat\/langgraph-stream$/, handle: ({ body, signal, lastEventId }) => {
+            const { prompt, generationId, resume } = asRecord(body);
+            return generationStream(String(prompt ?? ''), {
+                signal,
+                lastEventId,
+                generationId: typeof generationId === 'string' ? generationId : undefined,
+                resume: resume as GenerationResume | undefined,
+            });
+        },
+    },
+    {
+        method: 'post', pattern: /^\/chat\/langgraph-stream\/cancel$/, handle: ({ body }) => {
+            const run = activeGenerations.get(String(asRecord(body).generationId ?? ''));
+            run?.abort();
+            return ok({ success: Boolean(run) });
+        },
+    },
+    {
+        method: 'post', pattern: /^\/build\/fullstack-complete$/, handle: ({ body }) => {
+            const name = projectNameFrom(String(asRecord(body).frontendContext ?? ''));
+            const backend: ProjectFile[] = [
+                {
+                    path: '/package.json',
+                    content: JSON.stringify({ name: 'mock-api', type: 'module', scripts: { start: 'node server.js' }, dependencies: { express: '^4.19.2' } }, null, 2),
+                },
+                {
+                    path: '/server.js',
+                    content: "import express from 'express';\n\nconst app = express();\napp.use(express.json());\napp.post('/api/contact', (req, res) => res.json({ ok: true }));\napp.listen(3001);\n",
+                },
+            ];
+            return ok({ backend: toArtifact('Backend Server', backend), frontend: toArtifact(name, createProjectFiles(name)) });
+        },
+    },
+    {
+        method: 'post', pattern: /^\/api\/fix-error$/, handle: ({ body }) => {
+            const request = body as FixErrorRequest;
+            const result = options.fixError?.(request) ?? defaultFix(request);
+            return 'status' in result ? result as MockResponse : ok(result);
+        },
+    },
+    {
+        method: 'post', pattern: /^\/api\/fix-errors$/, handle: ({ body }) => {
+            const request = body as FixErrorsRequest;
+            return options.fixErrors
+                ? ok(options.fixErrors(request))
+                : fail(422, 'The mock backend has no automatic fix for these errors');
+        },
+    },
+    {
+        method: 'get', pattern: /^\/api\/projects$/, handle: ({ query }) => {
+            const userId = query.get('userId');
+            const sessionId = query.get('sessionId');
+            const list = [...projects.values()]
+                .filter(p => (userId ? p.userId === userId : p.sessionId === sessionId))
+                .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+                .map(summarize);
+            return ok({ success: true, projects: list });
+        },
+    },
+    {
+        method: 'post', pattern: /^\/api\/projects$/, handle: ({ body }) => {
+            const data = body as CreateProjectRequest;
+            if (!Array.isArray(data?.files)) return fail(400, 'Files are required');
+            const project = storeProject(data);
+            return ok({ success: true, projectId: project._id, name: project.name }, 201);
+        },
+    },
+    {
+        method: 'post', pattern: /^\/api\/projects\/upload$/, handle: async ({ body }) => {
+            const zipFile = body instanceof FormData ? body.get('zipFile') : null;
+            if (!(zipFile instanceof Blob)) return fail(400, 'zipFile is required');
+
+            const zip = await JSZip.loadAsync(await zipFile.arrayBuffer());
+            const files: ProjectFile[] = [];
+            for (const entry of Object.values(zip.files)) {
+                if (entry.dir || entry.name.includes('node_modules/')) continue;
+                files.push({ path: entry.name, content: await entry.async('string') });
+            }
+
+            const name = zipFile instanceof File ? zipFile.name.replace(/\.zip$/i, '') : 'Uploaded project';
+            const userId = (body as FormData).get('userId');
+            const project = storeProject({
+                name,
+                prompt: `Imported from ${name}.zip`,
+                description: `Imported project with ${files.length} files`,
+                userId: typeof userId === 'string' ? userId : null,
+                files,
+            });
+            return ok({ success: true, projectId: project._id, name, description: project.description, fileCount: files.length }, 201);
+        },
+    },
+    {
+        method: 'get', pattern: /^\/api\/projects\/([^/]+)$/, handle: (_request, [id]) => {
+            const project = projects.get(id);
+            return project ? ok({ success: true, project }) : fail(404, 'Project not found');
+        },
+    },
+    {
+        method: 'patch', pattern: /^\/api\/projects\/([^/]+)$/, handle: ({ body }, [id]) => {
+            const project = projects.get(id);
+            if (!project) return fail(404, 'Project not found');
+
+            const { status, generation } = asRecord(body) as UpdateProjectRequest;
+            if (status !== undefined) project.status = status;
+            if (generation !== undefined) project.generation = generation;
+            project.updatedAt = new Date().toISOString();
+            return ok({ success: true });
+        },
+    },
+    {
+        method: 'patch', pattern: /^\/api\/projects\/([^/]+)\/files$/, handle: ({ body }, [id]) => {
+            const project = projects.get(id);
+            if (!project) return fail(404, 'Project not found');
+
+            const updates = (asRecord(body).files ?? []) as ProjectFile[];
+            for (const update of updates) {
+                const path = normalizePath(update.path);
+                const existing = project.files.find(f => f.path === path);
+                if (existing) existing.content = update.content;
+                else project.files.push({ path, content: update.content });
+            }
+            project.updatedAt = new Date().toISOString();
+            return ok({ success: true, updated: updates.length });
+        },
+    },
+    {
+        method: 'delete', pattern: /^\/api\/projects\/([^/]+)\/files$/, handle: ({ body }, [id]) => {
+            const project = projects.get(id);
+            if (!project) return fail(404, 'Project not found');
+
+            const paths = new Set(((asRecord(body).paths ?? []) as string[]).map(normalizePath));
+            const before = project.files.length;
+            project.files = project.files.filter(f => !paths.has(f.path));
+            project.updatedAt = new Date().toISOString();
+            return ok({ success: true, deleted: before - project.files.length });
+        },
+    },
+    {
+        method: 'delete', pattern: /^\/api\/projects\/([^/]+)$/, handle: (_request, [id]) =>
+            projects.delete(id) ? ok({ success: true }) : fail(404, 'Project not found'),
+    },
+    {
+        method: 'post', pattern: /^\/api\/projects\/([^/]+)\/chat$/, handle: ({ body }, [id]) => {
+            const project = projects.get(id);
+            if (!project) return fail(404, 'Project not found');
+
+            const message = String(asRecord(body).message ?? '').trim();
+            if (/\?$/.test(message) || /^(what|why|how|where|which|explain)\b/i.test(message)) {
+                return ok({
+                    intent: 'question',
+                    response: `"${project.name}" has ${project.files.length} files. (Mock backend answers questions with a summary only.)`,
+                });
+            }
+
+            // Rewrite the first heading so the change is visible in the preview, in the picked element's file if any
+            const picked = asRecord(asRecord(asRecord(body).context).element).file;
+            const hasHeading = (f: ProjectFile) => /<h1>[^<]*<\/h1>/.test(f.content);
+            const target = project.files.find(f => f.path === picked && hasHeading(f)) ?? project.files.find(hasHeading);
+            if (!target) return ok({ intent: 'modify', response: 'Nothing to change in mock mode.', modifiedFiles: [] });
+
+            const heading = message.slice(0, 60).replace(/[<>{}]/g, '');
+            target.content = target.content.replace(/<h1>[^<]*<\/h1>/, `<h1>${heading}</h1>`);
+            project.updatedAt = new Date().toISOString();
+            return ok({
+                intent: 'modify',
+                response: `Updated the heading in ${target.path}.`,
+                modifiedFiles: [{ path: target.path, content: target.content }],
+            });
+        },
+    },
+    {
+        method: 'post', pattern: /^\/auth\/(login|signup)$/, handle: ({ body }, [action]) => {
+            const { email, password, username } = asRecord(body);
+            if (typeof email !== 'string' || !email.includes('@') || !password) {
+                return { status: 400, body: { message: 'Email and password are required' } };
+            }
+            const response: AuthResponse = {
+                token: `mock-token-${btoa(email)}`,
+                user: { id: `user-${btoa(email).slice(0, 12)}`, email, username: String(username ?? email.split('@')[0]) },
+            };
+            return ok(response, action === 'signup' ? 201 : 200);
+        },
+    },
+    {
+        // No cookie-based Google session exists in mock mode
+        method: 'get', pattern: /^\/auth\/check-session$/, handle: () => ok({}),
+    },
+];
+
+async function handle(request: MockRequest): Promise<MockResponse | Response> {
+    await delay(options.latencyMs, request.signal);
+
+    const route = routes
+        .filter(r => r.method === request.method)
+        .map(r => ({ route: r, match: r.pattern.exec(request.path) }))
+        .find(({ match }) => match);
+
+    if (options.debug) console.info(`[mock backend] ${request.method.toUpperCase()} ${request.path}`);
+    if (!route?.match) return fail(404, `Mock backend has no route for ${request.method.toUpperCase()} ${request.path}`);
+
+    try {
+        return await route.route.handle(request, route.match.slice(1));
+    } catch (err) {
+        console.error('[mock backend] Handler failed:', err);
+        return fail(500, err instanceof Error ? err.message : 'Mock handler failed');
+    }
+}
+
+const parseBody = (data: unknown): unknown => {
+    if (typeof data !== 'string') return data;
+    try {
+        return JSON.parse(data);
+    } catch {
+        return data;
+    }
+};
+
+// Axios adapter used by the API client's http instance
+export async function mockAdapter(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+    const target = /^https?:/.test(config.url ?? '') ? config.url ?? '' : `${config.baseURL ?? ''}${config.url ?? ''}`;
+    const url = new URL(target, window.location.origin);
+    Object.entries(config.params ?? {}).forEach(([key, value]) => url.searchParams.set(key, String(value)));
+
+    let result: MockResponse | Response;
+    try {
+        result = await handle({
+            method: (config.method ?? 'get').toLowerCase(),
+            path: url.pathname,
+            query: url.searchParams,
+            body: parseBody(config.data),
+            signal: config.signal as AbortSignal | undefined,
+        });
+    } catch (err) {
+        if (err instanceof DOMException && err.name === 'AbortError') throw new CanceledError(undefined, undefined, config);
+        throw err;
+    }
+
+    const status = result.status;
+    const data = result instanceof Response ? await result.text() : JSON.stringify(result.body);
+    const response: AxiosResponse = { data, status, statusText: String(status), headers: {}, config, request: {} };
+
+    if (!config.validateStatus || config.validateStatus(status)) return response;
+    throw new AxiosError(
+        `Request failed with status code ${status}`,
+        status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        response.request,
+        response
+    );
+}
+
+// fetch() replacement for streaming endpoints
+export async function mockFetch(input: string, init: RequestInit = {}): Promise<Response> {
+    const url = new URL(input, window.location.origin);
+    const result = await handle({
+        method: (init.method ?? 'get').toLowerCase(),
+        path: url.pathname,
+        query: url.searchParams,
+        body: parseBody(init.body),
+        signal: init.signal ?? undefined,
+        lastEventId: new Headers(init.headers).get('Last-Event-ID') ?? undefined,
+    });
+
+    if (result instanceof Response) return result;
+    return new Response(JSON.stringify(result.body), {
+        status: result.status,
+        headers: { 'Content-Type': 'application/json' },
+    });
+}
@@ -1,24 +1,62 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
-import axios from 'axios';
 import { ChatPanel } from '../components/agent/ChatPanel';
 import { PreviewPanel } from '../components/preview/PreviewPanel';
+import { ScreenshotFrames } from '../components/preview/ScreenshotFrames';
 import { PlanningReview } from '../components/agent/PlanningReview';
+import { VersionHistoryPanel } from '../components/agent/VersionHistoryPanel';
+import { VisualDiffDialog } from '../components/agent/VisualDiffDialog';
+import { FixLogPanel } from '../components/agent/FixLogPanel';
+import { DiffReview, ProposedChange } from '../components/agent/DiffReview';
+import { SyncStatusBadge } from '../components/agent/SyncStatusBadge';
+import { SyncConflictDialog } from '../components/agent/SyncConflictDialog';
+import { PartialGenerationDialog } from '../components/agent/PartialGenerationDialog';
 import { AgentMessageData, MessageType } from '../components/agent/AgentMessage';
 import { ProcessingPhase } from '../components/agent/ProcessingStep';
 import { AgentStatusType } from '../components/agent/AgentStatus';
 import { FileNode } from '../components/preview/FileTree';
-import { BACKEND_URL } from '../config';
 import { useWebContainer } from '../hooks/useWebContainer.tsx';
-import { parseStackTrace } from '../utils/errorReporter';
+import { useProjectSync } from '../hooks/useProjectSync';
+import { useDiagnostics } from '../hooks/useDiagnostics';
+import { usePreviewChannel } from '../hooks/usePreviewChannel';
+import { usePreviewTelemetry } from '../hooks/usePreviewTelemetry';
+import { usePreviewRoute } from '../hooks/usePreviewRoute';
+import { usePreviewScreenshots } from '../hooks/usePreviewScreenshots';
+import { FIX_BUDGET_PER_PROJECT, MAX_FILE_FAILURES, useFixLog } from '../hooks/useFixLog';
+import { formatDiagnostic, missingModuleOf, toProjectPath } from '../utils/diagnostics';
+import { applyLlmPatch, applyMultiFilePatch } from '../utils/patch';
+import { BASE_PACKAGE_JSON } from '../utils/webContainerTemplate';
+import { planFixes, type FixPlan } from '../utils/fixPlanner';
+import { addDependency, resolveMissingImport, rewriteImport, type ImportResolution } from '../utils/importGraph';
+import { api, isAbortError } from '../utils/api';
+import { saveScreenshot, saveSnapshot } from '../utils/versionHistory';
+import { previewRoutes } from '../utils/routes';
+import {
+    cacheServerProject,
+    createProject,
+    forgetProject,
+    getLocalProject,
+    isLocalProjectId,
+    queueFilePatch,
+    queueFileDeletion,
+    saveGenerationProgress,
+    subscribe,
+    type GenerationProgress,
+} from '../utils/projectStore';
 import type { ProjectBlueprint } from '../types/planning.types';
-import { ArrowLeft, Sparkles, Loader2, Zap, FolderOpen, MessageSquare, Layers } from 'lucide-react';
+import type { PreviewViewport, ProjectChatContext, SelectedElement } from '../types/api.types';
+import type { Diagnostic, FixLogEntry, FixOutcome } from '../types/diagnostics.types';
+import type { GenerationCheckpoint, GenerationPhaseId, ProjectFile, ProjectSnapshot, SnapshotSource } from '../types/project.types';
+import { ArrowLeft, Sparkles, Loader2, Zap, FolderOpen, MessageSquare, Layers, History, GitCompare } from 'lucide-react';
 import type { FileSystemTree } from '@webcontainer/api';
-// import { WebContainerTerminal } from '../components/terminal/WebContainerTerminal';
+import { WebContainerTerminal } from '../components/terminal/WebContainerTerminal';
 
-const MAX_FIX_ATTEMPTS = 50; // Allow many fix attempts for continuous error resolution
+const ALLOW_FULL_FILE_FIX_FALLBACK = false; // Whole-file fix answers are rejected unless the caller passes allowFullReplacement
+
+// An auto-fix attempt as recorded in the fix log
+type FixAttempt = Omit<FixLogEntry, 'id' | 'at' | 'diagnostics'>;
 
 // Helper to convert flat file list to tree structure
 const buildFileTree = (files: { path: string; content: string }[]): FileNode[] => {
@@ -66,6 +104,42 @@ const buildFileTree = (files: { path: string; content: string }[]): FileNode[] =
     return sortNodes(root);
 };
 
+// Processing step shown for each phase of a streamed generation
+const PHASE_STEP: Record<GenerationPhaseId, string> = {
+    core: 'core',
+    components: 'components',
+    page: 'pages',
+};
+
+// An interrupted generation, continued when its project is opened
+interface ResumableGeneration {
+    projectId: string;
+    files: ProjectFile[];
+    checkpoint: GenerationCheckpoint;
+}
+
+// A diff review waiting for the user; `resolve` settles the promise of whoever asked
+interface PendingReview {
+    id: number;
+    title: string;
+    description?: string;
+    changes: ProposedChange[];
+    resolve: (files: ProjectFile[] | null) => void;
+}
+
+const BASE_PACKAGE_JSON_TEXT = JSON.stringify(BASE_PACKAGE_JSON, null, 2);
+
+// What the WebContainer holds at `path`: the project's file, the base package.json
+// every preview starts from, or null when the file does not exist there
+const containerContent = (files: ProjectFile[], path: string): string | null =>
+    files.find(f => f.path === path)?.content ?? (path === '/package.json' ? BASE_PACKAGE_JSON_TEXT : null);
+
+// Return a copy of `files` with one file replaced or added
+const withFile = (files: ProjectFile[], path: string, content: string): ProjectFile[] =>
+    files.some(f => f.path === path)
+        ? files.map(f => f.path === path ? { ...f, content } : f)
+        : [...files, { path, content }];
+
 // Convert flat files to WebContainer FileSystemTree format
 const toWebContainerFS = (files: { path: string; content: string }[]): FileSystemTree => {
     const tree: FileSystemTree = {};
@@ -100,17 +174,28 @@ export const AgentBuilder: React.FC = () => {
         isBooting,
         isInstalling,
         isRunning,
+        hasMountedFiles,
         previewUrl: wcPreviewUrl,
         error: wcError,
         terminalOutput,
+        outputLines,
+        outputCapacity,
+        setOutputCapacity,
+        processes,
         isPreWarmed,
         isPreWarming,
         mountFiles,
         startDevServer,
         updateFile,
+        removeFile,
         reset: resetWebContainer,
-        runCommand,
+        startShell,
+        attachProcess,
+        writeToProcess,
+        resizeProcess,
         killProcess,
+        removeProcess,
+        runTypeCheck,
     } = useWebContainer();
 
     // State
@@ -135,14 +220,47 @@ export const AgentBuilder: React.FC = () => {
     const [isFixing, setIsFixing] = useState(false);
     const [fixCount, setFixCount] = useState(0);
     const fixingRef = useRef(false);
-    const fixAttempts = useRef(0);
     const filesRef = useRef<{ path: string; content: string }[]>([]);
-    const fixedFilesRef = useRef<Set<string>>(new Set());
+    const {
+        entries: fixLog,
+        unfixable: unfixableFiles,
+        remaining: fixBudgetLeft,
+        record: recordFix,
+        retryFile: retryFixFile,
+        reset: resetFixLog,
+    } = useFixLog();
+
+    // Messages from the preview iframe: only from its origin, with this session's token
+    const previewChannel = usePreviewChannel(wcPreviewUrl);
+
+    // Problems of the running project (tsc, Vite, runtime), consumed by the auto-fixer
+    const {
+        diagnostics,
+        isChecking: isCheckingDiagnostics,
+        runCheck: runDiagnostics,
+    } = useDiagnostics({ enabled: isRunning, terminalOutput, files, runTypeCheck, channel: previewChannel });
+
+    // Console, failed requests and Web Vitals of the preview, shown in its DevTools pane
+    const { telemetry: previewTelemetry, clear: clearPreviewTelemetry } = usePreviewTelemetry(isRunning, previewChannel);
+
+    // Path shown in the preview's address bar, and back/forward/reload/go for it
+    const { path: previewPath, navigate: navigatePreview } = usePreviewRoute(previewChannel, wcPreviewUrl);
+
+    // Screenshots of the preview, stored with each version for visual comparison
+    const { capture: capturePreview, captureViewports } = usePreviewScreenshots(previewChannel);
+
+    // Element picked in the preview; sent as context with the next follow-up message
+    const [isInspecting, setIsInspecting] = useState(false);
+    const [selectedElement, setSelectedElement] = useState<SelectedElement | null>(null);
+    // Device size chosen in the preview (null while it fills the pane), reported with follow-ups
+    const [previewViewport, setPreviewViewport] = useState<PreviewViewport | null>(null);
 
     // Planning review state
     const [showPlanningReview, setShowPlanningReview] = useState(false);
     const [blueprint, setBlueprint] = useState<ProjectBlueprint | null>(null);
     const [pendingPrompt, setPendingPrompt] = useState<string>('');
+    // Pages offered by the address bar: the generated router config, else the blueprint's pages
+    const routes = useMemo(() => previewRoutes(files, blueprint), [files, blueprint]);
     const [projectId, setProjectId] = useState<string | null>(null);
 
     // Refs to track current values for callbacks (avoid stale closures)
@@ -154,6 +272,32 @@ export const AgentBuilder: React.FC = () => {
     const [isLoadingProject, setIsLoadingProject] = useState(false);
     const [activeMobilePanel, setActiveMobilePanel] = useState<'chat' | 'preview'>('chat');
 
+    // Version history state
+    const [showHistory, setShowHistory] = useState(false);
+    const [showFixLog, setShowFixLog] = useState(false);
+    const [historyVersion, setHistoryVersion] = useState(0);
+    const lastSnapshotRef = useRef<ProjectSnapshot | null>(null);
+    const [visualDiff, setVisualDiff] = useState<{ before: ProjectSnapshot; after: ProjectSnapshot } | null>(null);
+
+    // Diff review state; a review requested while another is open waits its turn
+    const [review, setReview] = useState<PendingReview | null>(null);
+    const reviewQueueRef = useRef<PendingReview[]>([]);
+    const nextReviewIdRef = useRef(1);
+    // Files left behind by a stopped or failed generation, waiting for keep/discard
+    const [partialGeneration, setPartialGeneration] = useState<{
+        files: ProjectFile[];
+        reason: 'cancelled' | 'error';
+        projectId: string | null; // Where the files were saved while streaming, if anywhere
+        checkpoint: GenerationCheckpoint;
+    } | null>(null);
+    const [pendingResume, setPendingResume] = useState<ResumableGeneration | null>(null);
+    const [isSavingPartial, setIsSavingPartial] = useState(false);
+    const [askBeforeFixing, setAskBeforeFixing] = useState(() => localStorage.getItem('sitecrafter_ask_before_fixing') === 'true');
+
+    // Offline-first sync state
+    const sync = useProjectSync(projectId);
+    const [showConflicts, setShowConflicts] = useState(false);
+
     // Load project from URL parameter on mount
     useEffect(() => {
         const projectIdFromUrl = searchParams.get('project');
@@ -171,6 +315,13 @@ export const AgentBuilder: React.FC = () => {
         projectIdRef.current = projectId;
     }, [projectId]);
 
+    // A project created while offline gets its server id once the outbox syncs it
+    useEffect(() => subscribe(event => {
+        if (event.type === 'id-changed' && projectIdRef.current === event.from) {
+            setProjectId(event.to);
+        }
+    }), []);
+
     // Keep files count ref in sync
     useEffect(() => {
         filesCountRef.current = files.length;
@@ -181,24 +332,36 @@ export const AgentBuilder: React.FC = () => {
         filesRef.current = files;
     }, [files]);
 
-    // Function to load a project from the API
+    // Function to load a project - from the API when reachable, otherwise from the local store
     const loadProject = async (id: string) => {
         setIsLoadingProject(true);
         setStatusMessage('Loading project...');
 
         try {
-            const response = await axios.get(`${BACKEND_URL}/api/projects/${id}`);
-            const project = response.data.project;
+            let project = null;
+            let offline = false;
+            if (!isLocalProjectId(id)) {
+                try {
+                    project = await cacheServerProject(id, await api.projects.get(id));
+                } catch (err) {
+                    console.warn('Backend unavailable, trying local copy:', err);
+                    offline = true;
+                }
+            }
+            if (!project) {
+                project = await getLocalProject(id) ?? null;
+                offline = offline && !!project;
+            }
+            if (!project) {
+                throw new Error(offline ? 'Backend unreachable and no local copy found' : 'Project not found');
+            }
 
             if (project && project.files) {
                 // Set project ID
-                setProjectId(id);
+                setProjectId(project.id);
 
-                // Set files
-                const projectFiles = project.files.map((f: any) => ({
-                    path: f.path.startsWith('/') ? f.path : '/' + f.path,
-                    content: f.content,
-                }));
+                // Set files (already normalized to leading-slash paths by the store)
+                const projectFiles = project.files;
                 setFiles(projectFiles);
 
                 // Build file tree
@@ -207,7 +370,7 @@ export const AgentBuilder: React.FC = () => {
 
                 // Set blueprint if available
                 if (project.blueprint) {
-                    setBlueprint(project.blueprint);
+                    setBlueprint(project.blueprint as ProjectBlueprint);
                 }
 
                 // Set prompt
@@ -219,9 +382,15 @@ export const AgentBuilder: React.FC = () => {
                 setMessages(prev => [...prev, {
                     id: `msg-${Date.now()}-${crypto.randomUUID().slice(0, 8)}`,
                     type: 'success' as MessageType,
-                    content: `📂 Loaded project: ${project.name} (${projectFiles.length} files)`,
+                    content: `📂 Loaded project: ${project.name ?? 'Untitled'} (${projectFiles.length} files)${offline ? ' from the local copy - changes will sync when the backend is back' : ''}`,
                     timestamp: new Date(),
                 }]);
+
+                // An interrupted generation is finished first; the dev server starts once it completes
+                if (project.status === 'incomplete' && project.generation) {
+                    setPendingResume({ projectId: project.id, files: projectFiles, checkpoint: project.generation });
+                    return;
+                }
                 setStatus('complete');
 
                 // Mount files to WebContainer and start dev server
@@ -298,25 +467,100 @@ export const AgentBuilder: React.FC = () => {
         return null;
     };
 
-    // Save project to MongoDB
-    const saveProject = useCallback(async (collectedFiles: { path: string; content: string }[]) => {
+    // Screenshot what the preview shows for a snapshot once its change has rendered.
+    // A newer snapshot taken in the meantime owns what is on screen, so this one gets none.
+    const captureScreenshots = useCallback(async (snapshot: ProjectSnapshot) => {
+        try {
+            const captures = await capturePreview();
+            if (captures.length === 0 || lastSnapshotRef.current?.id !== snapshot.id) return;
+            await Promise.all(captures.map(capture => saveScreenshot(snapshot, capture)));
+            setHistoryVersion(v => v + 1);
+        } catch (err) {
+            console.error('Failed to save screenshots:', err);
+        }
+    }, [capturePreview]);
+
+    // The first version is usually saved before the dev server is up; capture it once the preview is
+    useEffect(() => {
+        const snapshot = lastSnapshotRef.current;
+        if (wcPreviewUrl && snapshot && snapshot.projectId === projectIdRef.current) {
+            captureScreenshots(snapshot);
+        }
+    }, [wcPreviewUrl, captureScreenshots]);
+
+    // Record an immutable snapshot of the project in local version history
+    const takeSnapshot = useCallback(async (
+        snapshotFiles: ProjectFile[],
+        label: string,
+        source: SnapshotSource,
+        id: string | null = projectIdRef.current
+    ) => {
+        if (!id) return;
+        try {
+            const snapshot = await saveSnapshot(id, snapshotFiles, label, source);
+            lastSnapshotRef.current = snapshot;
+            setHistoryVersion(v => v + 1);
+            captureScreenshots(snapshot);
+        } catch (err) {
+            console.error('Failed to save snapshot:', err);
+        }
+    }, [captureScreenshots]);
+
+    // Open the diff review and wait for the user; resolves with the final content of
+    // every reviewed file, or null if the whole change set was discarded
+    const requestReview = useCallback((title: string, description: string | undefined, changes: ProposedChange[]) => {
+        return new Promise<ProjectFile[] | null>(resolve => {
+            reviewQueueRef.current.push({ id: nextReviewIdRef.current++, title, description, changes, resolve });
+            if (reviewQueueRef.current.length === 1) setReview(reviewQueueRef.current[0]);
+        });
+    }, []);
+
+    const closeReview = useCallback((result: ProjectFile[] | null) => {
+        const closed = reviewQueueRef.current.shift();
+        closed?.resolve(result);
+        setReview(reviewQueueRef.current[0] ?? null);
+    }, []);
+
+    // With "ask before fixing" on, let the user review an auto-fix before it is applied.
+    // Returns the files to write, or null if nothing was accepted.
+    const reviewFix = useCallback(async (changes: ProposedChange[], reason?: string): Promise<ProjectFile[] | null> => {
+        if (!askBeforeFixing) return changes.map(c => ({ path: c.path, content: c.modified }));
+
+        const title = changes.length === 1 ? `Review auto-fix for ${changes[0].path}` : `Review auto-fix for ${changes.length} files`;
+        const reviewed = await requestReview(title, reason, changes);
+        const accepted = (reviewed ?? []).filter(file => file.content !== changes.find(c => c.path === file.path)?.original);
+        return accepted.length > 0 ? accepted : null;
+    }, [askBeforeFixing, requestReview]);
+
+    useEffect(() => {
+        localStorage.setItem('sitecrafter_ask_before_fixing', String(askBeforeFixing));
+    }, [askBeforeFixing]);
+
+    // Save project locally and to MongoDB, returning the project id (a temporary one while offline)
+    const saveProject = useCallback(async (collectedFiles: { path: string; content: string }[], progress?: GenerationProgress): Promise<string | null> => {
         try {
-            const response = await axios.post(`${BACKEND_URL}/api/projects`, {
+            const project = await createProject({
                 sessionId: getSessionId(),
                 userId: getUserId(),
                 prompt: pendingPrompt,
                 files: collectedFiles,
                 blueprint: blueprint,
+                status: progress?.status,
+                generation: progress?.generation,
             });
 
-            if (response.data.success) {
-                setProjectId(response.data.projectId);
-                addMessage('success', `Project saved: ${response.data.name}`);
-                console.log('Project saved with ID:', response.data.projectId);
+            setProjectId(project.id);
+            if (isLocalProjectId(project.id)) {
+                addMessage('progress', 'Backend unreachable - project saved locally and will sync when it is back');
+            } else {
+                addMessage('success', `Project saved: ${project.name}`);
             }
+            console.log('Project saved with ID:', project.id);
+            return project.id;
         } catch (err) {
             console.error('Failed to save project:', err);
         }
+        return null;
     }, [pendingPrompt, blueprint, addMessage]);
 
     // Handle file content changes from Monaco Editor
@@ -335,389 +579,354 @@ export const AgentBuilder: React.FC = () => {
             await updateFile(path.replace(/^\//, ''), content);
         }
 
-        // Auto-save to MongoDB (debounced)
+        // Save locally; the outbox uploads to MongoDB (debounced, retried while offline)
         if (projectId) {
-            // Clear any pending save
-            if ((window as any).__saveTimeout) {
-                clearTimeout((window as any).__saveTimeout);
-            }
-            // Debounce save - wait 2 seconds after last change
-            (window as any).__saveTimeout = setTimeout(async () => {
-                try {
-                    await axios.patch(`${BACKEND_URL}/api/projects/${projectId}/files`, {
-                        files: [{ path, content }]
-                    });
-                    console.log('✅ Auto-saved to MongoDB:', path);
-                } catch (err) {
-                    console.error('❌ Auto-save failed:', err);
-                }
-            }, 2000);
+            queueFilePatch(projectId, [{ path, content }])
+                .catch(err => console.error('❌ Auto-save failed:', err));
         }
     }, [selectedFile?.path, updateFile, isRunning, projectId]);
 
-    // Parse error from terminal output - STRICT error detection
-    const parseError = useCallback((output: string[]): { file: string; error: string } | null => {
-        // Strip ANSI escape codes for better pattern matching
-        const rawText = output.slice(-80).join('\n');
-        const text = rawText.replace(/\x1B\[[0-9;]*[mGKHF]/g, '').replace(/\[\d+m/g, '');
+    // Ask /api/fix-error for a fix, preferring a patch (unified diff or search/replace
+    // blocks) over a full-file rewrite. Returns the new content, or null if no clean fix.
+    const requestFix = useCallback(async (
+        filePath: string,
+        fileContent: string,
+        errorText: string,
+        allowFullReplacement = ALLOW_FULL_FILE_FIX_FALLBACK
+    ): Promise<string | null> => {
+        const postFix = (responseFormat: 'patch' | 'full') => api.fixError({
+            error: errorText,
+            filePath,
+            fileContent,
+            responseFormat,
+        });
 
-        // Skip if this looks like a successful update message, not an error
-        if (text.includes('hmr update') && !text.includes('[plugin:vite')) {
-            return null;
-        }
-        if (text.includes('✅') && !text.includes('[plugin:vite')) {
-            return null;
-        }
+        const result = await postFix('patch');
 
-        // 1. Vite plugin errors (most common)
-        // Pattern: [plugin:vite:react-babel] or [plugin:vite:import-analysis] etc.
-        if (text.includes('[plugin:vite:')) {
-            // Extract file from "File:" line
-            const fileLineMatch = text.match(/File:\s*(?:\/home\/[^\/]+\/)?(src\/[^\s:]+\.tsx?)(?::(\d+))?/);
-            if (fileLineMatch) {
-                const filePath = fileLineMatch[1];
-                console.log('🎯 Vite plugin error, file:', filePath);
-                return {
-                    file: filePath,
-                    error: `Vite Error in ${filePath}\n\nFull error:\n${text.slice(-1000)}`,
-                };
-            }
+        if (result.patch) {
+            const { content, applied, failed } = applyLlmPatch(fileContent, result.patch, filePath);
+            if (applied > 0 && failed.length === 0) return content;
 
-            // Try to extract from error message itself
-            const inlineFileMatch = text.match(/(?:\/home\/[^\/]+\/)?(src\/[^\s:)]+\.tsx?)/);
-            if (inlineFileMatch) {
-                console.log('🎯 Vite plugin error (inline), file:', inlineFileMatch[1]);
-                return {
-                    file: inlineFileMatch[1],
-                    error: `Vite Error in ${inlineFileMatch[1]}\n\nFull error:\n${text.slice(-1000)}`,
-                };
-            }
-        }
+            console.warn(`Rejected patch for ${filePath}: ${failed.length} hunk(s) did not apply cleanly`, failed);
+            if (!allowFullReplacement) return null;
 
-        // 2. Import resolution errors
-        const importMatch = text.match(/Failed to resolve import\s*["']([^"']+)["']\s*from\s*["']([^"']+)["']/);
-        if (importMatch) {
-            const sourceFile = importMatch[2].replace(/^\//, '');
-            const filePath = sourceFile.startsWith('src/') ? sourceFile : 'src/' + sourceFile.split('src/').pop();
-            console.log('🎯 Import error, file:', filePath);
-            return {
-                file: filePath,
-                error: `Import Error: Cannot find "${importMatch[1]}" in ${filePath}\n\nFull error:\n${text.slice(-800)}`,
-            };
+            const full = await postFix('full');
+            return full.fixedCode || null;
         }
 
-        // 3. TypeScript errors (with line numbers)
-        const tsMatch = text.match(/(src\/[\w\-\/]+\.tsx?)\((\d+),(\d+)\):\s*error\s*(TS\d+):\s*(.+)/);
-        if (tsMatch) {
-            console.log('🎯 TypeScript error, file:', tsMatch[1]);
-            return {
-                file: tsMatch[1],
-                error: `TypeScript ${tsMatch[4]} at line ${tsMatch[2]}: ${tsMatch[5]}\n\nFull error:\n${text.slice(-600)}`,
-            };
-        }
+        // Backend answered with the whole file (older backends ignore responseFormat)
+        return allowFullReplacement ? result.fixedCode || null : null;
+    }, []);
 
-        // 4. Syntax errors with specific patterns
-        if (text.includes('SyntaxError') || text.includes('Unexpected token')) {
-            const fileMatch = text.match(/(?:\/home\/[^\/]+\/)?(src\/[\w\-\/]+\.tsx?)/);
-            if (fileMatch) {
-                console.log('🎯 Syntax error, file:', fileMatch[1]);
-                return {
-                    file: fileMatch[1],
-                    error: `Syntax Error in ${fileMatch[1]}\n\n${text.slice(-600)}`
-                };
+    // Ask /api/fix-errors to fix all files of a plan in one request. Resolves with the
+    // changed files only if the whole answer applies cleanly, otherwise with why not.
+    const requestBatchFix = useCallback(async (
+        plan: FixPlan,
+        errorText: string,
+        allowFullReplacement = ALLOW_FULL_FILE_FIX_FALLBACK
+    ): Promise<{ files: ProjectFile[] } | { rejected: string }> => {
+        const postFix = (responseFormat: 'patch' | 'full') => api.fixErrors({
+            errors: errorText,
+            files: plan.files,
+            responseFormat,
+        });
+        // Full-file answers may repeat unchanged files
+        const changedOnly = (answer: ProjectFile[] = []) => {
+            const changed = answer
+                .map(f => ({ path: f.path.startsWith('/') ? f.path : '/' + f.path, content: f.content }))
+                .filter(f => plan.files.find(p => p.path === f.path)?.content !== f.content);
+            // The fixer only saw the plan's files; anything else it "creates" would overwrite one
+            if (changed.some(f => !plan.files.some(p => p.path === f.path) && filesRef.current.some(p => p.path === f.path))) {
+                return { rejected: 'The fix wrote files it was not given' };
             }
-        }
+            return changed.length > 0 ? { files: changed } : { rejected: 'The fix did not change anything' };
+        };
 
-        // 5. Module not found (strict pattern)
-        const moduleMatch = text.match(/Cannot find module\s*["']([^"']+)["']/);
-        if (moduleMatch) {
-            const fileMatch = text.match(/(?:\/home\/[^\/]+\/)?(src\/[\w\-\/]+\.tsx?)/);
-            if (fileMatch) {
-                console.log('🎯 Module not found, file:', fileMatch[1]);
-                return {
-                    file: fileMatch[1],
-                    error: `Module not found: ${moduleMatch[1]}\n\n${text.slice(-500)}`
-                };
-            }
-        }
+        const result = await postFix('patch');
 
-        return null;
-    }, []);
+        if (result.patch) {
+            const { files: changed, failed } = applyMultiFilePatch(plan.files, result.patch, filesRef.current.map(f => f.path));
+            if (failed.length === 0) return changedOnly(changed);
 
-    // Fix code error using LLM
-    const fixCodeError = useCallback(async (errorFile: string, errorText: string) => {
-        if (fixingRef.current) return false;
+            console.warn(`Rejected multi-file patch: ${failed.length} file(s) did not apply cleanly`, failed);
+            if (!allowFullReplacement) return { rejected: 'The patch did not apply cleanly' };
 
-        const errorKey = `${errorFile}:${errorText.slice(0, 100)}`;
-        if (fixedFilesRef.current.has(errorKey)) {
-            console.log(`Already fixed: ${errorFile}, skipping`);
-            return false;
+            const full = await postFix('full');
+            return changedOnly(full.files);
         }
 
-        fixingRef.current = true;
-        setIsFixing(true);
-        fixAttempts.current++;
-
-        let fixSuccess = false;
+        if (!result.files?.length) return { rejected: 'The response had no patch and no files' };
+        return allowFullReplacement ? changedOnly(result.files) : { rejected: 'The response was whole files instead of a patch' };
+    }, []);
 
+    // Write files to the WebContainer and state as one change, deleting `removed`.
+    // If a write fails part-way, the files already written are put back.
+    const writeFixFiles = useCallback(async (changed: ProjectFile[], removed: string[] = []) => {
+        const before = filesRef.current;
+        const touched: string[] = [];
         try {
-            // Check if this is a "missing component" error
-            const missingImportMatch = errorText.match(/Cannot find module ["']([^"']+)["']|Failed to resolve import ["']([^"']+)["']/i);
-
-            if (missingImportMatch) {
-                const missingPath = missingImportMatch[1] || missingImportMatch[2];
-                console.log('🆕 Missing component detected:', missingPath);
-
-                // Extract component name and path
-                const componentName = missingPath.split('/').pop()?.replace(/\.(tsx?|jsx?)$/, '') || 'Component';
-                let filePath = missingPath;
-
-                // Handle @/ alias
-                if (filePath.startsWith('@/')) {
-                    filePath = filePath.replace('@/', 'src/');
-                }
-                if (!filePath.endsWith('.tsx') && !filePath.endsWith('.ts')) {
-                    filePath += '.tsx';
-                }
-                if (!filePath.startsWith('src/')) {
-                    filePath = 'src/' + filePath;
-                }
-
-                addMessage('thinking', `🆕 Creating missing component: ${componentName}...`);
-
-                // Generate a simple component using LLM
-                const response = await fetch(`${BACKEND_URL}/api/fix-error`, {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json', 'ngrok-skip-browser-warning': 'true' },
-                    body: JSON.stringify({
-                        error: `Create a new React component for: ${componentName}. The file path is ${filePath}. Make it a functional TypeScript component with proper props interface and modern styling using Tailwind CSS.`,
-                        filePath: filePath,
-                        fileContent: '// NEW FILE - GENERATE COMPONENT',
-                    }),
-                });
-
-                if (response.ok) {
-                    const { fixedCode } = await response.json();
-                    if (fixedCode) {
-                        // Add to files state
-                        setFiles(prev => [...prev, { path: '/' + filePath, content: fixedCode }]);
-
-                        // Write to WebContainer
-                        await updateFile(filePath, fixedCode);
-
-                        // Auto-save to MongoDB
-                        if (projectId) {
-                            try {
-                                await axios.patch(`${BACKEND_URL}/api/projects/${projectId}/files`, {
-                                    files: [{ path: '/' + filePath, content: fixedCode }]
-                                });
-                                console.log('✅ Auto-saved fix to MongoDB:', filePath);
-                            } catch (err) {
-                                console.error('❌ Failed to auto-save fix:', err);
-                            }
-                        }
-
-                        setFixCount(prev => prev + 1);
-                        fixedFilesRef.current.add(errorKey);
-                        addMessage('success', `✅ Created missing component: ${componentName}`);
-                        fixSuccess = true;
-                    }
-                }
-            } else {
-                // Standard fix for existing files
-                let targetFile = filesRef.current.find(f =>
-                    f.path === errorFile ||
-                    f.path.endsWith(errorFile) ||
-                    f.path.includes(errorFile.replace('src/', ''))
-                );
-
-                if (!targetFile?.content) {
-                    const fileName = errorFile.split('/').pop();
-                    if (fileName) {
-                        targetFile = filesRef.current.find(f => f.path.endsWith(fileName));
-                    }
-                }
-
-                if (!targetFile?.content) {
-                    console.warn(`File not found: ${errorFile}`);
-                    fixingRef.current = false;
-                    setIsFixing(false);
-                    return false;
-                }
-
-                console.log(`🔧 Fixing code in: ${targetFile.path}`);
-                addMessage('thinking', `🔧 Auto-fixing error in ${targetFile.path}...`);
-
-                const response = await fetch(`${BACKEND_URL}/api/fix-error`, {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json', 'ngrok-skip-browser-warning': 'true' },
-                    body: JSON.stringify({
-                        error: errorText,
-                        filePath: targetFile.path,
-                        fileContent: targetFile.content,
-                    }),
-                });
-
-                if (!response.ok) throw new Error('Backend failed');
-
-                const { fixedCode } = await response.json();
+            for (const file of changed) {
+                touched.push(file.path);
+                await updateFile(file.path.replace(/^\//, ''), file.content, { throwOnError: true });
+            }
+            for (const path of removed) {
+                touched.push(path);
+                await removeFile(path.replace(/^\//, ''), { throwOnError: true });
+            }
+        } catch (err) {
+            await Promise.allSettled(touched.map(path => {
+                const original = containerContent(before, path);
+                return original !== null ? updateFile(path.replace(/^\//, ''), original) : removeFile(path.replace(/^\//, ''));
+            }));
+            throw err;
+        }
 
-                if (fixedCode && fixedCode !== targetFile.content) {
-                    // Update file in state
-                    setFiles(prev => prev.map(f =>
-                        f.path === targetFile!.path ? { ...f, content: fixedCode } : f
-                    ));
+        setFiles(prev => changed
+            .reduce((acc, file) => withFile(acc, file.path, file.content), prev)
+            .filter(f => !removed.includes(f.path)));
+    }, [updateFile, removeFile]);
+
+    // Apply a fix and compare project-wide tsc errors before and after. A fix that does not
+    // lower the count is rolled back; one that is kept is saved and snapshotted.
+    const applyAndVerify = useCallback(async (
+        changes: ProposedChange[],
+        target: Diagnostic[],
+        baseline: Promise<Diagnostic[] | null>,
+        label: string
+    ): Promise<FixAttempt> => {
+        const before = filesRef.current;
+        const changed = changes.map(c => ({ path: c.path, content: c.modified }));
+        const changedList = changed.map(f => f.path).join(', ');
+        // The "before" type-check must see the files as they were, so it finishes first
+        const previous = await baseline;
+        await writeFixFiles(changed);
+
+        const checked = await runDiagnostics();
+        const countErrors = (list: Diagnostic[] | null) => list?.filter(d => d.severity === 'error').length;
+        const errorsBefore = countErrors(previous);
+        const errorsAfter = countErrors(checked);
+
+        let outcome: FixOutcome;
+        if (errorsBefore === undefined || errorsAfter === undefined) {
+            outcome = 'unverified';
+        } else if (errorsAfter > errorsBefore) {
+            outcome = 'regressed';
+        } else if (errorsAfter === errorsBefore) {
+            // Runtime and Vite-only errors may be gone without tsc seeing a difference
+            outcome = target.some(d => d.source === 'tsc') ? 'no-progress' : 'unverified';
+        } else {
+            const targetFiles = new Set(target.map(d => d.file));
+            outcome = checked!.some(d => d.severity === 'error' && targetFiles.has(d.file)) ? 'improved' : 'fixed';
+        }
+        const attempt = { outcome, changes, errorsBefore, errorsAfter };
+
+        if (outcome === 'regressed' || outcome === 'no-progress') {
+            // Only files the fix created are deleted; anything the container had is written back
+            const created = changes.filter(c => containerContent(before, c.path) === null).map(c => c.path);
+            await writeFixFiles(
+                changes.filter(c => !created.includes(c.path)).map(c => ({ path: c.path, content: c.original })),
+                created
+            );
+            // e.g. the base package.json: back in the container, but still not a project file
+            const untracked = changes.filter(c => !created.includes(c.path) && !before.some(f => f.path === c.path)).map(c => c.path);
+            if (untracked.length > 0) setFiles(prev => prev.filter(f => !untracked.includes(f.path)));
+            addMessage(outcome === 'regressed' ? 'error' : 'progress', outcome === 'regressed'
+                ? `↩️ Rolled back auto-fix in ${changedList}: errors went from ${errorsBefore} to ${errorsAfter}`
+                : `↩️ Rolled back auto-fix in ${changedList}: it did not reduce the ${errorsBefore} ${errorsBefore === 1 ? 'error' : 'errors'}`);
+            return attempt;
+        }
 
-                    // Update file in WebContainer
-                    await updateFile(targetFile.path.replace(/^\//, ''), fixedCode);
+        // Auto-save (local first, synced to MongoDB by the outbox)
+        if (projectId) {
+            try {
+                await queueFilePatch(projectId, changed);
+            } catch (err) {
+                console.error('❌ Failed to auto-save fix:', err);
+            }
+        }
+        setFixCount(prev => prev + 1);
+        takeSnapshot(changed.reduce((acc, file) => withFile(acc, file.path, file.content), before), label, 'auto-fix');
+
+        if (outcome === 'fixed') {
+            addMessage('success', `✅ ${label} (verified with tsc: ${errorsBefore} → ${errorsAfter} errors)`);
+        } else if (outcome === 'improved') {
+            addMessage('progress', `${label}: errors went from ${errorsBefore} to ${errorsAfter}, some remain`);
+        } else {
+            addMessage('success', `✅ ${label} (not verified by a type check)`);
+        }
+        return attempt;
+    }, [writeFixFiles, runDiagnostics, projectId, takeSnapshot, addMessage]);
 
-                    // Auto-save to MongoDB
-                    if (projectId) {
-                        try {
-                            await axios.patch(`${BACKEND_URL}/api/projects/${projectId}/files`, {
-                                files: [{ path: targetFile.path, content: fixedCode }]
-                            });
-                            console.log('✅ Auto-saved fix to MongoDB:', targetFile.path);
-                        } catch (err) {
-                            console.error('❌ Failed to auto-save fix:', err);
-                        }
-                    }
+    // Run one auto-fix at a time and record its outcome in the fix log
+    const runFix = useCallback(async (target: Diagnostic[], fix: () => Promise<FixAttempt>) => {
+        if (fixingRef.current) return false;
 
-                    setFixCount(prev => prev + 1);
-                    // Add to fixed set but remove after a delay to allow re-checking for NEW errors
-                    fixedFilesRef.current.add(errorKey);
-                    setTimeout(() => {
-                        fixedFilesRef.current.delete(errorKey);
-                    }, 15000); // Allow re-attempting after 15 seconds for new errors
+        fixingRef.current = true;
+        setIsFixing(true);
 
-                    addMessage('success', `✅ Fixed error in ${targetFile.path}`);
-                    fixSuccess = true;
-                }
-            }
+        let attempt: FixAttempt;
+        try {
+            attempt = await fix();
         } catch (err) {
             console.error('Fix failed:', err);
             addMessage('error', `❌ Auto-fix failed: ${err}`);
+            attempt = { outcome: 'failed', changes: [], detail: String(err) };
         } finally {
             fixingRef.current = false;
             setIsFixing(false);
         }
 
-        // After successful fix, schedule a re-check for more errors
-        // Check for any errors (same or different file) but with a longer delay for same file
-        if (fixSuccess) {
-            // First check after 3 seconds for errors in OTHER files
-            setTimeout(() => {
-                const newErrorInfo = parseError(terminalOutput);
-                if (newErrorInfo && newErrorInfo.file && newErrorInfo.file !== errorFile) {
-                    console.log('🔄 More errors detected in different file:', newErrorInfo.file);
-                    fixCodeError(newErrorInfo.file, newErrorInfo.error);
-                }
-            }, 3000);
-
-            // Second check after 8 seconds for potentially NEW errors in same file
-            setTimeout(() => {
-                const newErrorInfo = parseError(terminalOutput);
-                if (newErrorInfo && newErrorInfo.file) {
-                    const newErrorKey = `${newErrorInfo.file}:${newErrorInfo.error.slice(0, 100)}`;
-                    // Only fix if it's a NEW error (different error key)
-                    if (!fixedFilesRef.current.has(newErrorKey)) {
-                        console.log('🔄 New error detected, attempting fix:', newErrorInfo.file);
-                        fixCodeError(newErrorInfo.file, newErrorInfo.error);
-                    } else {
-                        console.log('✅ No new errors to fix');
-                    }
-                } else {
-                    console.log('✅ No more errors detected in terminal output');
-                }
-            }, 8000); // Wait longer before re-checking same file
+        const givenUp = recordFix({ ...attempt, diagnostics: target });
+        if (givenUp.length > 0) {
+            addMessage('error', `⛔ Auto-fix gave up on ${givenUp.join(', ')} after ${MAX_FILE_FAILURES} failed attempts. Retry it from the fix log.`);
+        }
+        if (fixBudgetLeft === 1) {
+            addMessage('progress', `Auto-fix budget of ${FIX_BUDGET_PER_PROJECT} attempts for this project is used up. Remaining errors are listed under Problems.`);
+        }
+        return attempt.outcome === 'fixed' || attempt.outcome === 'improved' || attempt.outcome === 'unverified';
+    }, [addMessage, recordFix, fixBudgetLeft]);
+
+    // The project's package.json, or the one the WebContainer starts from when it has none
+    const currentPackageJson = useCallback(() =>
+        filesRef.current.find(f => f.path === '/package.json')?.content ?? BASE_PACKAGE_JSON_TEXT, []);
+
+    // Repair an import that does not resolve: point it at the existing module, add the
+    // npm package, or, as a last resort, generate the missing file
+    const resolveImportError = useCallback((diagnostic: Diagnostic, resolution: ImportResolution) => runFix([diagnostic], async () => {
+        const missingPath = missingModuleOf(diagnostic)!;
+        console.log('🧭 Unresolved import:', missingPath, resolution);
+        const baseline = runDiagnostics();
+
+        let label: string;
+        let proposed: ProposedChange[];
+        if (resolution.kind === 'rewrite') {
+            const importer = filesRef.current.find(f => f.path === resolution.file);
+            const modified = importer ? rewriteImport(importer.content, resolution.from, resolution.to) : null;
+            if (!importer || modified === null || modified === importer.content) {
+                return { outcome: 'rejected', changes: [], detail: `Could not find the import of "${resolution.from}" in ${resolution.file}` };
+            }
+            addMessage('thinking', `🧭 "${resolution.from}" is ${resolution.target}, updating the import...`);
+            label = `Pointed import "${resolution.from}" in ${resolution.file} at "${resolution.to}"`;
+            proposed = [{ path: importer.path, original: importer.content, modified }];
+        } else if (resolution.kind === 'package') {
+            const original = currentPackageJson();
+            addMessage('thinking', `📦 Adding missing package ${resolution.name}...`);
+            label = `Added package ${resolution.name}`;
+            proposed = [{
+                path: '/package.json',
+                original,
+                modified: addDependency(original, resolution.name),
+            }];
+        } else {
+            const componentName = resolution.path.split('/').pop()!.replace(/\.(tsx?|jsx?)$/, '');
+            const filePath = resolution.path.replace(/^\//, '');
+            addMessage('thinking', `🆕 Creating missing component: ${componentName}...`);
+
+            // Generate a simple component using LLM (nothing to patch, so accept a full file)
+            const generatedCode = await requestFix(
+                filePath,
+                '// NEW FILE - GENERATE COMPONENT',
+                `Create a new React component for: ${componentName}. The file path is ${filePath}. Make it a functional TypeScript component with proper props interface and modern styling using Tailwind CSS.`,
+                true
+            );
+            if (!generatedCode) {
+                return { outcome: 'rejected', changes: [], detail: 'No component was generated' };
+            }
+            label = `Created missing component ${componentName}`;
+            proposed = [{ path: resolution.path, original: '', modified: generatedCode }];
+        }
+
+        const reviewed = await reviewFix(proposed, `Unresolved import: ${missingPath}`);
+        if (!reviewed) {
+            addMessage('progress', `${label} was declined`);
+            return { outcome: 'declined', changes: proposed };
+        }
+
+        return applyAndVerify(
+            reviewed.map(file => ({ ...proposed.find(c => c.path === file.path)!, modified: file.content })),
+            [diagnostic],
+            baseline,
+            label
+        );
+    }), [runFix, runDiagnostics, currentPackageJson, addMessage, requestFix, reviewFix, applyAndVerify]);
+
+    // Fix every error of a plan with one request
+    const fixDiagnostics = useCallback((plan: FixPlan) => runFix(plan.diagnostics, async () => {
+        const errorText = plan.diagnostics.map(formatDiagnostic).join('\n');
+        const errorPaths = [...new Set(plan.diagnostics.map(d => d.file))];
+        const scope = errorPaths.length === 1 ? errorPaths[0] : `${errorPaths.length} files`;
+        // tsc runs while the fix is requested, as the count to compare against
+        const baseline = runDiagnostics();
+
+        console.log(`🔧 Fixing ${plan.diagnostics.length} error(s) in:`, errorPaths);
+        addMessage('thinking', `🔧 Auto-fixing ${plan.diagnostics.length} ${plan.diagnostics.length === 1 ? 'error' : 'errors'} in ${scope}...`);
+
+        const answer = await requestBatchFix(plan, errorText);
+        if ('rejected' in answer) {
+            addMessage('error', `❌ Auto-fix for ${scope} was rejected. ${answer.rejected}`);
+            return { outcome: 'rejected', changes: [], detail: answer.rejected };
         }
 
-        return fixSuccess;
-    }, [addMessage, updateFile, parseError, terminalOutput]);
+        const changes = answer.files.map(file => ({
+            path: file.path,
+            original: plan.files.find(f => f.path === file.path)?.content ?? '',
+            modified: file.content,
+        }));
+        const reviewed = await reviewFix(changes, plan.diagnostics[0] ? formatDiagnostic(plan.diagnostics[0]) : undefined);
+        if (!reviewed) {
+            addMessage('progress', `Auto-fix for ${scope} was declined`);
+            return { outcome: 'declined', changes };
+        }
 
-    // Watch terminal output for errors and auto-fix
+        return applyAndVerify(
+            reviewed.map(file => ({ ...changes.find(c => c.path === file.path)!, modified: file.content })),
+            plan.diagnostics,
+            baseline,
+            `Auto-fix in ${reviewed.map(f => f.path).join(', ')}`
+        );
+    }), [runFix, runDiagnostics, addMessage, requestBatchFix, reviewFix, applyAndVerify]);
+
+    // Watch diagnostics for errors and auto-fix
     // Track last fix time per file to prevent repeated fixes
     const lastFixTimeRef = useRef<Map<string, number>>(new Map());
     const FIX_COOLDOWN_MS = 10000; // 10 seconds cooldown per file
 
     useEffect(() => {
         if (!isRunning || fixingRef.current || isFixing) return;
-        if (fixAttempts.current >= MAX_FIX_ATTEMPTS) return;
-
-        const errorInfo = parseError(terminalOutput);
-        if (!errorInfo?.file) return;
+        if (review !== null || isProcessing) return; // Not while the user is reviewing or chatting
+        if (isCheckingDiagnostics) return; // Wait for the fresh type-check result
+        if (fixBudgetLeft === 0) return;
 
-        // Check cooldown for this file
         const now = Date.now();
-        const lastFixTime = lastFixTimeRef.current.get(errorInfo.file) || 0;
-        if (now - lastFixTime < FIX_COOLDOWN_MS) {
-            // Still in cooldown, skip
-            return;
-        }
-
-        // Check if already fixed (using the ref)
-        const errorKey = `${errorInfo.file}:${errorInfo.error.slice(0, 100)}`;
-        if (fixedFilesRef.current.has(errorKey)) {
-            return;
+        const isPending = (d: Diagnostic) =>
+            d.severity === 'error' &&
+            !!d.file &&
+            !unfixableFiles.includes(d.file) &&
+            now - (lastFixTimeRef.current.get(d.file) || 0) >= FIX_COOLDOWN_MS;
+
+        // Unresolved imports that can be repaired without the LLM's help (or need a new file) go first
+        let missing: { diagnostic: Diagnostic; resolution: ImportResolution } | null = null;
+        for (const d of diagnostics.filter(isPending)) {
+            const specifier = missingModuleOf(d);
+            const resolution = specifier && resolveMissingImport(d.file, specifier, filesRef.current, currentPackageJson());
+            if (resolution) {
+                missing = { diagnostic: d, resolution };
+                break;
+            }
         }
-
-        console.log('🔧 Auto-fix triggered for:', errorInfo.file);
-        lastFixTimeRef.current.set(errorInfo.file, now);
+        const plan = missing ? null : planFixes(diagnostics.filter(isPending), filesRef.current)[0];
+        if (!missing && !plan) return;
 
         const timeoutId = setTimeout(() => {
-            fixCodeError(errorInfo.file, errorInfo.error);
+            const targets = missing ? [missing.diagnostic] : plan!.diagnostics;
+            console.log('🔧 Auto-fix triggered for:', [...new Set(targets.map(d => d.file))]);
+            targets.forEach(d => lastFixTimeRef.current.set(d.file, Date.now()));
+            if (missing) resolveImportError(missing.diagnostic, missing.resolution);
+            else fixDiagnostics(plan!);
         }, 1500);
 
         return () => clearTimeout(timeoutId);
-    }, [terminalOutput, isRunning, isFixing, parseError, fixCodeError]);
-
-    // Listen for runtime errors from preview iframe
-    useEffect(() => {
-        const handleRuntimeError = (event: MessageEvent) => {
-            if (event.data?.type !== 'RUNTIME_ERROR') return;
-            if (!isRunning) return;
-            if (fixAttempts.current >= MAX_FIX_ATTEMPTS) return;
-
-            const { message, stack, errorType } = event.data;
-            console.log('Runtime error received:', { message, stack, errorType });
-
-            // Pass both stack and message to parseStackTrace for better file detection
-            const { filePath } = parseStackTrace(stack || '', message || '');
-
-            if (filePath) {
-                const errorContext = `Runtime Error (${errorType})\n${message}\n\nStack trace:\n${stack}`;
-                const errorKey = `${filePath}:${errorContext.slice(0, 100)}`;
-
-                // Check if already fixed (but allow new errors on same file)
-                if (fixedFilesRef.current.has(errorKey)) {
-                    console.log('Skipping already-fixed error:', filePath);
-                    return;
-                }
-
-                // If currently fixing, queue this error for later instead of dropping
-                if (fixingRef.current || isFixing) {
-                    console.log('Currently fixing, queuing error for later:', filePath);
-                    setTimeout(() => {
-                        // Re-check if still needs fixing after delay
-                        if (!fixedFilesRef.current.has(errorKey)) {
-                            fixCodeError(filePath, errorContext);
-                        }
-                    }, 3000);
-                    return;
-                }
-
-                // Immediate fix
-                setTimeout(() => {
-                    fixCodeError(filePath, errorContext);
-                }, 1500);
-            } else {
-                console.warn('Could not extract file path from runtime error:', message);
-            }
-        };
-
-        window.addEventListener('message', handleRuntimeError);
-        return () => window.removeEventListener('message', handleRuntimeError);
-    }, [isRunning, isFixing, fixCodeError]);
+    }, [diagnostics, isCheckingDiagnostics, isRunning, isFixing, review, isProcessing, fixBudgetLeft, unfixableFiles, currentPackageJson, resolveImportError, fixDiagnostics]);
 
     // Handle send message - Using SSE for real-time streaming
     const handleSendMessage = useCallback(async (userMessage: string) => {
@@ -742,11 +951,15 @@ export const AgentBuilder: React.FC = () => {
 
             try {
                 // Use the new intelligent chat endpoint
-                const response = await axios.post(`${BACKEND_URL}/api/projects/${currentProjectId}/chat`, {
+                const context: ProjectChatContext = {
+                    ...(selectedElement && { element: selectedElement }),
+                    ...(previewViewport && { viewport: previewViewport }),
+                };
+                const { intent, response: chatResponse, modifiedFiles } = await api.projects.chat(currentProjectId, {
                     message: userMessage,
+                    context: Object.keys(context).length > 0 ? context : undefined,
                 });
-
-                const { intent, response: chatResponse, modifiedFiles } = response.data;
+                setSelectedElement(null);
 
                 // Handle based on detected intent
                 if (intent === 'question' || intent === 'explain') {
@@ -755,24 +968,57 @@ export const AgentBuilder: React.FC = () => {
                 } else if (intent === 'modify') {
                     // Show modification results
                     if (modifiedFiles && modifiedFiles.length > 0) {
-                        // Update files in state
-                        for (const modified of modifiedFiles) {
+                        const current = filesRef.current;
+                        const changes: ProposedChange[] = modifiedFiles.map(modified => {
                             const path = modified.path.startsWith('/') ? modified.path : '/' + modified.path;
+                            return {
+                                path,
+                                original: current.find(f => f.path === path)?.content ?? '',
+                                modified: modified.content,
+                            };
+                        });
+
+                        // Let the user accept or reject the changes before anything is written
+                        setStatusMessage('Review the proposed changes...');
+                        const reviewed = await requestReview('Review chat changes', chatResponse, changes) ?? [];
+                        const isExisting = (path: string) => current.some(f => f.path === path);
+
+                        // A rejected new file comes back empty - it was never created
+                        const kept = reviewed.filter(file => isExisting(file.path) || file.content);
+                        const applied = kept.filter(file => current.find(f => f.path === file.path)?.content !== file.content);
+                        let modifiedSnapshot = current;
 
-                            setFiles(prev => {
-                                const existing = prev.find(f => f.path === path);
-                                if (existing) {
-                                    return prev.map(f => f.path === path ? { ...f, content: modified.content } : f);
-                                } else {
-                                    return [...prev, { path, content: modified.content }];
-                                }
-                            });
+                        // Update files in state
+                        for (const file of applied) {
+                            modifiedSnapshot = withFile(modifiedSnapshot, file.path, file.content);
+                            setFiles(prev => withFile(prev, file.path, file.content));
 
                             // Update in WebContainer
-                            await updateFile(modified.path.replace(/^\//, ''), modified.content);
+                            await updateFile(file.path.replace(/^\//, ''), file.content);
                         }
 
-                        addMessage('success', `✅ ${chatResponse}`);
+                        // The backend stored its own version of these files - sync it to what was accepted
+                        try {
+                            await queueFilePatch(
+                                currentProjectId,
+                                kept.length > 0 ? kept : changes.filter(c => isExisting(c.path)).map(c => ({ path: c.path, content: c.original })),
+                                { serverFiles: changes.map(c => ({ path: c.path, content: c.modified })) }
+                            );
+                            // New files the backend already created but the user rejected
+                            const rejectedNew = changes.filter(c => !isExisting(c.path) && !kept.some(f => f.path === c.path));
+                            if (rejectedNew.length > 0) {
+                                await queueFileDeletion(currentProjectId, rejectedNew.map(c => c.path));
+                            }
+                        } catch (err) {
+                            console.error('❌ Failed to save reviewed changes:', err);
+                        }
+
+                        if (applied.length > 0) {
+                            takeSnapshot(modifiedSnapshot, `Chat: ${userMessage.slice(0, 80)}`, 'chat', currentProjectId);
+                            addMessage('success', `✅ ${chatResponse}`);
+                        } else {
+                            addMessage('progress', 'All proposed changes were rejected.');
+                        }
                     } else {
                         addMessage('progress', chatResponse || 'No modifications were needed.');
                     }
@@ -793,8 +1039,8 @@ export const AgentBuilder: React.FC = () => {
         setFileTree([]);
         setSelectedFile(null);
         setFixCount(0);
-        fixAttempts.current = 0;
-        fixedFilesRef.current.clear();
+        resetFixLog();
+        setSelectedElement(null);
         setProjectId(null);
 
         // Set processing state - this is NEW PROJECT CREATION
@@ -808,15 +1054,16 @@ export const AgentBuilder: React.FC = () => {
 
         try {
             updatePhase('blueprint', 'in-progress');
+            abortControllerRef.current = new AbortController();
 
             // Call /planning endpoint to get blueprint for review
-            const response = await axios.post(`${BACKEND_URL}/planning`, {
+            const planning = await api.planning({
                 requirements: userMessage.trim(),
                 projectType: 'frontend'
-            });
+            }, { signal: abortControllerRef.current.signal });
 
-            if (response.data.success && response.data.data?.blueprint) {
-                setBlueprint(response.data.data.blueprint);
+            if (planning.success && planning.data?.blueprint) {
+                setBlueprint(planning.data.blueprint);
                 setPendingPrompt(userMessage);
                 setShowPlanningReview(true);
                 updatePhase('blueprint', 'complete');
@@ -825,110 +1072,322 @@ export const AgentBuilder: React.FC = () => {
                 setStatusMessage('Review the plan and approve to start coding');
                 return; // Exit here - handleApproveAndContinue takes over after user approval
             }
+            throw new Error('The planner did not return a blueprint');
         } catch (error: any) {
+            setIsCreating(false);
+            if (isAbortError(error)) {
+                updatePhase('blueprint', 'cancelled');
+                addMessage('progress', 'Planning stopped.');
+                setStatus('idle');
+                setStatusMessage(undefined);
+                return;
+            }
             console.error('Planning error:', error);
+            updatePhase('blueprint', 'error');
             addMessage('error', `Planning failed: ${error.message || 'Unknown error'}`);
             setStatus('error');
             setStatusMessage(error.message);
         } finally {
             setIsProcessing(false);
         }
-    }, [addMessage, updatePhase, updateFile]);
+    }, [addMessage, updatePhase, updateFile, takeSnapshot, requestReview, resetFixLog, selectedElement, previewViewport]);
 
-    // Handle stop
+    // Handle stop - aborts the request in flight; the code that started it settles the UI state
     const handleStop = useCallback(() => {
         if (abortControllerRef.current) {
             abortControllerRef.current.abort();
         }
     }, []);
 
-    // Handle approve planning and start code generation
-    const handleApproveAndContinue = useCallback(async () => {
-        if (!blueprint) return;
-        setShowPlanningReview(false);
+    // Stopped phases become 'cancelled', a failure marks them 'error'; finished ones stay as they are
+    const settlePhases = useCallback((outcome: 'cancelled' | 'error') => {
+        setPhases(prev => prev.map(p => p.status === 'in-progress' ? { ...p, status: outcome } : p));
+    }, []);
+
+    // Stream a generation, saving files and phase progress as they arrive so an interrupted
+    // run can be continued later. `resumeFrom` continues one, generating only what is missing.
+    const runGeneration = useCallback(async (prompt: string, resumeFrom?: ResumableGeneration) => {
         setIsProcessing(true);
+        setIsCreating(true);
         setStatus('running');
-        addMessage('thinking', 'Starting code generation from approved plan...');
+        setStatusMessage('Generating code...');
+
+        const projectType = resumeFrom?.checkpoint.projectType ?? 'frontend';
+        const generationId = crypto.randomUUID();
+        const existingPaths = new Set(resumeFrom?.files.map(f => f.path) ?? []);
+        const completedPhases: GenerationPhaseId[] = [...(resumeFrom?.checkpoint.completedPhases ?? [])];
+        let collected: ProjectFile[] = resumeFrom?.files ?? [];
+        let savedId: string | null = resumeFrom?.projectId ?? null;
+        let currentPhase: GenerationPhaseId | null = null;
+        let completed = false;
+        let awaitingDecision = false;
+
+        const checkpoint = (): GenerationCheckpoint => ({
+            prompt,
+            projectType,
+            completedPhases: [...completedPhases],
+            updatedAt: Date.now(),
+        });
 
-        // Trigger the existing SSE generation with the detailedContext
-        const prompt = blueprint.detailedContext || pendingPrompt;
+        // Saves run one after another in the background so they never hold up the stream
+        let persisting: Promise<void> = Promise.resolve();
+        const persist = (task: () => Promise<unknown>) => {
+            persisting = persisting.then(task).then(() => undefined, err => console.error('Failed to save generation progress:', err));
+        };
 
-        try {
-            abortControllerRef.current = new AbortController();
-            updatePhase('core', 'in-progress');
-            setStatusMessage('Generating code...');
-
-            const response = await fetch(`${BACKEND_URL}/chat/langgraph-stream`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json', 'ngrok-skip-browser-warning': 'true' },
-                body: JSON.stringify({ prompt, projectType: 'frontend' }),
-                signal: abortControllerRef.current.signal
+        const finishPhase = () => {
+            if (!currentPhase) return;
+            if (!completedPhases.includes(currentPhase)) completedPhases.push(currentPhase);
+            updatePhase(PHASE_STEP[currentPhase], 'complete');
+            const progress = checkpoint();
+            persist(async () => {
+                if (savedId) await saveGenerationProgress(savedId, { status: 'incomplete', generation: progress });
             });
+        };
 
-            if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+        try {
+            abortControllerRef.current = new AbortController();
+            if (!resumeFrom) updatePhase('core', 'in-progress');
+
+            let malformedCount = 0;
+            const events = api.streamLangGraph(
+                {
+                    prompt,
+                    projectType,
+                    generationId,
+                    ...(resumeFrom && { resume: { completedPhases, existingFiles: [...existingPaths] } }),
+                },
+                {
+                    signal: abortControllerRef.current.signal,
+                    onMalformed: () => {
+                        if (malformedCount++ === 0) addMessage('progress', '⚠️ Skipped an unreadable event from the generator');
+                    },
+                    onReconnect: attempt => {
+                        setStatusMessage(`Connection lost, resuming generation (attempt ${attempt})...`);
+                        if (attempt === 1) addMessage('progress', '🔌 Connection dropped - resuming where generation left off...');
+                    },
+                }
+            );
 
-            const reader = response.body?.getReader();
-            const decoder = new TextDecoder();
             let componentCount = 0, pageCount = 0, totalFiles = 0;
-            const collected: { path: string; content: string }[] = [];
 
-            if (reader) {
-                while (true) {
-                    const { done, value } = await reader.read();
-                    if (done) break;
-                    const chunk = decoder.decode(value);
-                    const lines = chunk.split('\n').filter(l => l.startsWith('data: '));
+            for await (const data of events) {
+                if (data.type === 'file') {
+                    const path = data.path.startsWith('/') ? data.path : '/' + data.path;
+                    // Files saved by the interrupted run (and possibly edited since) are kept as they are
+                    if (existingPaths.has(path)) continue;
+
+                    // A resumed stream can repeat a file; replace it rather than listing it twice
+                    const isNew = !collected.some(f => f.path === path);
+                    collected = withFile(collected, path, data.content);
+                    setFiles(prev => withFile(prev, path, data.content));
+                    if (isNew) {
+                        totalFiles++;
+                        if (data.phase === 'components') updatePhase('components', 'in-progress', ++componentCount);
+                        else if (data.phase === 'page') updatePhase('pages', 'in-progress', ++pageCount);
+                    }
 
-                    for (const line of lines) {
-                        try {
-                            const data = JSON.parse(line.slice(6));
-                            if (data.type === 'file') {
-                                totalFiles++;
-                                const path = data.path.startsWith('/') ? data.path : '/' + data.path;
-                                collected.push({ path, content: data.content });
-                                setFiles(prev => [...prev, { path, content: data.content }]);
-                                if (data.phase === 'components') componentCount++;
-                                else if (data.phase === 'page') pageCount++;
-                            } else if (data.type === 'phase') {
-                                setStatusMessage(data.message);
-                            } else if (data.type === 'complete') {
-                                setStatus('complete');
-                                addMessage('success', `Generated ${totalFiles} files!`);
-                                if (collected.length > 0) {
-                                    // Save to MongoDB IMMEDIATELY (don't wait for WebContainer)
-                                    // This runs in parallel with mounting files
-                                    saveProject(collected).catch(err => {
-                                        console.error('Failed to save project:', err);
-                                    });
-
-                                    // Mount files and start dev server (these take time)
-                                    const fsTree = toWebContainerFS(collected);
-                                    await mountFiles(fsTree);
-                                    await startDevServer();
-                                }
+                    const file = { path, content: data.content };
+                    persist(async () => {
+                        if (!savedId) {
+                            savedId = await saveProject(collected, { status: 'incomplete', generation: checkpoint() });
+                        } else {
+                            await queueFilePatch(savedId, [file]);
+                        }
+                    });
+                } else if (data.type === 'phase') {
+                    setStatusMessage(data.message);
+                    if (data.phase && data.phase !== currentPhase) {
+                        finishPhase();
+                        currentPhase = data.phase;
+                        updatePhase(PHASE_STEP[data.phase], 'in-progress');
+                    }
+                } else if (data.type === 'error') {
+                    throw new Error(data.message || 'Generation failed');
+                } else if (data.type === 'complete') {
+                    completed = true;
+                    finishPhase();
+                    setPhases(prev => prev.map(p => p.status === 'in-progress' ? { ...p, status: 'complete' } : p));
+                    setStatus('complete');
+                    addMessage('success', resumeFrom
+                        ? `Finished the project - generated ${totalFiles} missing files!`
+                        : `Generated ${totalFiles} files!`);
+                    if (collected.length > 0) {
+                        // Mark the project complete in the background, in parallel with mounting files
+                        persist(async () => {
+                            if (!savedId) {
+                                savedId = await saveProject(collected);
+                            } else {
+                                await saveGenerationProgress(savedId, { status: 'complete' });
                             }
-                        } catch { }
+                            await takeSnapshot(collected, resumeFrom ? 'Completed generation' : 'Initial generation', 'generation', savedId);
+                        });
+
+                        // Mount files and start dev server (these take time)
+                        const fsTree = toWebContainerFS(collected);
+                        await mountFiles(fsTree);
+                        await startDevServer();
                     }
                 }
             }
-        } catch (e: any) {
-            addMessage('error', e.message);
-            setStatus('error');
+            if (!completed) throw new Error('Generation ended before all files were created');
+        } catch (e) {
+            const cancelled = isAbortError(e);
+            // Make sure everything that was streamed is saved before deciding what to do with it
+            await persisting;
+            if (!completed) {
+                // Dropping the connection does not necessarily stop the backend, so ask it to
+                api.cancelGeneration(generationId).catch(err => console.warn('Could not cancel generation on the server:', err));
+                settlePhases(cancelled ? 'cancelled' : 'error');
+            }
+            if (cancelled) {
+                addMessage('progress', 'Generation stopped.');
+                setStatus('idle');
+            } else {
+                addMessage('error', e instanceof Error ? e.message : String(e));
+                setStatus('error');
+            }
+            if (!completed && resumeFrom) {
+                addMessage('progress', 'Progress is saved - open the project again to continue generating.');
+            } else if (!completed && collected.length > 0) {
+                setPartialGeneration({ files: collected, reason: cancelled ? 'cancelled' : 'error', projectId: savedId, checkpoint: checkpoint() });
+                awaitingDecision = true;
+            }
         } finally {
             setIsProcessing(false);
-            setIsCreating(false); // Reset creation mode when done
+            // Keep the phases on screen until the user decides what happens to the partial output
+            if (!awaitingDecision) setIsCreating(false);
         }
-    }, [blueprint, pendingPrompt, addMessage, updatePhase, mountFiles, startDevServer, saveProject]);
+    }, [addMessage, updatePhase, settlePhases, mountFiles, startDevServer, saveProject, takeSnapshot]);
+
+    // Handle approve planning and start code generation
+    const handleApproveAndContinue = useCallback(async () => {
+        if (!blueprint) return;
+        setShowPlanningReview(false);
+        addMessage('thinking', 'Starting code generation from approved plan...');
+
+        // Trigger the SSE generation with the detailedContext
+        await runGeneration(blueprint.detailedContext || pendingPrompt);
+    }, [blueprint, pendingPrompt, addMessage, runGeneration]);
+
+    // Continue an incomplete project once it has been loaded
+    useEffect(() => {
+        if (!pendingResume) return;
+        const resumeFrom = pendingResume;
+        setPendingResume(null);
+
+        setPhases(prev => prev.map(p => ({
+            ...p,
+            status: p.id === 'blueprint' || resumeFrom.checkpoint.completedPhases.some(phase => PHASE_STEP[phase] === p.id) ? 'complete' : 'pending',
+            filesCreated: 0,
+        })));
+        addMessage('thinking', 'Continuing the interrupted generation - only the missing files will be created...');
+        void runGeneration(resumeFrom.checkpoint.prompt, resumeFrom);
+    }, [pendingResume, runGeneration, addMessage]);
+
+    // The files of a stopped generation are already saved as an incomplete project; keep it that way
+    const handleKeepPartial = useCallback(async () => {
+        if (!partialGeneration) return;
+        const { files: partialFiles, projectId: savedId, checkpoint } = partialGeneration;
+
+        setIsSavingPartial(true);
+        const keptId = savedId ?? await saveProject(partialFiles, { status: 'incomplete', generation: checkpoint });
+        if (keptId) {
+            takeSnapshot(partialFiles, 'Partial generation', 'generation', keptId);
+            addMessage('progress', `Kept ${partialFiles.length} generated files as an incomplete project. Open it from your projects to continue generating.`);
+        } else {
+            addMessage('error', 'Could not save the partial project - the files are still in the editor.');
+        }
+        setIsSavingPartial(false);
+        setPartialGeneration(null);
+        setIsCreating(false);
+    }, [partialGeneration, saveProject, takeSnapshot, addMessage]);
+
+    // Drop the files from a stopped generation, and the incomplete project saved so far
+    const handleDiscardPartial = useCallback(async () => {
+        const savedId = partialGeneration?.projectId;
+        setFiles([]);
+        setFileTree([]);
+        setSelectedFile(null);
+        setPhases(prev => prev.map(p => ({ ...p, status: 'pending', filesCreated: 0 })));
+        setPartialGeneration(null);
+        setIsCreating(false);
+        setStatus('idle');
+        setStatusMessage(undefined);
+
+        if (savedId) {
+            setProjectId(null);
+            // The outbox may have created it on the server under a new id in the meantime
+            const currentId = (await getLocalProject(savedId))?.id ?? savedId;
+            if (!isLocalProjectId(currentId)) {
+                await api.projects.remove(currentId).catch(err => console.warn('Could not delete the partial project:', err));
+            }
+            await forgetProject(currentId);
+        }
+        addMessage('progress', 'Discarded the partial output.');
+    }, [partialGeneration, addMessage]);
 
     // Handle reject planning
     const handleRejectPlan = useCallback(() => {
         setShowPlanningReview(false);
         setBlueprint(null);
         setPendingPrompt('');
+        setIsCreating(false);
         setStatus('idle');
         addMessage('progress', 'Plan rejected. Try a different prompt.');
     }, [addMessage]);
 
+    // Restore a snapshot into state, the WebContainer and the saved project
+    const handleRestoreSnapshot = useCallback(async (snapshot: ProjectSnapshot) => {
+        const current = filesRef.current;
+        const restored = snapshot.files.map(f => ({ path: f.path, content: f.content }));
+        const restoredPaths = new Set(restored.map(f => f.path));
+        const changed = restored.filter(f => current.find(c => c.path === f.path)?.content !== f.content);
+        const removed = current.filter(f => !restoredPaths.has(f.path)).map(f => f.path);
+
+        setFiles(restored);
+        setSelectedFile(null);
+        setShowHistory(false);
+
+        if (hasMountedFiles) {
+            for (const path of removed) {
+                await removeFile(path.replace(/^\//, ''));
+            }
+            for (const file of changed) {
+                await updateFile(file.path.replace(/^\//, ''), file.content);
+            }
+        }
+
+        if (projectId) {
+            try {
+                if (changed.length > 0) await queueFilePatch(projectId, changed);
+                if (removed.length > 0) await queueFileDeletion(projectId, removed);
+            } catch (err) {
+                console.error('❌ Failed to save restored version:', err);
+            }
+        }
+
+        takeSnapshot(restored, `Restored "${snapshot.label}"`, 'restore');
+        addMessage('success', `⏪ Restored version: ${snapshot.label}`);
+    }, [hasMountedFiles, removeFile, updateFile, projectId, takeSnapshot, addMessage]);
+
+    // Settle a sync conflict; taking the server copy also updates state and the WebContainer
+    const handleResolveConflict = useCallback(async (path: string, keep: 'local' | 'server') => {
+        const resolved = await sync.resolveConflict(path, keep);
+        if (!resolved) return;
+
+        if (keep === 'server') {
+            setFiles(prev => withFile(prev, resolved.path, resolved.content));
+            if (selectedFile?.path === resolved.path) {
+                setSelectedFile(prev => prev ? { ...prev, content: resolved.content } : prev);
+            }
+            if (isRunning) {
+                await updateFile(resolved.path.replace(/^\//, ''), resolved.content);
+            }
+        }
+        if (sync.conflicts.length <= 1) setShowConflicts(false);
+    }, [sync, selectedFile?.path, isRunning, updateFile]);
+
     // Handle file select
     const handleSelectFile = useCallback((file: FileNode) => {
         if (file.type === 'file') {
@@ -940,6 +1399,43 @@ export const AgentBuilder: React.FC = () => {
         }
     }, [files]);
 
+    // Show the file a diagnostic points at (PreviewPanel moves the cursor to its line)
+    const handleOpenDiagnostic = useCallback((diagnostic: Diagnostic) => {
+        const file = files.find(f => f.path === diagnostic.file);
+        if (!file) return;
+        setSelectedFile({
+            name: file.path.split('/').pop() || file.path,
+            path: file.path,
+            type: 'file',
+            content: file.content
+        });
+    }, [files]);
+
+    // Inspect mode in the preview: a picked element ends it and becomes chat context
+    // The frame that ended inspect mode turned itself off; side-by-side frames need telling too
+    useEffect(() => previewChannel.subscribe(message => {
+        if (message.type === 'element-selected') {
+            const { file, ...element } = message.payload;
+            setSelectedElement({ ...element, file: file ? toProjectPath(file) : undefined });
+            setIsInspecting(false);
+            previewChannel.post('inspect', { enabled: false });
+        } else if (message.type === 'inspect-cancelled') {
+            setIsInspecting(false);
+            previewChannel.post('inspect', { enabled: false });
+        }
+    }), [previewChannel]);
+
+    // A new preview session starts without inspect mode
+    useEffect(() => {
+        setIsInspecting(false);
+    }, [wcPreviewUrl]);
+
+    const handleToggleInspect = useCallback(() => {
+        const enabled = !isInspecting;
+        // Only enter inspect mode once the preview has acknowledged the channel
+        if (previewChannel.post('inspect', { enabled }) || !enabled) setIsInspecting(enabled);
+    }, [isInspecting, previewChannel]);
+
     // Handle download
     const handleDownload = useCallback(async () => {
         if (files.length === 0) return;
@@ -990,13 +1486,59 @@ export const AgentBuilder: React.FC = () => {
                                 <span className="hidden md:inline">Auto-fixing...</span>
                             </span>
                         )}
-                        {fixCount > 0 && (
-                            <span className="px-2 py-1 bg-amber-500/10 rounded-full text-amber-400">
+                        {fixLog.length > 0 && (
+                            <button
+                                onClick={() => {
+                                    setShowHistory(false);
+                                    setShowFixLog(prev => !prev);
+                                }}
+                                className={`px-2 py-1 rounded-full transition-colors ${fixBudgetLeft === 0 || unfixableFiles.length > 0
+                                    ? 'bg-red-500/10 text-red-400 hover:bg-red-500/20'
+                                    : 'bg-amber-500/10 text-amber-400 hover:bg-amber-500/20'
+                                    }`}
+                                title={`${fixBudgetLeft} of ${FIX_BUDGET_PER_PROJECT} auto-fix attempts left`}
+                            >
                                 {fixCount} {fixCount === 1 ? 'fix' : 'fixes'}
-                            </span>
+                            </button>
                         )}
                     </div>
 
+                    {projectId && (
+                        <SyncStatusBadge
+                            status={sync.status}
+                            pending={sync.pending}
+                            error={sync.lastError}
+                            compact
+                            onClick={sync.status === 'conflict'
+                                ? () => setShowConflicts(true)
+                                : sync.status === 'offline' ? () => { void sync.retryNow(); } : undefined}
+                        />
+                    )}
+
+                    <button
+                        onClick={() => setAskBeforeFixing(prev => !prev)}
+                        className={`flex items-center gap-1.5 md:gap-2 px-2 md:px-3 py-1.5 rounded-lg text-xs md:text-sm transition-all ${askBeforeFixing
+                            ? 'bg-amber-500/10 text-amber-400 hover:bg-amber-500/20'
+                            : 'bg-white/5 text-gray-300 hover:bg-white/10 hover:text-white'
+                            }`}
+                        title={askBeforeFixing ? 'Auto-fixes wait for your review' : 'Auto-fixes are applied immediately'}
+                    >
+                        <GitCompare className="w-4 h-4" />
+                        <span className="hidden lg:inline">Ask before fixing</span>
+                    </button>
+
+                    <button
+                        onClick={() => {
+                            setShowFixLog(false);
+                            setShowHistory(prev => !prev);
+                        }}
+                        disabled={!projectId}
+                        className="flex items-center gap-1.5 md:gap-2 px-2 md:px-3 py-1.5 bg-white/5 hover:bg-white/10 rounded-lg text-xs md:text-sm text-gray-300 hover:text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <History className="w-4 h-4" />
+                        <span className="hidden sm:inline">History</span>
+                    </button>
+
                     <button
                         onClick={() => navigate('/projects')}
                         className="flex items-center gap-1.5 md:gap-2 px-2 md:px-3 py-1.5 bg-white/5 hover:bg-white/10 rounded-lg text-xs md:text-sm text-gray-300 hover:text-white transition-all"
@@ -1018,6 +1560,74 @@ export const AgentBuilder: React.FC = () => {
                 />
             )}
 
+            {/* Diff Review Overlay */}
+            {review && (
+                <DiffReview
+                    key={review.id}
+                    title={review.title}
+                    description={review.description}
+                    changes={review.changes}
+                    onApply={closeReview}
+                    onCancel={() => closeReview(null)}
+                />
+            )}
+
+            {/* Partial Generation Overlay */}
+            {partialGeneration && (
+                <PartialGenerationDialog
+                    files={partialGeneration.files}
+                    reason={partialGeneration.reason}
+                    isSaving={isSavingPartial}
+                    onKeep={handleKeepPartial}
+                    onDiscard={handleDiscardPartial}
+                />
+            )}
+
+            {/* Sync Conflict Overlay */}
+            {showConflicts && sync.conflicts.length > 0 && (
+                <SyncConflictDialog
+                    conflicts={sync.conflicts}
+                    onResolve={handleResolveConflict}
+                    onClose={() => setShowConflicts(false)}
+                />
+            )}
+
+            {/* Fix Log Panel */}
+            {showFixLog && (
+                <FixLogPanel
+                    entries={fixLog}
+                    budget={FIX_BUDGET_PER_PROJECT}
+                    remaining={fixBudgetLeft}
+                    unfixable={unfixableFiles}
+                    onRetryFile={retryFixFile}
+                    onClose={() => setShowFixLog(false)}
+                />
+            )}
+
+            {/* Version History Panel */}
+            {showHistory && (
+                <VersionHistoryPanel
+                    projectId={projectId}
+                    refreshKey={historyVersion}
+                    onRestore={handleRestoreSnapshot}
+                    onCompare={(before, after) => setVisualDiff({ before, after })}
+                    onClose={() => setShowHistory(false)}
+                />
+            )}
+
+            {visualDiff && (
+                <VisualDiffDialog
+                    before={visualDiff.before}
+                    after={visualDiff.after}
+                    onClose={() => setVisualDiff(null)}
+                />
+            )}
+
+            {/* Screenshot Frames - loaded only while a capture runs */}
+            {wcPreviewUrl && captureViewports && (
+                <ScreenshotFrames src={wcPreviewUrl} viewports={captureViewports} />
+            )}
+
             {/* Main Content */}
             <div className="flex-1 flex flex-col overflow-hidden">
                 {/* Mobile Panel Toggle */}
@@ -1062,6 +1672,9 @@ export const AgentBuilder: React.FC = () => {
                             onStop={handleStop}
                             isProcessing={isProcessing}
                             isCreating={isCreating}
+                            selectedElement={selectedElement}
+                            onClearSelectedElement={() => setSelectedElement(null)}
+                            viewport={previewViewport}
                         />
                     </div>
 
@@ -1080,17 +1693,35 @@ export const AgentBuilder: React.FC = () => {
                             terminalOutput={terminalOutput}
                             isInstalling={isInstalling}
                             isBooting={isBooting}
+                            diagnostics={diagnostics}
+                            isCheckingDiagnostics={isCheckingDiagnostics}
+                            onRunDiagnostics={runDiagnostics}
+                            onOpenDiagnostic={handleOpenDiagnostic}
+                            telemetry={previewTelemetry}
+                            onClearTelemetry={clearPreviewTelemetry}
+                            isInspecting={isInspecting}
+                            onToggleInspect={wcPreviewUrl ? handleToggleInspect : undefined}
+                            onViewportChange={setPreviewViewport}
+                            previewPath={previewPath}
+                            routes={routes}
+                            onNavigate={wcPreviewUrl ? navigatePreview : undefined}
                         />
                     </div>
                 </div>
 
-                {/* Terminal Panel - Bottom - COMMENTED OUT */}
-                {/* <WebContainerTerminal
-                    terminalOutput={terminalOutput}
-                    onCommand={runCommand}
+                {/* Terminal Panel - Bottom, one tab per process */}
+                <WebContainerTerminal
+                    outputLines={outputLines}
+                    outputCapacity={outputCapacity}
+                    onCapacityChange={setOutputCapacity}
+                    processes={processes}
+                    onOpenShell={startShell}
+                    onAttach={attachProcess}
+                    onInput={writeToProcess}
+                    onResize={resizeProcess}
                     onKill={killProcess}
-                    isRunning={isRunning}
-                /> */}
+                    onRemove={removeProcess}
+                />
             </div>
         </div>
     );
@@ -6,14 +6,66 @@ import { TabView } from '../components/TabView';
 import { CodeEditor } from '../components/CodeEditor';
 import { PreviewFrame } from '../components/PreviewFrame';
 import { Step, FileItem, StepType } from '../hooks/types';
-import axios from 'axios';
-import { BACKEND_URL } from '../config';
-import { parseXml } from '../steps';
+import { api, type GenerationOptions } from '../utils/api';
+import type { GenerationResponse } from '../types/api.types';
+import { createStreamingXmlParser, parseXml } from '../steps';
+import { createJsonStringFieldReader } from '../utils/jsonStream';
+import { applySearchReplace } from '../utils/patch';
 import { useWebContainer } from '../hooks/useWebContainer';
 import { Loader } from '../components/Loader';
 import { Sparkles, Code2, Eye } from 'lucide-react';
 import { DownloadButton } from '../components/DownloadButton';
 
+// Insert or update a file in the tree, creating any missing parent folders
+function writeFileToTree(items: FileItem[], filePath: string, content: string): FileItem[] {
+  const write = (nodes: FileItem[], parts: string[], parentPath: string): FileItem[] => {
+    const [name, ...rest] = parts;
+    const path = `${parentPath}/${name}`;
+    const existing = nodes.find(x => x.path === path);
+
+    if (!rest.length) {
+      if (existing) {
+        return nodes.map(x => x === existing ? { ...x, content } : x);
+      }
+      return [...nodes, { name, type: 'file', path, content }];
+    }
+
+    const folder: FileItem = existing ?? { name, type: 'folder', path, children: [] };
+    const updatedFolder = { ...folder, children: write(folder.children ?? [], rest, path) };
+    return existing
+      ? nodes.map(x => x === existing ? updatedFolder : x)
+      : [...nodes, updatedFolder];
+  };
+
+  const parts = filePath.split('/').filter(Boolean);
+  return parts.length ? write(items, parts, '') : items;
+}
+
+// Look up a file in the tree by its step path (with or without a leading slash)
+function findFileInTree(items: FileItem[], filePath: string): FileItem | undefined {
+  const path = '/' + filePath.split('/').filter(Boolean).join('/');
+  for (const item of items) {
+    if (item.type === 'file' && item.path === path) return item;
+    if (item.type === 'folder' && item.children && path.startsWith(item.path + '/')) {
+      const found = findFileInTree(item.children, filePath);
+      if (found) return found;
+    }
+  }
+  return undefined;
+}
+
+// Remove a file from the tree, dropping any folders it leaves empty
+function removeFileFromTree(items: FileItem[], filePath: string): FileItem[] {
+  const path = '/' + filePath.split('/').filter(Boolean).join('/');
+  return items.flatMap(item => {
+    if (item.type === 'file') return item.path === path ? [] : [item];
+    if (!item.children || !path.startsWith(item.path + '/')) return [item];
+
+    const children = removeFileFromTree(item.children, filePath);
+    return children.length ? [{ ...item, children }] : [];
+  });
+}
+
 export function Builder() {
   const location = useLocation();
   const navigate = useNavigate();
@@ -60,60 +112,87 @@ export function Builder() {
     });
   }, [selectedFile]);
 
+  // Append parsed steps after the existing ones, keeping ids unique
+  const appendSteps = useCallback((newSteps: Step[]) => {
+    setSteps(s => {
+      const maxId = s.length > 0 ? Math.max(...s.map(step => step.id)) : 0;
+      return [...s, ...newSteps.map((x, idx) => ({
+        ...x,
+        id: maxId + idx + 1,
+        status: "pending" as "pending"
+      }))];
+    });
+  }, []);
+
+  // Call a generation endpoint and stream the chirArtifact response into steps and files
+  // as it downloads, so the file tree fills in before the whole reply has landed
+  async function streamGeneration(generate: (options: GenerationOptions) => Promise<GenerationResponse>): Promise<string> {
+    const responseField = createJsonStringFieldReader('response');
+    const parser = createStreamingXmlParser({
+      onStep: step => appendSteps([step]),
+      onFileProgress: (path, partialContent) => {
+        setFiles(prev => writeFileToTree(prev, path, partialContent));
+      }
+    });
+    let received = 0;
+
+    // The client validates the body, so `data.response` is always a string here
+    const data = await generate({
+      onProgress: (text) => {
+        parser.push(responseField.push(text.slice(received)));
+        received = text.length;
+      }
+    });
+
+    // Feed whatever the progress events did not deliver (e.g. no XHR progress support)
+    const newSteps = [
+      ...parser.push(data.response.slice(responseField.decodedLength)),
+      ...parser.end()
+    ];
+    if (responseField.decodedLength === 0 && newSteps.length === 0) {
+      console.warn('⚠️ No steps were parsed from the response');
+    }
+
+    return data.response;
+  }
+
   useEffect(() => {
-    let originalFiles = [...files];
-    let updateHappened = false;
-    steps.filter(({ status }) => status === "pending").map(step => {
-      updateHappened = true;
-      if (step?.type === StepType.CreateFile) {
-        let parsedPath = step.path?.split("/") ?? [];
-        let currentFileStructure = [...originalFiles];
-        let finalAnswerRef = currentFileStructure;
-
-        let currentFolder = ""
-        while (parsedPath.length) {
-          currentFolder = `${currentFolder}/${parsedPath[0]}`;
-          let currentFolderName = parsedPath[0];
-          parsedPath = parsedPath.slice(1);
-
-          if (!parsedPath.length) {
-            let file = currentFileStructure.find(x => x.path === currentFolder)
-            if (!file) {
-              currentFileStructure.push({
-                name: currentFolderName,
-                type: 'file',
-                path: currentFolder,
-                content: step.code
-              })
-            } else {
-              file.content = step.code;
-            }
-          } else {
-            let folder = currentFileStructure.find(x => x.path === currentFolder)
-            if (!folder) {
-              currentFileStructure.push({
-                name: currentFolderName,
-                type: 'folder',
-                path: currentFolder,
-                children: []
-              })
-            }
+    const pendingSteps = steps.filter(({ status }) => status === "pending");
+    if (!pendingSteps.length) return;
+
+    let updatedFiles = files;
+    pendingSteps.forEach(step => {
+      if (!step.path) return;
+
+      if (step.type === StepType.CreateFile) {
+        updatedFiles = writeFileToTree(updatedFiles, step.path, step.code ?? '');
+      } else if (step.type === StepType.EditFile) {
+        const file = findFileInTree(updatedFiles, step.path);
+        if (!file) {
+          console.warn(`⚠️ Cannot edit missing file: ${step.path}`);
+          return;
+        }
 
-            currentFileStructure = currentFileStructure.find(x => x.path === currentFolder)!.children!;
-          }
+        const { content, failed } = applySearchReplace(file.content ?? '', step.edits ?? []);
+        if (failed.length > 0) {
+          console.warn(`⚠️ ${failed.length} edit(s) did not match in ${step.path}:`, failed);
         }
-        originalFiles = finalAnswerRef;
+        updatedFiles = writeFileToTree(updatedFiles, step.path, content);
+        webcontainer.updateFile(step.path.replace(/^\//, ''), content);
+      } else if (step.type === StepType.DeleteFile) {
+        updatedFiles = removeFileFromTree(updatedFiles, step.path);
+        webcontainer.removeFile(step.path.replace(/^\//, ''));
       }
-    })
-
-    if (updateHappened) {
-      setFiles(originalFiles)
-      setSteps(steps => steps.map((s: Step) => ({
-        ...s,
-        status: "completed"
-      })))
-    }
-  }, [steps, files]);
+    });
+
+    // Only complete the steps handled here; more may have streamed in meanwhile
+    const handledIds = new Set(pendingSteps.map(step => step.id));
+    setFiles(updatedFiles);
+    setSteps(steps => steps.map((s: Step) => handledIds.has(s.id) ? {
+      ...s,
+      status: "completed"
+    } : s));
+  }, [steps, files, webcontainer]);
 
   useEffect(() => {
     const createMountStructure = (files: FileItem[]): Record<string, any> => {
@@ -171,7 +250,7 @@ export function Builder() {
         // TEST: Call separate build endpoint (no backend context sharing)
         const projectId = `project_${Date.now()}`;
         console.log('[Builder] 🧪 TESTING SEPARATE GENERATION (no backend context)');
-        const fullstackResponse = await axios.post(`${BACKEND_URL}/build/fullstack-complete`, {
+        const fullstackResponse = await api.buildFullstack({
           backendContext: blueprint.backendContext,
           frontendContext: blueprint.frontendContext,
           projectId: projectId
@@ -180,8 +259,8 @@ export function Builder() {
         setLoading(false);
 
         // Parse backend code
-        const backendCode = fullstackResponse.data.backend;
-        const frontendCode = fullstackResponse.data.frontend;
+        const backendCode = fullstackResponse.backend;
+        const frontendCode = fullstackResponse.frontend;
 
         console.log('[Builder] Backend code received:', backendCode?.length || 0, 'chars');
         console.log('[Builder] Frontend code received:', frontendCode?.length || 0, 'chars');
@@ -270,14 +349,12 @@ export function Builder() {
         console.log('[Builder] Sending to /template:', templatePrompt.substring(0, 100) + '...');
         console.log('[Builder] Project type:', projectTypeForTemplate);
 
-        const response = await axios.post(`${BACKEND_URL}/template`, {
+        const { prompts, uiPrompts } = await api.template({
           prompt: templatePrompt,
           projectType: projectTypeForTemplate
         });
         setTemplateSet(true);
 
-        const { prompts, uiPrompts } = response.data;
-
         setSteps(parseXml(uiPrompts[0]).map((x: Step) => ({
           ...x,
           status: "pending"
@@ -285,56 +362,34 @@ export function Builder() {
 
         setLoading(true);
 
-        let stepsResponse;
+        let generatedResponse: string;
 
         if (useLangGraphMode) {
           // Use LangGraph-based generation with state management
           console.log('[Builder] 🚀 Using LANGGRAPH generation mode');
-          stepsResponse = await axios.post(`${BACKEND_URL}/chat/langgraph`, {
+          generatedResponse = await streamGeneration(options => api.chatLangGraph({
             prompt: prompt,
             projectType: projectTypeForTemplate
-          });
+          }, options));
         } else {
           // OLD: Use single-call generation
           console.log('[Builder] Using standard generation mode');
-          stepsResponse = await axios.post(`${BACKEND_URL}/chat`, {
+          generatedResponse = await streamGeneration(options => api.chat({
             messages: [...prompts, prompt].map(content => ({
               role: "user",
               content
             }))
-          });
+          }, options));
         }
 
         setLoading(false);
 
-        // Validate backend response
-        if (!stepsResponse.data || !stepsResponse.data.response) {
-          console.error('❌ Backend returned invalid response:', stepsResponse.data);
-          throw new Error('Backend did not return a valid response. Please check backend logs.');
-        }
-
-        setSteps(s => {
-          const newSteps = parseXml(stepsResponse.data.response);
-
-          // Check if parseXml returned any steps
-          if (newSteps.length === 0) {
-            console.warn('⚠️ No steps were parsed from the response');
-          }
-
-          const maxId = s.length > 0 ? Math.max(...s.map(step => step.id)) : 0;
-          return [...s, ...newSteps.map((x, idx) => ({
-            ...x,
-            id: maxId + idx + 1,
-            status: "pending" as "pending"
-          }))];
-        });
-
         setLlmMessages([...prompts, prompt].map(content => ({
           role: "user",
           content
         })));
 
-        setLlmMessages(x => [...x, { role: "assistant", content: stepsResponse.data.response }]);
+        setLlmMessages(x => [...x, { role: "assistant", content: generatedResponse }]);
       }
     } catch (error: any) {
       console.error('❌ Error generating website:', error);
@@ -434,25 +489,15 @@ export function Builder() {
 
                           setLoading(true);
                           try {
-                            const stepsResponse = await axios.post(`${BACKEND_URL}/chat`, {
+                            const generatedResponse = await streamGeneration(options => api.chat({
                               messages: [...llmMessages, newMessage]
-                            });
+                            }, options));
 
                             setLlmMessages(x => [...x, newMessage]);
                             setLlmMessages(x => [...x, {
                               role: "assistant",
-                              content: stepsResponse.data.response
+                              content: generatedResponse
                             }]);
-
-                            setSteps(s => {
-                              const newSteps = parseXml(stepsResponse.data.response);
-                              const maxId = s.length > 0 ? Math.max(...s.map(step => step.id)) : 0;
-                              return [...s, ...newSteps.map((x, idx) => ({
-                                ...x,
-                                id: maxId + idx + 1,
-                                status: "pending" as "pending"
-                              }))];
-                            });
                           } catch (error) {
                             console.error("Failed to generate response:", error);
                           } finally {
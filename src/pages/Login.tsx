@@ -1,11 +1,10 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { Mail, Lock, LogIn, Loader2 } from 'lucide-react';
-import axios from 'axios';
 import { ToastContainer, toast } from 'react-toastify';
 import 'react-toastify/dist/ReactToastify.css';
 import { useAuth } from '../components/context/AuthContext';
-import { BACKEND_URL, AUTH_BACKEND_URL } from '../config';
+import { api, ApiError } from '../utils/api';
 import LoadingOverlay from '../components/LoadingOverlay';
 import { GoogleLogo } from '../components/googllogo';
 
@@ -40,30 +39,19 @@ const Login = () => {
     setShowColdStartMessage(true);
 
     try {
-      const response = await axios.post(
-        `${BACKEND_URL}/auth/login`,
-        formData,
-        {
-          headers: { 'Content-Type': 'application/json' },
-        }
-      );
-
-      if (response.status === 200) {
-        const { token, user } = response.data;
-        localStorage.setItem('token', token);
-        localStorage.setItem('user', JSON.stringify(user));
-        axios.defaults.headers.common['Authorization'] = `Bearer ${token}`;
+      const { token, user } = await api.auth.login(formData);
+      localStorage.setItem('token', token);
+      localStorage.setItem('user', JSON.stringify(user));
 
-        await login(user, token); // Ensure login is awaited
-        toast.success('Login successful!', { autoClose: 2000 });
+      await login(user, token); // Ensure login is awaited
+      toast.success('Login successful!', { autoClose: 2000 });
 
-        setTimeout(() => {
-          navigate('/agent', { replace: true });
-        }, 500);
-      }
-    } catch (error: any) {
+      setTimeout(() => {
+        navigate('/agent', { replace: true });
+      }, 500);
+    } catch (error) {
       toast.error(
-        error.response?.data?.message || 'Login failed. Please try again.'
+        error instanceof ApiError && error.kind === 'http' ? error.message : 'Login failed. Please try again.'
       );
     } finally {
       setLoading(false);
@@ -80,7 +68,7 @@ const Login = () => {
     localStorage.setItem('googleAuthInProgress', 'true');
 
     // Redirect to Google auth endpoint
-    window.location.href = `${AUTH_BACKEND_URL}/auth/google`;
+    window.location.href = api.auth.googleSignInUrl();
   };
 
   return (
@@ -1,8 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { Sparkles, Loader2, Check, X, ArrowRight } from 'lucide-react';
-import axios from 'axios';
-import { BACKEND_URL } from '../config';
+import { api } from '../utils/api';
 import type { ProjectBlueprint } from '../types/planning.types';
 import WorkflowCanvas from '../components/planning/WorkflowCanvas';
 
@@ -36,20 +35,20 @@ export function Planning() {
         setError(null);
 
         try {
-          const response = await axios.post(`${BACKEND_URL}/planning`, {
+          const planning = await api.planning({
             requirements: promptText.trim(),
             projectType: typeFromSelection
           });
 
-          if (response.data.success && response.data.data?.blueprint) {
-            setBlueprint(response.data.data.blueprint);
+          if (planning.success && planning.data?.blueprint) {
+            setBlueprint(planning.data.blueprint);
             setState('review');
           } else {
-            setError(response.data.error || 'Failed to generate plan');
+            setError(planning.error || 'Failed to generate plan');
             setState('input');
           }
-        } catch (err: any) {
-          setError(err.response?.data?.error || err.message || 'Failed to generate plan');
+        } catch (err) {
+          setError(err instanceof Error && err.message ? err.message : 'Failed to generate plan');
           setState('input');
         }
       }
@@ -66,20 +65,20 @@ export function Planning() {
     setError(null);
 
     try {
-      const response = await axios.post(`${BACKEND_URL}/planning`, {
+      const planning = await api.planning({
         requirements: requirements.trim(),
         projectType: projectType
       });
 
-      if (response.data.success && response.data.data?.blueprint) {
-        setBlueprint(response.data.data.blueprint);
+      if (planning.success && planning.data?.blueprint) {
+        setBlueprint(planning.data.blueprint);
         setState('review');
       } else {
-        setError(response.data.error || 'Failed to generate plan');
+        setError(planning.error || 'Failed to generate plan');
         setState('input');
       }
-    } catch (err: any) {
-      setError(err.response?.data?.error || err.message || 'Failed to generate plan');
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : 'Failed to generate plan');
       setState('input');
     }
   };
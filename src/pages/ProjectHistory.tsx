@@ -4,8 +4,11 @@
 
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import axios from 'axios';
-import { BACKEND_URL } from '../config';
+import { api } from '../utils/api';
+import { SyncStatusBadge } from '../components/agent/SyncStatusBadge';
+import { forgetProject, isLocalProjectId, listLocalProjects, startBackgroundSync, subscribe } from '../utils/projectStore';
+import type { LocalProject, SyncStatus } from '../types/project.types';
+import type { ProjectSummary } from '../types/api.types';
 import {
     ArrowLeft,
     FolderOpen,
@@ -17,21 +20,24 @@ import {
     Calendar
 } from 'lucide-react';
 
-interface ProjectSummary {
-    _id: string;
-    name: string;
-    prompt: string;
-    fileCount: number;
-    status: string;
-    createdAt: string;
-    updatedAt: string;
-}
+
+// Projects that only exist locally so far (created while the backend was down)
+const toSummary = (project: LocalProject): ProjectSummary => ({
+    _id: project.id,
+    name: project.name ?? 'Untitled project',
+    prompt: project.prompt ?? '',
+    fileCount: project.files.length,
+    status: project.status ?? 'complete',
+    createdAt: new Date(project.updatedAt).toISOString(),
+    updatedAt: new Date(project.updatedAt).toISOString(),
+});
 
 export const ProjectHistory: React.FC = () => {
     const navigate = useNavigate();
     const [projects, setProjects] = useState<ProjectSummary[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    const [syncStatuses, setSyncStatuses] = useState<Record<string, SyncStatus>>({});
 
     // Get or create session ID
     const getSessionId = () => {
@@ -59,24 +65,52 @@ export const ProjectHistory: React.FC = () => {
         fetchProjects();
     }, []);
 
+    // Keep the outbox flushing while this page is open and reflect its progress
+    useEffect(() => {
+        const stopSync = startBackgroundSync();
+        const unsubscribe = subscribe(event => {
+            if (event.type === 'status') {
+                setSyncStatuses(prev => ({ ...prev, [event.projectId]: event.status }));
+            } else {
+                setProjects(prev => prev.map(p => p._id === event.from ? { ...p, _id: event.to } : p));
+            }
+        });
+        return () => {
+            unsubscribe();
+            stopSync();
+        };
+    }, []);
+
+    const loadLocalProjects = async () => {
+        try {
+            return await listLocalProjects();
+        } catch (err) {
+            console.error('Failed to read local projects:', err);
+            return [];
+        }
+    };
+
     const fetchProjects = async () => {
         try {
             setLoading(true);
             const userId = getUserId();
-            const sessionId = getSessionId();
-            const token = localStorage.getItem('token');
+            const query = userId ? { userId } : { sessionId: getSessionId() };
 
-            const queryParams = userId
-                ? `userId=${userId}`
-                : `sessionId=${sessionId}`;
+            const localProjects = await loadLocalProjects();
+            setSyncStatuses(Object.fromEntries(localProjects.map(p => [p.id, p.syncStatus])));
 
-            const headers: Record<string, string> = {};
-            if (token) {
-                headers['Authorization'] = `Bearer ${token}`;
+            try {
+                const serverProjects = await api.projects.list(query);
+                const localOnly = localProjects.filter(p => isLocalProjectId(p.id)).map(toSummary);
+                // A generation's progress may not have reached the server yet
+                const unsynced = new Map(localProjects.filter(p => p.syncStatus !== 'synced').map(p => [p.id, p]));
+                const merged = serverProjects.map(p => ({ ...p, status: unsynced.get(p._id)?.status ?? p.status }));
+                setProjects([...localOnly, ...merged]);
+            } catch (err) {
+                // Backend down - fall back to whatever is stored locally
+                if (localProjects.length === 0) throw err;
+                setProjects(localProjects.map(toSummary));
             }
-
-            const response = await axios.get(`${BACKEND_URL}/api/projects?${queryParams}`, { headers });
-            setProjects(response.data.projects || []);
         } catch (err: any) {
             setError(err.message || 'Failed to load projects');
         } finally {
@@ -93,7 +127,10 @@ export const ProjectHistory: React.FC = () => {
         if (!confirm('Delete this project?')) return;
 
         try {
-            await axios.delete(`${BACKEND_URL}/api/projects/${projectId}`);
+            if (!isLocalProjectId(projectId)) {
+                await api.projects.remove(projectId);
+            }
+            await forgetProject(projectId);
             setProjects(prev => prev.filter(p => p._id !== projectId));
         } catch (err) {
             console.error('Failed to delete project:', err);
@@ -199,16 +236,22 @@ export const ProjectHistory: React.FC = () => {
                                 </div>
 
                                 {/* Status Badge */}
-                                <div className="mt-3">
+                                <div className="mt-3 flex items-center gap-2">
                                     <span className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs border ${project.status === 'complete'
                                         ? 'bg-amber-500/10 text-amber-300/80 border-amber-500/20'
-                                        : project.status === 'generating'
+                                        : project.status === 'generating' || project.status === 'incomplete'
                                             ? 'bg-yellow-500/10 text-yellow-300/80 border-yellow-500/20'
                                             : 'bg-red-500/10 text-red-300/80 border-red-500/20'
                                         }`}>
                                         <Clock size={12} />
                                         {project.status}
                                     </span>
+                                    {project.status === 'incomplete' && (
+                                        <span className="text-xs text-gray-500">Open to continue generating</span>
+                                    )}
+                                    {syncStatuses[project._id] && syncStatuses[project._id] !== 'synced' && (
+                                        <SyncStatusBadge status={syncStatuses[project._id]} />
+                                    )}
                                 </div>
                             </div>
                         ))}
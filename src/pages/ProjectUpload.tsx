@@ -4,8 +4,7 @@
 
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import axios from 'axios';
-import { BACKEND_URL } from '../config';
+import { api } from '../utils/api';
 import {
     ArrowLeft,
     Upload,
@@ -58,32 +57,20 @@ export const ProjectUpload: React.FC = () => {
             setUploading(true);
 
             try {
-                const formData = new FormData();
-                formData.append('zipFile', file);
-                if (userId) {
-                    formData.append('userId', userId);
-                }
-
-                const response = await axios.post(
-                    `${BACKEND_URL}/api/projects/upload`,
-                    formData,
-                    {
-                        headers: { 'Content-Type': 'multipart/form-data' }
-                    }
-                );
+                const uploaded = await api.projects.upload(file, userId);
 
                 setResults(prev => [...prev, {
                     success: true,
-                    projectId: response.data.projectId,
-                    name: response.data.name,
-                    description: response.data.description,
-                    fileCount: response.data.fileCount
+                    projectId: uploaded.projectId,
+                    name: uploaded.name,
+                    description: uploaded.description,
+                    fileCount: uploaded.fileCount
                 }]);
 
-            } catch (err: any) {
+            } catch (err) {
                 setResults(prev => [...prev, {
                     success: false,
-                    error: `${file.name}: ${err.response?.data?.error || err.message}`
+                    error: `${file.name}: ${err instanceof Error ? err.message : String(err)}`
                 }]);
             }
 
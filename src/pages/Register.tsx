@@ -1,10 +1,9 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { Mail, Lock, User, UserPlus, Loader2 } from 'lucide-react';
-import axios from 'axios';
 import { ToastContainer, toast } from 'react-toastify';
 import 'react-toastify/dist/ReactToastify.css';
-import { BACKEND_URL, AUTH_BACKEND_URL } from '../config';
+import { api, ApiError } from '../utils/api';
 import LoadingOverlay from '../components/LoadingOverlay';
 import { GoogleLogo } from '../components/googllogo';
 import { useAuth } from '../components/context/AuthContext';
@@ -41,30 +40,19 @@ const Register = () => {
     setShowColdStartMessage(true);
 
     try {
-      const response = await axios.post(
-        `${BACKEND_URL}/auth/signup`,
-        formData,
-        {
-          headers: { 'Content-Type': 'application/json' },
-        }
-      );
-
-      if (response.status === 201) {
-        const { token, user } = response.data;
-        localStorage.setItem('token', token);
-        localStorage.setItem('user', JSON.stringify(user));
-        axios.defaults.headers.common['Authorization'] = `Bearer ${token}`;
+      const { token, user } = await api.auth.signup(formData);
+      localStorage.setItem('token', token);
+      localStorage.setItem('user', JSON.stringify(user));
 
-        await login(user, token); // Ensure this is awaited
-        toast.success('Registered Successfully!', { autoClose: 2000 });
+      await login(user, token); // Ensure this is awaited
+      toast.success('Registered Successfully!', { autoClose: 2000 });
 
-        setTimeout(() => {
-          navigate('/agent', { replace: true });
-        }, 500);
-      }
-    } catch (error: any) {
+      setTimeout(() => {
+        navigate('/agent', { replace: true });
+      }, 500);
+    } catch (error) {
       toast.error(
-        error.response?.data?.message || 'Registration failed. Please try again.'
+        error instanceof ApiError && error.kind === 'http' ? error.message : 'Registration failed. Please try again.'
       );
     } finally {
       setLoading(false);
@@ -80,7 +68,7 @@ const Register = () => {
     localStorage.setItem('googleAuthInProgress', 'true');
 
     // Redirect to Google auth endpoint
-    window.location.href = `${AUTH_BACKEND_URL}/auth/google`;
+    window.location.href = api.auth.googleSignInUrl();
   };
 
   return (
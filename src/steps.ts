@@ -1,8 +1,364 @@
 import { Step, StepType } from './hooks/types';
+import { parseSearchReplaceBlocks } from './utils/patch';
+
+const ARTIFACT_OPEN = '<chirArtifact';
+const ARTIFACT_CLOSE = '</chirArtifact>';
+const ACTION_OPEN = '<chirAction';
+const ACTION_CLOSE = '</chirAction>';
+const CDATA_OPEN = '<![CDATA[';
+const CDATA_CLOSE = ']]>';
+
+export interface StreamingParserHandlers {
+  // Called once for every step as soon as its tag is complete
+  onStep?: (step: Step) => void;
+  // Called with the content received so far for a file action that is still open
+  onFileProgress?: (path: string, partialContent: string) => void;
+}
+
+export interface StreamingXmlParser {
+  // Feed the next chunk of the response; returns the steps completed by it
+  push: (chunk: string) => Step[];
+  // Signal the end of the response; an unterminated action is dropped
+  end: () => Step[];
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+const ESCAPED_MARKUP = /&(lt|gt|quot);/;
+const BARE_AMPERSAND = /&(?!#x[0-9a-fA-F]+;|#\d+;|[a-zA-Z]+;)/;
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (entity, name: string) => {
+    if (name[0] === '#') {
+      const codePoint = name[1] === 'x' || name[1] === 'X'
+        ? parseInt(name.slice(2), 16)
+        : parseInt(name.slice(1), 10);
+      return Number.isNaN(codePoint) ? entity : String.fromCodePoint(codePoint);
+    }
+    return NAMED_ENTITIES[name] ?? entity;
+  });
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const attrRegex = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+  let match;
+  while ((match = attrRegex.exec(tag)) !== null) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3] ?? '');
+  }
+
+  return attributes;
+}
+
+// Index of the '>' closing a tag, ignoring any '>' inside quoted attribute values
+function findTagEnd(text: string, from: number): number {
+  let quote: string | null = null;
+  for (let i = from; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '>') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// Index of `name` used as a tag name (not as the prefix of a longer name), or -1
+function findTag(text: string, name: string, from = 0): number {
+  let idx = text.indexOf(name, from);
+  while (idx !== -1) {
+    const next = text[idx + name.length];
+    if (next === undefined || /[\s/>]/.test(next)) return idx;
+    idx = text.indexOf(name, idx + 1);
+  }
+  return -1;
+}
+
+// How many trailing characters of `text` could be the start of one of `tags`
+function partialTagLength(text: string, tags: string[]): number {
+  const longest = Math.max(...tags.map(tag => tag.length));
+  for (let len = Math.min(longest - 1, text.length); len > 0; len--) {
+    const tail = text.slice(text.length - len);
+    if (tags.some(tag => tag.startsWith(tail))) return len;
+  }
+  return 0;
+}
+
+/*
+ * Action bodies are usually raw source, but some models entity-escape them or wrap
+ * them in CDATA. CDATA sections are taken verbatim; everything else is only decoded
+ * when it looks escaped: no raw '<', an escaped '<', '>' or '"' somewhere, and no '&'
+ * that does not start an entity. JSX, CSS or JSON that legitimately contains "&amp;"
+ * survives.
+ */
+function decodeActionContent(raw: string): string {
+  const parts: { text: string; cdata: boolean }[] = [];
+  let rest = raw;
+
+  while (rest.length) {
+    const start = rest.indexOf(CDATA_OPEN);
+    if (start === -1) {
+      parts.push({ text: rest, cdata: false });
+      break;
+    }
+    parts.push({ text: rest.slice(0, start), cdata: false });
+    const end = rest.indexOf(CDATA_CLOSE, start + CDATA_OPEN.length);
+    if (end === -1) {
+      parts.push({ text: rest.slice(start + CDATA_OPEN.length), cdata: true });
+      break;
+    }
+    parts.push({ text: rest.slice(start + CDATA_OPEN.length, end), cdata: true });
+    rest = rest.slice(end + CDATA_CLOSE.length);
+  }
+
+  const plain = parts.filter(part => !part.cdata).map(part => part.text);
+  const escaped = !plain.some(text => text.includes('<')) &&
+    plain.some(text => ESCAPED_MARKUP.test(text)) &&
+    !plain.some(text => BARE_AMPERSAND.test(text));
+  return parts
+    .map(part => (part.cdata || !escaped ? part.text : decodeEntities(part.text)))
+    .join('');
+}
+
+function createActionStep(id: number, attributes: Record<string, string>, content: string): Step | null {
+  const { type, filePath } = attributes;
+
+  if (type === 'file') {
+    // File creation step
+    return {
+      id,
+      title: `Create ${filePath || 'file'}`,
+      description: '',
+      type: StepType.CreateFile,
+      status: 'pending',
+      code: content.trim(),
+      path: filePath
+    };
+  }
+
+  if (type === 'edit') {
+    // In-place edit step made of search/replace hunks
+    return {
+      id,
+      title: `Edit ${filePath || 'file'}`,
+      description: '',
+      type: StepType.EditFile,
+      status: 'pending',
+      path: filePath,
+      edits: parseSearchReplaceBlocks(content)
+    };
+  }
+
+  if (type === 'delete') {
+    // File deletion step
+    return {
+      id,
+      title: `Delete ${filePath || 'file'}`,
+      description: '',
+      type: StepType.DeleteFile,
+      status: 'pending',
+      path: filePath
+    };
+  }
+
+  if (type === 'shell') {
+    // Shell command step
+    return {
+      id,
+      title: 'Run command',
+      description: '',
+      type: StepType.RunScript,
+      status: 'pending',
+      code: content.trim()
+    };
+  }
+
+  return null;
+}
+
+/*
+ * Stateful parser for chirArtifact/chirAction responses that arrive in chunks.
+ * Steps are emitted as soon as each <chirAction> closes, and the content of a file
+ * action that is still streaming is reported through onFileProgress so callers can
+ * show files filling in live. Several artifacts may appear in one response; each
+ * one produces its own CreateFolder step carrying the artifact title.
+ */
+export function createStreamingXmlParser(handlers: StreamingParserHandlers = {}): StreamingXmlParser {
+  let buffer = '';
+  let state: 'outside' | 'artifact' | 'action' = 'outside';
+  let stepId = 1;
+
+  // Current open action
+  let actionAttributes: Record<string, string> = {};
+  let actionContent = '';
+  let inCdata = false;
+  let reportedLength = -1;
+
+  const emit = (step: Step, completed: Step[]) => {
+    completed.push(step);
+    handlers.onStep?.(step);
+  };
+
+  const finishAction = (content: string, completed: Step[]) => {
+    const step = createActionStep(stepId, actionAttributes, content);
+    if (!step) return;
+    stepId++;
+    emit(step, completed);
+  };
+
+  const reportProgress = () => {
+    if (actionAttributes.type !== 'file' || !actionAttributes.filePath) return;
+    if (actionContent.length === reportedLength) return;
+    reportedLength = actionContent.length;
+    handlers.onFileProgress?.(actionAttributes.filePath, decodeActionContent(actionContent).trimStart());
+  };
+
+  // Consume as much of the action body as possible; returns true when the action closed
+  const consumeAction = (): boolean => {
+    while (buffer.length) {
+      if (inCdata) {
+        const end = buffer.indexOf(CDATA_CLOSE);
+        if (end === -1) {
+          const keep = partialTagLength(buffer, [CDATA_CLOSE]);
+          actionContent += buffer.slice(0, buffer.length - keep);
+          buffer = buffer.slice(buffer.length - keep);
+          return false;
+        }
+        actionContent += buffer.slice(0, end + CDATA_CLOSE.length);
+        buffer = buffer.slice(end + CDATA_CLOSE.length);
+        inCdata = false;
+        continue;
+      }
+
+      const closeIdx = buffer.indexOf(ACTION_CLOSE);
+      const cdataIdx = buffer.indexOf(CDATA_OPEN);
+
+      if (cdataIdx !== -1 && (closeIdx === -1 || cdataIdx < closeIdx)) {
+        actionContent += buffer.slice(0, cdataIdx + CDATA_OPEN.length);
+        buffer = buffer.slice(cdataIdx + CDATA_OPEN.length);
+        inCdata = true;
+        continue;
+      }
+
+      if (closeIdx !== -1) {
+        actionContent += buffer.slice(0, closeIdx);
+        buffer = buffer.slice(closeIdx + ACTION_CLOSE.length);
+        return true;
+      }
+
+      const keep = partialTagLength(buffer, [ACTION_CLOSE, CDATA_OPEN]);
+      actionContent += buffer.slice(0, buffer.length - keep);
+      buffer = buffer.slice(buffer.length - keep);
+      return false;
+    }
+    return false;
+  };
+
+  const push = (chunk: string): Step[] => {
+    const completed: Step[] = [];
+    buffer += chunk;
+
+    while (true) {
+      if (state === 'outside') {
+        const start = findTag(buffer, ARTIFACT_OPEN);
+        if (start === -1) {
+          // Text between artifacts is ignored
+          buffer = buffer.slice(buffer.length - partialTagLength(buffer, [ARTIFACT_OPEN]));
+          break;
+        }
+        const end = findTagEnd(buffer, start + ARTIFACT_OPEN.length);
+        if (end === -1) {
+          buffer = buffer.slice(start);
+          break;
+        }
+
+        const attributes = parseAttributes(buffer.slice(start + ARTIFACT_OPEN.length, end));
+        buffer = buffer.slice(end + 1);
+        state = 'artifact';
+
+        // Add artifact step
+        emit({
+          id: stepId++,
+          title: attributes.title || 'Project Files',
+          description: '',
+          type: StepType.CreateFolder,
+          status: 'pending'
+        }, completed);
+        continue;
+      }
+
+      if (state === 'artifact') {
+        const actionIdx = findTag(buffer, ACTION_OPEN);
+        const closeIdx = buffer.indexOf(ARTIFACT_CLOSE);
+
+        if (closeIdx !== -1 && (actionIdx === -1 || closeIdx < actionIdx)) {
+          buffer = buffer.slice(closeIdx + ARTIFACT_CLOSE.length);
+          state = 'outside';
+          continue;
+        }
+        if (actionIdx === -1) {
+          buffer = buffer.slice(buffer.length - partialTagLength(buffer, [ACTION_OPEN, ARTIFACT_CLOSE]));
+          break;
+        }
+        const end = findTagEnd(buffer, actionIdx + ACTION_OPEN.length);
+        if (end === -1) {
+          buffer = buffer.slice(actionIdx);
+          break;
+        }
+
+        const rawAttributes = buffer.slice(actionIdx + ACTION_OPEN.length, end);
+        buffer = buffer.slice(end + 1);
+        actionAttributes = parseAttributes(rawAttributes);
+        actionContent = '';
+        inCdata = false;
+        reportedLength = -1;
+
+        if (rawAttributes.trimEnd().endsWith('/')) {
+          // Self-closing action has no body
+          finishAction('', completed);
+          continue;
+        }
+        state = 'action';
+        continue;
+      }
+
+      const closed = consumeAction();
+      if (!closed) {
+        reportProgress();
+        break;
+      }
+
+      finishAction(decodeActionContent(actionContent), completed);
+      state = 'artifact';
+    }
+
+    return completed;
+  };
+
+  const end = (): Step[] => {
+    buffer = '';
+    state = 'outside';
+    actionContent = '';
+    inCdata = false;
+    return [];
+  };
+
+  return { push, end };
+}
 
 /*
  * Parse input XML and convert it into steps.
- * Eg: Input - 
+ * Eg: Input -
  * <chirArtifact id=\"project-import\" title=\"Project Files\">
  *  <chirAction type=\"file\" filePath=\"eslint.config.js\">
  *      import js from '@eslint/js';\nimport globals from 'globals';\n
@@ -11,8 +367,18 @@ import { Step, StepType } from './hooks/types';
  *      node index.js
  * </chirAction>
  * </chirArtifact>
- * 
- * Output - 
+ *
+ * Existing files can also be changed in place or removed:
+ * <chirAction type="edit" filePath="src/App.tsx">
+ * <<<<<<< SEARCH
+ * const title = 'Old';
+ * =======
+ * const title = 'New';
+ * >>>>>>> REPLACE
+ * </chirAction>
+ * <chirAction type="delete" filePath="src/Unused.tsx" />
+ *
+ * Output -
  * [{
  *      title: "Project Files",
  *      status: "Pending"
@@ -25,7 +391,10 @@ import { Step, StepType } from './hooks/types';
  *      code: "node index.js",
  *      type: StepType.RunScript
  * }]
- * 
+ *
+ * Edit actions become StepType.EditFile steps carrying `edits`, delete actions
+ * become StepType.DeleteFile steps.
+ *
  * The input can have strings in the middle they need to be ignored
  */
 export function parseXml(response: string | undefined | null): Step[] {
@@ -34,61 +403,8 @@ export function parseXml(response: string | undefined | null): Step[] {
       console.error('⚠️ parseXml received invalid response:', response);
       return [];
     }
-    
-    // Extract the XML content between <chirArtifact> tags
-    const xmlMatch = response.match(/<chirArtifact[^>]*>([\s\S]*?)<\/chirArtifact>/);
-    
-    if (!xmlMatch) {
-      return [];
-    }
-  
-    const xmlContent = xmlMatch[1];
-    const steps: Step[] = [];
-    let stepId = 1;
-  
-    // Extract artifact title
-    const titleMatch = response.match(/title="([^"]*)"/);
-    const artifactTitle = titleMatch ? titleMatch[1] : 'Project Files';
-  
-    // Add initial artifact step
-    steps.push({
-      id: stepId++,
-      title: artifactTitle,
-      description: '',
-      type: StepType.CreateFolder,
-      status: 'pending'
-    });
-  
-    // Regular expression to find chirAction elements
-    const actionRegex = /<chirAction\s+type="([^"]*)"(?:\s+filePath="([^"]*)")?>([\s\S]*?)<\/chirAction>/g;
-    
-    let match;
-    while ((match = actionRegex.exec(xmlContent)) !== null) {
-      const [, type, filePath, content] = match;
-  
-      if (type === 'file') {
-        // File creation step
-        steps.push({
-          id: stepId++,
-          title: `Create ${filePath || 'file'}`,
-          description: '',
-          type: StepType.CreateFile,
-          status: 'pending',
-          code: content.trim(),
-          path: filePath
-        });
-      } else if (type === 'shell') {
-        // Shell command step
-        steps.push({
-          id: stepId++,
-          title: 'Run command',
-          description: '',
-          type: StepType.RunScript,
-          status: 'pending',
-          code: content.trim()
-        });
-      }
-    }
-  
-    return steps;
-  }
\ No newline at end of file
+
+    // A complete response is just a stream that arrives in a single chunk
+    const parser = createStreamingXmlParser();
+    return [...parser.push(response), ...parser.end()];
+  }
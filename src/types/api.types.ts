@@ -0,0 +1,210 @@
+import type { ProjectBlueprint } from './planning.types';
+import type { GenerationCheckpoint, GenerationPhaseId, ProjectFile } from './project.types';
+
+export type ProjectType = ProjectBlueprint['projectType'];
+
+// ---- Planning / generation ----
+
+export interface PlanningRequest {
+  requirements: string;
+  projectType: ProjectType | string;
+}
+
+export type { PlanningResponse } from './planning.types';
+
+export interface TemplateRequest {
+  prompt: string;
+  projectType: ProjectType | string;
+}
+
+export interface TemplateResponse {
+  prompts: string[];
+  uiPrompts: string[];
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+}
+
+export interface LangGraphRequest {
+  prompt: string;
+  projectType: ProjectType | string;
+  generationId?: string; // Lets the client cancel this run through /chat/langgraph-stream/cancel
+  resume?: GenerationResume;
+}
+
+// Continue an interrupted generation: the generator skips finished phases and files that exist
+export interface GenerationResume {
+  completedPhases: GenerationPhaseId[];
+  existingFiles: string[];
+}
+
+// Body of /chat and /chat/langgraph - a chirArtifact document
+export interface GenerationResponse {
+  response: string;
+}
+
+export interface FullstackBuildRequest {
+  backendContext?: string;
+  frontendContext?: string;
+  projectId: string;
+}
+
+export interface FullstackBuildResponse {
+  backend?: string;
+  frontend?: string;
+}
+
+// Events sent by /chat/langgraph-stream
+export type GenerationStreamEvent =
+  | { type: 'file'; path: string; content: string; phase?: GenerationPhaseId }
+  | { type: 'phase'; message: string; phase?: GenerationPhaseId }
+  | { type: 'complete'; totalFiles?: number }
+  | { type: 'error'; message: string };
+
+// ---- Auto-fix ----
+
+export interface FixErrorRequest {
+  error: string;
+  filePath: string;
+  fileContent: string;
+  responseFormat: 'patch' | 'full';
+}
+
+export interface FixErrorResponse {
+  patch?: string;
+  fixedCode?: string;
+}
+
+// Related files fixed together in one request
+export interface FixErrorsRequest {
+  errors: string; // One diagnostic per line, file:line:column - error code: message
+  files: ProjectFile[];
+  responseFormat: 'patch' | 'full';
+}
+
+export interface FixErrorsResponse {
+  patch?: string; // Unified diff with a section per changed file
+  files?: ProjectFile[]; // Full content of each changed file
+}
+
+// ---- Projects ----
+
+export type ProjectListQuery = { userId: string } | { sessionId: string };
+
+export interface ProjectSummary {
+  _id: string;
+  name: string;
+  prompt: string;
+  fileCount: number;
+  status: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProjectDetail {
+  _id?: string;
+  name?: string;
+  prompt?: string;
+  blueprint?: ProjectBlueprint;
+  status?: string;
+  generation?: GenerationCheckpoint | null;
+  files: ProjectFile[];
+}
+
+export interface CreateProjectRequest {
+  prompt: string;
+  files: ProjectFile[];
+  blueprint?: unknown;
+  sessionId?: string;
+  userId?: string | null;
+  status?: string; // 'incomplete' when saved from a stopped or failed generation
+  generation?: GenerationCheckpoint;
+}
+
+export interface UpdateProjectRequest {
+  status?: string;
+  generation?: GenerationCheckpoint | null; // null clears the checkpoint once generation finishes
+}
+
+export interface CreateProjectResponse {
+  success: boolean;
+  projectId: string;
+  name: string;
+  error?: string;
+}
+
+// An element picked in the preview, so a follow-up edit can say exactly what to change
+export interface SelectedElement {
+  component?: string; // Nearest React component rendering the element
+  file?: string; // Project path of the JSX that created it
+  line?: number;
+  column?: number;
+  domPath: string; // CSS selector from the nearest id or <body>
+  tagName: string;
+  text?: string; // Start of its visible text
+  viewport?: { width: number; height: number }; // Size of the preview frame it was picked in
+}
+
+// Device size the preview is shown at, when one is chosen instead of filling the pane
+export interface PreviewViewport {
+  name: string; // Preset name, or 'Custom'
+  width: number;
+  height: number;
+}
+
+// What the user was looking at when sending a follow-up message
+export interface ProjectChatContext {
+  element?: SelectedElement;
+  viewport?: PreviewViewport;
+}
+
+export interface ProjectChatRequest {
+  message: string;
+  context?: ProjectChatContext;
+}
+
+export interface ProjectChatResponse {
+  intent: 'question' | 'explain' | 'modify' | string;
+  response: string;
+  modifiedFiles?: ProjectFile[];
+}
+
+export interface UploadProjectResponse {
+  projectId: string;
+  name: string;
+  description?: string;
+  fileCount: number;
+}
+
+// ---- Auth ----
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  username: string;
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export interface SignupRequest extends LoginRequest {
+  username: string;
+}
+
+export interface AuthResponse {
+  token: string;
+  user: AuthUser;
+}
+
+export interface SessionResponse {
+  token?: string;
+  user?: AuthUser;
+}
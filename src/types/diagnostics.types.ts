@@ -0,0 +1,42 @@
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+// tsc run in the WebContainer, the Vite dev server / error overlay, or an error thrown in the preview
+export type DiagnosticSource = 'tsc' | 'vite' | 'runtime';
+
+export interface Diagnostic {
+  file: string; // Project path with a leading slash, '' when the problem is not tied to a file
+  line: number; // 1-based, 0 when unknown
+  column: number; // 1-based, 0 when unknown
+  code?: string; // e.g. TS2304, vite:import-analysis, GLOBAL_ERROR
+  message: string;
+  severity: DiagnosticSeverity;
+  source: DiagnosticSource;
+  excerpt?: DiagnosticExcerpt; // Original source around the location, for runtime errors mapped through source maps
+}
+
+export interface DiagnosticExcerpt {
+  startLine: number; // 1-based line of lines[0]
+  lines: string[];
+}
+
+// How an auto-fix attempt ended
+export type FixOutcome =
+  | 'fixed' // tsc confirms the errors are gone
+  | 'improved' // Fewer errors than before, but not all of them
+  | 'unverified' // Applied, but tsc could not confirm it
+  | 'regressed' // More errors than before, rolled back
+  | 'no-progress' // As many errors as before, rolled back
+  | 'rejected' // The answer did not apply cleanly
+  | 'declined' // Turned down in review
+  | 'failed'; // The fix request itself failed
+
+export interface FixLogEntry {
+  id: string;
+  at: number;
+  diagnostics: Diagnostic[]; // The errors the fix was for
+  changes: { path: string; original: string; modified: string }[]; // What the fix changed (or would have)
+  outcome: FixOutcome;
+  errorsBefore?: number; // Project-wide tsc errors before and after applying
+  errorsAfter?: number;
+  detail?: string;
+}
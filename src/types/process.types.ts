@@ -0,0 +1,29 @@
+// 'exited' is a zero exit code, 'failed' any other
+export type ProcessStatus = 'running' | 'exited' | 'failed' | 'killed';
+
+// 'shell' is an interactive jsh session the user types into
+export type ProcessKind = 'command' | 'shell';
+
+// A process spawned in the WebContainer
+export interface ProcessInfo {
+  id: string;
+  kind: ProcessKind;
+  name: string; // Tab label, e.g. "dev server"
+  command: string; // Command line it was started with
+  status: ProcessStatus;
+  exitCode: number | null; // null while running
+  startedAt: number;
+  endedAt?: number;
+}
+
+export type OutputLevel = 'info' | 'warn' | 'error';
+
+// One line of terminal output, from the builder or one process
+export interface OutputLine {
+  seq: number; // Increases by one per line and is never reused
+  channel: string; // 'builder' or the id of the process that printed it
+  at: number;
+  level: OutputLevel;
+  raw: string; // As printed, ANSI sequences and carriage returns included
+  text: string; // What a terminal would show, without ANSI sequences
+}
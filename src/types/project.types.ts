@@ -0,0 +1,74 @@
+export interface ProjectFile {
+  path: string;
+  content: string;
+}
+
+export type SnapshotSource = 'generation' | 'chat' | 'auto-fix' | 'restore';
+
+export interface ProjectSnapshot {
+  id: string;
+  projectId: string;
+  label: string;
+  source: SnapshotSource;
+  createdAt: number;
+  files: ProjectFile[];
+}
+
+// The preview rendered at one viewport, captured once a snapshot's change had loaded
+export interface SnapshotScreenshot {
+  id: string;
+  snapshotId: string;
+  projectId: string;
+  width: number; // CSS pixels of the viewport it was taken at
+  height: number;
+  image: string; // PNG data URL of the page from its top, possibly taller than the viewport
+  capturedAt: number;
+}
+
+export type SyncStatus = 'synced' | 'pending' | 'offline' | 'conflict';
+
+// Server changed a file we also changed locally since the last sync
+export interface SyncConflict {
+  path: string;
+  local: string;
+  server: string;
+}
+
+// Phases of a streamed generation, in the order the generator runs them
+export type GenerationPhaseId = 'core' | 'components' | 'page';
+
+// Where a streamed generation got to, so an interrupted one can pick up from there
+export interface GenerationCheckpoint {
+  prompt: string;
+  projectType: string;
+  completedPhases: GenerationPhaseId[];
+  updatedAt: number;
+}
+
+// Local copy of a project - the source of truth while the backend is unreachable
+export interface LocalProject {
+  id: string;
+  name?: string;
+  prompt?: string;
+  blueprint?: unknown;
+  sessionId?: string;
+  userId?: string | null;
+  status?: string; // Generation status, 'incomplete' after a stopped or failed run
+  generation?: GenerationCheckpoint; // Set while the generation has not finished
+  files: ProjectFile[];
+  serverFiles: Record<string, string>; // Last content known to be on the server, per path
+  conflicts: SyncConflict[];
+  syncStatus: SyncStatus;
+  lastError?: string;
+  updatedAt: number;
+}
+
+export interface OutboxEntry {
+  id: string;
+  projectId: string;
+  kind: 'create' | 'patch' | 'progress'; // 'progress' uploads the status and generation checkpoint
+  paths: string[]; // Files to PATCH, or to delete when the local project no longer has them; content is read when sent
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+}
@@ -0,0 +1,37 @@
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export interface ConsoleEntry {
+  id: string;
+  level: ConsoleLevel;
+  text: string; // Arguments rendered to text and joined with spaces
+  at: number;
+}
+
+export interface NetworkEntry {
+  id: string;
+  kind: 'fetch' | 'xhr';
+  method: string;
+  url: string;
+  status: number; // 0 when the request never got a response
+  statusText?: string;
+  error?: string; // Why a request without a response failed
+  duration: number; // ms from sending to the response or failure
+  at: number;
+}
+
+export type WebVitalName = 'LCP' | 'CLS' | 'INP';
+
+export type WebVitalRating = 'good' | 'needs-improvement' | 'poor';
+
+export interface WebVital {
+  name: WebVitalName;
+  value: number; // ms for LCP and INP, unitless for CLS
+  rating: WebVitalRating;
+  at: number;
+}
+
+export interface PreviewTelemetry {
+  console: ConsoleEntry[];
+  network: NetworkEntry[];
+  vitals: Partial<Record<WebVitalName, WebVital>>;
+}
@@ -0,0 +1,363 @@
+/**
+ * API Client - Typed wrapper around every SiteCrafter backend endpoint
+ * Adds the ngrok and auth headers, turns every failure into an ApiError, retries
+ * transient failures with backoff and supports cancellation through AbortSignal.
+ */
+
+import axios, { type AxiosRequestConfig, type InternalAxiosRequestConfig } from 'axios';
+import { BACKEND_URL, AUTH_BACKEND_URL, USE_MOCK_BACKEND } from '../config';
+import type {
+    AuthResponse,
+    ChatRequest,
+    CreateProjectRequest,
+    CreateProjectResponse,
+    FixErrorRequest,
+    FixErrorResponse,
+    FixErrorsRequest,
+    FixErrorsResponse,
+    FullstackBuildRequest,
+    FullstackBuildResponse,
+    GenerationResponse,
+    GenerationStreamEvent,
+    LangGraphRequest,
+    LoginRequest,
+    PlanningRequest,
+    PlanningResponse,
+    ProjectChatRequest,
+    ProjectChatResponse,
+    ProjectDetail,
+    ProjectListQuery,
+    ProjectSummary,
+    SessionResponse,
+    SignupRequest,
+    TemplateRequest,
+    TemplateResponse,
+    UpdateProjectRequest,
+    UploadProjectResponse,
+} from '../types/api.types';
+import type { ProjectFile } from '../types/project.types';
+import { readSseStream, type SseEvent } from './sse';
+
+export type ApiErrorKind = 'http' | 'network' | 'timeout' | 'aborted' | 'invalid-response';
+
+export class ApiError extends Error {
+    readonly kind: ApiErrorKind;
+    readonly status?: number;
+    readonly url: string;
+    readonly data?: unknown;
+
+    constructor(kind: ApiErrorKind, message: string, url: string, status?: number, data?: unknown) {
+        super(message);
+        this.name = 'ApiError';
+        this.kind = kind;
+        this.status = status;
+        this.url = url;
+        this.data = data;
+    }
+
+    // Worth retrying: the request may succeed if sent again unchanged
+    get retryable(): boolean {
+        return this.kind === 'network' || this.kind === 'timeout' ||
+            (this.kind === 'http' && (this.status === 429 || (this.status ?? 0) >= 500));
+    }
+}
+
+export const isAbortError = (err: unknown) => err instanceof ApiError && err.kind === 'aborted';
+
+export interface RequestOptions {
+    signal?: AbortSignal;
+    retries?: number; // Extra attempts after the first; defaults to 2 for idempotent methods, 0 otherwise
+    timeout?: number;
+}
+
+export interface GenerationOptions extends RequestOptions {
+    // Called with the raw response text received so far, while it downloads
+    onProgress?: (text: string) => void;
+}
+
+const RETRY_BASE_MS = 500;
+const RETRY_MAX_MS = 8000;
+
+// In mock mode requests never leave the page; the import is split out of normal builds
+const loadMockBackend = () => import('../mocks/mockBackend');
+
+const http = axios.create({
+    baseURL: BACKEND_URL,
+    headers: { 'ngrok-skip-browser-warning': 'true' },
+    ...(USE_MOCK_BACKEND && {
+        adapter: (config: InternalAxiosRequestConfig) => loadMockBackend().then(mock => mock.mockAdapter(config)),
+    }),
+});
+
+const fetchStream = (url: string, init: RequestInit): Promise<Response> =>
+    USE_MOCK_BACKEND ? loadMockBackend().then(mock => mock.mockFetch(url, init)) : fetch(url, init);
+
+const authHeaders = (): Record<string, string> => {
+    const token = localStorage.getItem('token');
+    return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+http.interceptors.request.use(config => {
+    Object.entries(authHeaders()).forEach(([key, value]) => {
+        if (!config.headers.has(key)) config.headers.set(key, value);
+    });
+    return config;
+});
+
+// Backends answer errors as { error } or { message }
+const messageFrom = (data: unknown, fallback: string): string => {
+    if (data && typeof data === 'object') {
+        const body = data as { error?: unknown; message?: unknown };
+        if (typeof body.error === 'string' && body.error) return body.error;
+        if (typeof body.message === 'string' && body.message) return body.message;
+    }
+    return fallback;
+};
+
+function toApiError(err: unknown, url: string): ApiError {
+    if (err instanceof ApiError) return err;
+    if (axios.isCancel(err) || (err instanceof DOMException && err.name === 'AbortError')) {
+        return new ApiError('aborted', 'Request was cancelled', url);
+    }
+    if (axios.isAxiosError(err)) {
+        if (err.response) {
+            const status = err.response.status;
+            return new ApiError('http', messageFrom(err.response.data, `Request failed with status ${status}`), url, status, err.response.data);
+        }
+        if (err.code === 'ECONNABORTED' || err.code === 'ETIMEDOUT') {
+            return new ApiError('timeout', 'Request timed out', url);
+        }
+        return new ApiError('network', 'Could not reach the server', url);
+    }
+    if (err instanceof TypeError) {
+        // fetch() reports network failures as TypeError
+        return new ApiError('network', 'Could not reach the server', url);
+    }
+    return new ApiError('network', err instanceof Error ? err.message : String(err), url);
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(new DOMException('Aborted', 'AbortError'));
+        }, { once: true });
+    });
+
+// Run `attempt` until it succeeds, fails permanently or runs out of retries
+async function withRetry<T>(url: string, retries: number, signal: AbortSignal | undefined, attempt: () => Promise<T>): Promise<T> {
+    for (let tries = 0; ; tries++) {
+        try {
+            return await attempt();
+        } catch (err) {
+            const apiError = toApiError(err, url);
+            if (tries >= retries || !apiError.retryable || signal?.aborted) throw apiError;
+
+            const delay = Math.min(RETRY_BASE_MS * 2 ** tries, RETRY_MAX_MS);
+            try {
+                await sleep(delay / 2 + Math.random() * (delay / 2), signal);
+            } catch (sleepErr) {
+                throw toApiError(sleepErr, url);
+            }
+        }
+    }
+}
+
+async function request<T>(config: AxiosRequestConfig & { url: string }, options: RequestOptions = {}): Promise<T> {
+    const method = (config.method ?? 'get').toLowerCase();
+    const idempotent = method === 'get' || method === 'put' || method === 'patch' || method === 'delete';
+    const retries = options.retries ?? (idempotent ? 2 : 0);
+
+    return withRetry(config.url, retries, options.signal, async () => {
+        const response = await http.request<T>({ ...config, signal: options.signal, timeout: options.timeout });
+        return response.data;
+    });
+}
+
+// POST to a generation endpoint, reporting the body as it downloads
+async function generate(url: string, body: unknown, options: GenerationOptions = {}): Promise<GenerationResponse> {
+    const raw = await request<string>({
+        method: 'post',
+        url,
+        data: body,
+        responseType: 'text',
+        onDownloadProgress: progressEvent => {
+            const text: string | undefined = progressEvent.event?.target?.responseText;
+            if (text) options.onProgress?.(text);
+        },
+    }, options);
+
+    let data: unknown = raw;
+    if (typeof raw === 'string') {
+        try {
+            data = JSON.parse(raw);
+        } catch {
+            throw new ApiError('invalid-response', 'Backend returned malformed JSON', url);
+        }
+    }
+    if (!data || typeof (data as GenerationResponse).response !== 'string') {
+        throw new ApiError('invalid-response', 'Backend did not return a valid response', url, undefined, data);
+    }
+    return data as GenerationResponse;
+}
+
+export interface StreamOptions extends RequestOptions {
+    // Called for events that arrive but cannot be understood; the stream carries on
+    onMalformed?: (raw: string, reason: string) => void;
+    // Called before re-opening a dropped stream from the last event the server tagged
+    onReconnect?: (attempt: number, lastEventId: string) => void;
+}
+
+// Unwrap one SSE event into a generation event; the SSE `event` field names the type when the payload omits it
+function toGenerationEvent(event: SseEvent): GenerationStreamEvent {
+    const payload: unknown = JSON.parse(event.data);
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+        throw new Error('Event data is not an object');
+    }
+    const record = payload as Record<string, unknown>;
+    const type = record.type ?? (event.event !== 'message' ? event.event : undefined);
+    if (typeof type !== 'string') throw new Error('Event has no type');
+    return { ...record, type } as GenerationStreamEvent;
+}
+
+// A generation stream ends with either a complete or an error event
+function isFinalEvent(event: SseEvent): boolean {
+    try {
+        const { type } = toGenerationEvent(event);
+        return type === 'complete' || type === 'error';
+    } catch {
+        return false;
+    }
+}
+
+// Server-sent events from /chat/langgraph-stream, resumed with Last-Event-ID if the connection drops
+async function* streamLangGraph(body: LangGraphRequest, options: StreamOptions = {}): AsyncGenerator<GenerationStreamEvent> {
+    const url = '/chat/langgraph-stream';
+    const open = async (lastEventId: string | undefined) => {
+        const res = await fetchStream(`${BACKEND_URL}${url}`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                Accept: 'text/event-stream',
+                'ngrok-skip-browser-warning': 'true',
+                ...authHeaders(),
+                ...(lastEventId !== undefined && { 'Last-Event-ID': lastEventId }),
+            },
+            body: JSON.stringify(body),
+            signal: options.signal,
+        });
+        if (!res.ok) {
+            const data = await res.json().catch(() => undefined);
+            throw new ApiError('http', messageFrom(data, `Request failed with status ${res.status}`), url, res.status, data);
+        }
+        if (!res.body) throw new ApiError('invalid-response', 'Response has no body to stream', url);
+        return res;
+    };
+
+    const events = readSseStream({
+        signal: options.signal,
+        connect: lastEventId => lastEventId === undefined
+            ? withRetry(url, options.retries ?? 0, options.signal, () => open(undefined))
+            : open(lastEventId),
+        shouldReconnect: err => toApiError(err, url).retryable,
+        onReconnect: options.onReconnect,
+        isComplete: isFinalEvent,
+    });
+
+    try {
+        for await (const event of events) {
+            let parsed: GenerationStreamEvent;
+            try {
+                parsed = toGenerationEvent(event);
+            } catch (err) {
+                const reason = err instanceof Error ? err.message : String(err);
+                console.warn('Skipping malformed stream event:', reason, event.data.slice(0, 200));
+                options.onMalformed?.(event.data, reason);
+                continue;
+            }
+            yield parsed;
+        }
+    } catch (err) {
+        throw toApiError(err, url);
+    }
+}
+
+export const api = {
+    planning: (body: PlanningRequest, options?: RequestOptions) =>
+        request<PlanningResponse>({ method: 'post', url: '/planning', data: body }, options),
+
+    template: (body: TemplateRequest, options?: RequestOptions) =>
+        request<TemplateResponse>({ method: 'post', url: '/template', data: body }, options),
+
+    chat: (body: ChatRequest, options?: GenerationOptions) => generate('/chat', body, options),
+
+    chatLangGraph: (body: LangGraphRequest, options?: GenerationOptions) => generate('/chat/langgraph', body, options),
+
+    streamLangGraph,
+
+    // Ask the backend to stop a streamed generation; aborting the fetch alone may leave it running
+    cancelGeneration: (generationId: string, options?: RequestOptions) =>
+        request<{ success?: boolean }>({ method: 'post', url: '/chat/langgraph-stream/cancel', data: { generationId } }, { retries: 0, ...options }),
+
+    buildFullstack: (body: FullstackBuildRequest, options?: RequestOptions) =>
+        request<FullstackBuildResponse>({ method: 'post', url: '/build/fullstack-complete', data: body }, options),
+
+    fixError: (body: FixErrorRequest, options?: RequestOptions) =>
+        request<FixErrorResponse>({ method: 'post', url: '/api/fix-error', data: body }, { retries: 1, ...options }),
+
+    fixErrors: (body: FixErrorsRequest, options?: RequestOptions) =>
+        request<FixErrorsResponse>({ method: 'post', url: '/api/fix-errors', data: body }, { retries: 1, ...options }),
+
+    projects: {
+        list: async (query: ProjectListQuery, options?: RequestOptions) => {
+            const data = await request<{ projects?: ProjectSummary[] }>({ url: '/api/projects', params: query }, options);
+            return data.projects ?? [];
+        },
+
+        get: async (id: string, options?: RequestOptions) => {
+            const data = await request<{ project?: ProjectDetail }>({ url: `/api/projects/${id}` }, options);
+            if (!data.project?.files) throw new ApiError('invalid-response', 'Project not found', `/api/projects/${id}`, undefined, data);
+            return data.project;
+        },
+
+        create: (body: CreateProjectRequest, options?: RequestOptions) =>
+            request<CreateProjectResponse>({ method: 'post', url: '/api/projects', data: body }, options),
+
+        update: (id: string, body: UpdateProjectRequest, options?: RequestOptions) =>
+            request<{ success?: boolean }>({ method: 'patch', url: `/api/projects/${id}`, data: body }, options),
+
+        patchFiles: (id: string, files: ProjectFile[], options?: RequestOptions) =>
+            request<{ success?: boolean }>({ method: 'patch', url: `/api/projects/${id}/files`, data: { files } }, options),
+
+        deleteFiles: (id: string, paths: string[], options?: RequestOptions) =>
+            request<{ success?: boolean }>({ method: 'delete', url: `/api/projects/${id}/files`, data: { paths } }, options),
+
+        remove: (id: string, options?: RequestOptions) =>
+            request<{ success?: boolean }>({ method: 'delete', url: `/api/projects/${id}` }, options),
+
+        chat: (id: string, body: ProjectChatRequest, options?: RequestOptions) =>
+            request<ProjectChatResponse>({ method: 'post', url: `/api/projects/${id}/chat`, data: body }, options),
+
+        upload: (zipFile: File, userId: string | null, options?: RequestOptions) => {
+            const formData = new FormData();
+            formData.append('zipFile', zipFile);
+            if (userId) formData.append('userId', userId);
+            return request<UploadProjectResponse>({ method: 'post', url: '/api/projects/upload', data: formData }, options);
+        },
+    },
+
+    auth: {
+        login: (body: LoginRequest, options?: RequestOptions) =>
+            request<AuthResponse>({ method: 'post', url: '/auth/login', data: body }, options),
+
+        signup: (body: SignupRequest, options?: RequestOptions) =>
+            request<AuthResponse>({ method: 'post', url: '/auth/signup', data: body }, options),
+
+        // Google sign-in lives on the auth backend and relies on its session cookie
+        checkSession: (options?: RequestOptions) =>
+            request<SessionResponse>({ url: `${AUTH_BACKEND_URL}/auth/check-session`, withCredentials: true }, options),
+
+        googleSignInUrl: () => `${AUTH_BACKEND_URL}/auth/google`,
+    },
+};
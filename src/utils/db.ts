@@ -0,0 +1,85 @@
+/**
+ * Local Database - Thin promise wrapper around the SiteCrafter IndexedDB database
+ * All object stores are declared here so schema upgrades live in one place.
+ */
+
+const DB_NAME = 'sitecrafter';
+const DB_VERSION = 3;
+
+export const STORES = {
+    snapshots: 'snapshots',
+    projects: 'projects',
+    outbox: 'outbox',
+    screenshots: 'screenshots',
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDb(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(STORES.snapshots)) {
+                const snapshots = db.createObjectStore(STORES.snapshots, { keyPath: 'id' });
+                snapshots.createIndex('projectId', 'projectId', { unique: false });
+            }
+            if (!db.objectStoreNames.contains(STORES.projects)) {
+                db.createObjectStore(STORES.projects, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(STORES.outbox)) {
+                const outbox = db.createObjectStore(STORES.outbox, { keyPath: 'id' });
+                outbox.createIndex('projectId', 'projectId', { unique: false });
+            }
+            if (!db.objectStoreNames.contains(STORES.screenshots)) {
+                const screenshots = db.createObjectStore(STORES.screenshots, { keyPath: 'id' });
+                screenshots.createIndex('snapshotId', 'snapshotId', { unique: false });
+                screenshots.createIndex('projectId', 'projectId', { unique: false });
+            }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+
+    return dbPromise;
+}
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+export async function putRecord<T>(store: StoreName, record: T): Promise<void> {
+    const db = await openDb();
+    await promisify(db.transaction(store, 'readwrite').objectStore(store).put(record));
+}
+
+export async function getRecord<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+    const db = await openDb();
+    return promisify(db.transaction(store, 'readonly').objectStore(store).get(key));
+}
+
+export async function getAllByIndex<T>(store: StoreName, index: string, value: IDBValidKey): Promise<T[]> {
+    const db = await openDb();
+    return promisify(db.transaction(store, 'readonly').objectStore(store).index(index).getAll(value));
+}
+
+export async function getAll<T>(store: StoreName): Promise<T[]> {
+    const db = await openDb();
+    return promisify(db.transaction(store, 'readonly').objectStore(store).getAll());
+}
+
+export async function deleteRecord(store: StoreName, key: IDBValidKey): Promise<void> {
+    const db = await openDb();
+    await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+}
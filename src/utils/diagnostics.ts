@@ -0,0 +1,247 @@
+/**
+ * Diagnostics - Normalize tsc output, Vite errors and preview runtime errors into Diagnostic records
+ * Every source is parsed into the same shape so the Problems panel and the auto-fixer
+ * never have to look at raw terminal text.
+ */
+
+import { parseStackTrace } from './errorReporter';
+import type { Diagnostic, DiagnosticExcerpt, DiagnosticSeverity } from '../types/diagnostics.types';
+
+// ESC is added at runtime so the pattern source holds no control character
+const ANSI_PATTERN = new RegExp(`${String.fromCharCode(27)}\\[[0-9;?]*[A-Za-z]`, 'g');
+
+export const stripAnsi = (text: string) => text.replace(ANSI_PATTERN, '');
+
+// WebContainer paths look like /home/<id>/src/App.tsx and preview URLs like https://…io/src/App.tsx
+export function toProjectPath(raw: string): string {
+    let path = raw.trim()
+        .replace(/^file:\/\//, '')
+        .replace(/^https?:\/\/[^/]+/, '')
+        .replace(/[?#].*$/, '');
+    const inHome = /^\/home\/[^/]+(\/.*)$/.exec(path);
+    if (inHome) path = inHome[1];
+    return path.startsWith('/') ? path : '/' + path;
+}
+
+// Identity of a problem regardless of which source reported it
+export const diagnosticKey = (d: Diagnostic) => `${d.file}:${d.line}:${d.column}:${d.code ?? ''}:${d.message}`;
+
+export function dedupeDiagnostics(diagnostics: Diagnostic[]): Diagnostic[] {
+    const seen = new Set<string>();
+    return diagnostics.filter(d => {
+        const key = diagnosticKey(d);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+const SEVERITY_ORDER: Record<DiagnosticSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+// Errors first, then by file and position
+export function sortDiagnostics(diagnostics: Diagnostic[]): Diagnostic[] {
+    return [...diagnostics].sort((a, b) =>
+        SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+        a.file.localeCompare(b.file) ||
+        a.line - b.line ||
+        a.column - b.column
+    );
+}
+
+// One line per diagnostic, in the familiar file:line:column form
+export function formatDiagnostic(d: Diagnostic): string {
+    const location = d.file ? `${d.file.replace(/^\//, '')}${d.line ? `:${d.line}${d.column ? `:${d.column}` : ''}` : ''} - ` : '';
+    return `${location}${d.severity}${d.code ? ` ${d.code}` : ''}: ${d.message}`;
+}
+
+// The module a "cannot find / failed to resolve" diagnostic is about
+export function missingModuleOf(d: Diagnostic): string | null {
+    const match = /Cannot find module ["']([^"']+)["']|Failed to resolve import ["']([^"']+)["']/i.exec(d.message);
+    return match ? match[1] || match[2] : null;
+}
+
+// ---- tsc ----
+
+// `tsc --noEmit --pretty false`: "src/App.tsx(12,5): error TS2304: Cannot find name 'foo'."
+// Long messages continue on indented lines.
+const TSC_LOCATED = /^(.+?)\((\d+),(\d+)\): (error|warning|message) (TS\d+): (.*)$/;
+const TSC_GLOBAL = /^(error|warning|message) (TS\d+): (.*)$/;
+
+const tscSeverity = (category: string): DiagnosticSeverity =>
+    category === 'error' ? 'error' : category === 'warning' ? 'warning' : 'info';
+
+export function parseTscOutput(output: string): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+
+    for (const rawLine of stripAnsi(output).split(/\r?\n/)) {
+        const line = rawLine.trimEnd();
+        if (!line.trim()) continue;
+
+        const located = TSC_LOCATED.exec(line);
+        if (located) {
+            diagnostics.push({
+                file: toProjectPath(located[1]),
+                line: Number(located[2]),
+                column: Number(located[3]),
+                code: located[5],
+                message: located[6],
+                severity: tscSeverity(located[4]),
+                source: 'tsc',
+            });
+            continue;
+        }
+
+        const global = TSC_GLOBAL.exec(line);
+        if (global) {
+            diagnostics.push({ file: '', line: 0, column: 0, code: global[2], message: global[3], severity: tscSeverity(global[1]), source: 'tsc' });
+            continue;
+        }
+
+        const last = diagnostics[diagnostics.length - 1];
+        if (last && /^\s/.test(rawLine)) last.message += '\n' + line.trim();
+    }
+
+    return diagnostics;
+}
+
+// ---- Vite ----
+
+// Error payload Vite sends to the browser (what its error overlay shows)
+export interface ViteErrorPayload {
+    message: string;
+    stack?: string;
+    id?: string;
+    frame?: string;
+    plugin?: string;
+    loc?: { file?: string; line: number; column: number };
+}
+
+// A source path mentioned inside a message, e.g. `from "src/App.tsx"` or `/home/x/src/App.tsx: Unexpected token (12:5)`
+function locateInMessage(message: string): Pick<Diagnostic, 'file' | 'line' | 'column'> {
+    const path = /((?:\/home\/[^/\s]+)?\/?src\/[^\s:'"()]+\.[cm]?[jt]sx?)(?::(\d+)(?::(\d+))?)?/.exec(message);
+    if (!path) return { file: '', line: 0, column: 0 };
+
+    const babelLoc = /\((\d+):(\d+)\)/.exec(message);
+    return {
+        file: toProjectPath(path[1]),
+        line: Number(path[2] ?? babelLoc?.[1] ?? 0),
+        column: Number(path[3] ?? (babelLoc ? Number(babelLoc[2]) + 1 : 0)),
+    };
+}
+
+export function fromViteError(err: ViteErrorPayload): Diagnostic {
+    const message = stripAnsi(err.message).trim();
+    const file = err.loc?.file ?? err.id;
+    const location = file
+        ? { file: toProjectPath(file), line: err.loc?.line ?? 0, column: err.loc?.column ?? 0 }
+        : locateInMessage(message);
+    return { ...location, code: err.plugin, message, severity: 'error', source: 'vite' };
+}
+
+const VITE_ERROR_HEADER = /(?:Internal server error|Pre-transform error): (.*)$/;
+const VITE_PLUGIN_ERROR = /\[plugin:([^\]]+)\]\s*(.*)$/;
+const VITE_PLUGIN_LINE = /^\s+Plugin: (\S+)/;
+const VITE_FILE_LINE = /^\s+File: (.+?)(?::(\d+):(\d+))?\s*$/;
+const VITE_RECOMPILED = /(?:hmr update|page reload) (.+)$/;
+
+/**
+ * Errors in the Vite dev server log that are still current. A later "hmr update"
+ * or "page reload" for a file means it compiled again, which clears its errors.
+ */
+export function parseViteLog(lines: string[]): Diagnostic[] {
+    const byFile = new Map<string, Diagnostic[]>();
+    let current: Diagnostic | null = null;
+
+    const commit = () => {
+        if (!current) return;
+        if (!current.file) Object.assign(current, locateInMessage(current.message));
+        const list = byFile.get(current.file) ?? [];
+        byFile.set(current.file, dedupeDiagnostics([...list, current]));
+        current = null;
+    };
+
+    for (const raw of lines) {
+        const line = stripAnsi(raw).trimEnd();
+
+        const header = VITE_ERROR_HEADER.exec(line);
+        const pluginError = header ? null : VITE_PLUGIN_ERROR.exec(line);
+        if (header || pluginError) {
+            commit();
+            current = {
+                file: '',
+                line: 0,
+                column: 0,
+                code: pluginError?.[1],
+                message: header ? header[1] : pluginError![2],
+                severity: 'error',
+                source: 'vite',
+            };
+            continue;
+        }
+
+        const recompiled = VITE_RECOMPILED.exec(line);
+        if (recompiled) {
+            commit();
+            recompiled[1].split(/,\s*/).forEach(path => byFile.delete(toProjectPath(path.replace(/\s*\(x\d+\)$/, ''))));
+            continue;
+        }
+
+        if (!current) continue;
+
+        const plugin = VITE_PLUGIN_LINE.exec(line);
+        const file = plugin ? null : VITE_FILE_LINE.exec(line);
+        if (plugin) {
+            current.code = plugin[1];
+        } else if (file) {
+            current.file = toProjectPath(file[1]);
+            current.line = Number(file[2] ?? 0);
+            current.column = Number(file[3] ?? 0);
+        } else if (!/^\s/.test(line) && line.trim()) {
+            // Anything unindented that is not part of the error block ends it
+            commit();
+        }
+    }
+    commit();
+
+    return [...byFile.values()].flat();
+}
+
+// ---- Runtime ----
+
+export interface RuntimeErrorReport {
+    message?: string;
+    stack?: string;
+    errorType?: string;
+    // Set by the reporter when the stack could be mapped through the dev server's source maps
+    location?: { file: string; line: number; column: number };
+    excerpt?: DiagnosticExcerpt;
+    mappedStack?: string;
+}
+
+export function fromRuntimeError(report: RuntimeErrorReport): Diagnostic {
+    const message = (report.message || 'Unknown runtime error').trim();
+    const stack = report.mappedStack || report.stack;
+    const diagnostic: Diagnostic = {
+        file: '',
+        line: 0,
+        column: 0,
+        code: report.errorType,
+        message: stack ? `${message}\n\nStack trace:\n${stack}` : message,
+        severity: 'error',
+        source: 'runtime',
+    };
+
+    if (report.location) {
+        return {
+            ...diagnostic,
+            file: toProjectPath(report.location.file),
+            line: report.location.line,
+            column: report.location.column,
+            excerpt: report.excerpt,
+        };
+    }
+
+    // Unmapped: positions in the stack are in the transformed module, so only the line is a hint
+    const { filePath, lineNumber } = parseStackTrace(report.stack || '', message);
+    return { ...diagnostic, file: filePath ? toProjectPath(filePath) : '', line: lineNumber ?? 0 };
+}
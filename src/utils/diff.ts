@@ -0,0 +1,161 @@
+/**
+ * Diff - Line-based diff between two versions of a file, split into hunks
+ * Used by the review flow so changes can be accepted or rejected hunk by hunk.
+ */
+
+export interface DiffHunk {
+    id: number;
+    originalStart: number; // 1-based first line in the original (insertion point for pure additions)
+    originalLines: string[];
+    modifiedStart: number; // 1-based first line in the modified version
+    modifiedLines: string[];
+}
+
+type Op = { kind: 'same' | 'del' | 'add'; line: string };
+
+// Beyond this many changed lines the middle is shown as one replaced block
+const MAX_EDIT_DISTANCE = 2000;
+
+/*
+ * Myers' O(ND) diff: time grows with the number of changed lines, memory with its
+ * square, and only one row of furthest reaches per edit step is kept for the
+ * backtrack. Returns null once the distance passes MAX_EDIT_DISTANCE.
+ */
+function myersDiff(a: string[], b: string[]): Op[] | null {
+    const n = a.length;
+    const m = b.length;
+    const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+    const offset = max + 1;
+    const v = new Int32Array(2 * offset + 1); // Furthest x per diagonal k = x - y
+    const trace: Int32Array[] = []; // trace[d][k + d]: v after step d
+
+    for (let d = 0; d <= max; d++) {
+        let done = false;
+        for (let k = -d; k <= d && !done; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+                ? v[offset + k + 1]
+                : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            done = x >= n && y >= m;
+        }
+        trace.push(v.slice(offset - d, offset + d + 1));
+        if (done) return backtrack(a, b, trace);
+    }
+    return null;
+}
+
+// Walk the trace back from the end, emitting ops in reverse
+function backtrack(a: string[], b: string[], trace: Int32Array[]): Op[] {
+    const ops: Op[] = [];
+    let x = a.length;
+    let y = b.length;
+
+    for (let d = trace.length - 1; d > 0; d--) {
+        const prev = trace[d - 1];
+        const at = (k: number) => prev[k + d - 1];
+        const k = x - y;
+        const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+        const prevX = at(prevK);
+        const prevY = prevX - prevK;
+        while (x > prevX && y > prevY) {
+            ops.push({ kind: 'same', line: a[--x] });
+            y--;
+        }
+        if (x === prevX) ops.push({ kind: 'add', line: b[--y] });
+        else ops.push({ kind: 'del', line: a[--x] });
+    }
+    while (x > 0 && y > 0) {
+        ops.push({ kind: 'same', line: a[--x] });
+        y--;
+    }
+
+    return ops.reverse();
+}
+
+// Myers' diff over the lines that differ after trimming the common prefix/suffix
+export function diffLines(a: string[], b: string[]): Op[] {
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (
+        suffix < a.length - prefix &&
+        suffix < b.length - prefix &&
+        a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const midA = a.slice(prefix, a.length - suffix);
+    const midB = b.slice(prefix, b.length - suffix);
+    const middle = myersDiff(midA, midB) ?? [
+        ...midA.map(line => ({ kind: 'del' as const, line })),
+        ...midB.map(line => ({ kind: 'add' as const, line })),
+    ];
+
+    return [
+        ...a.slice(0, prefix).map(line => ({ kind: 'same' as const, line })),
+        ...middle,
+        ...a.slice(a.length - suffix).map(line => ({ kind: 'same' as const, line })),
+    ];
+}
+
+export function computeHunks(original: string, modified: string): DiffHunk[] {
+    const ops = diffLines(original.split('\n'), modified.split('\n'));
+    const hunks: DiffHunk[] = [];
+
+    let originalLine = 1;
+    let modifiedLine = 1;
+    let current: DiffHunk | null = null;
+
+    for (const op of ops) {
+        if (op.kind === 'same') {
+            current = null;
+            originalLine++;
+            modifiedLine++;
+            continue;
+        }
+
+        if (!current) {
+            current = {
+                id: hunks.length,
+                originalStart: originalLine,
+                originalLines: [],
+                modifiedStart: modifiedLine,
+                modifiedLines: [],
+            };
+            hunks.push(current);
+        }
+
+        if (op.kind === 'del') {
+            current.originalLines.push(op.line);
+            originalLine++;
+        } else {
+            current.modifiedLines.push(op.line);
+            modifiedLine++;
+        }
+    }
+
+    return hunks;
+}
+
+// Rebuild the file from the original, taking only the accepted hunks
+export function applyHunks(original: string, hunks: DiffHunk[], acceptedIds: Set<number>): string {
+    const lines = original.split('\n');
+    const result: string[] = [];
+    let cursor = 0;
+
+    for (const hunk of [...hunks].sort((x, y) => x.originalStart - y.originalStart)) {
+        const start = hunk.originalStart - 1;
+        result.push(...lines.slice(cursor, start));
+        result.push(...(acceptedIds.has(hunk.id) ? hunk.modifiedLines : hunk.originalLines));
+        cursor = start + hunk.originalLines.length;
+    }
+    result.push(...lines.slice(cursor));
+
+    return result.join('\n');
+}
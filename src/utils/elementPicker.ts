@@ -0,0 +1,162 @@
+/**
+ * Element Picker - Injected into user projects next to the error reporter
+ * While the builder has inspect mode on, the element under the cursor is outlined;
+ * a click reports its React component, the source location of its JSX and its DOM
+ * path over the preview channel instead of reaching the page. Escape cancels.
+ */
+
+export function getElementPickerScript(): string {
+    return `
+<script>
+(function() {
+    'use strict';
+
+    const channel = window.__previewChannel;
+    if (!channel) return;
+
+    const MAX_TEXT = 80;
+    const MAX_DEPTH = 8; // DOM path segments kept, nearest first
+    let active = false;
+    let overlay = null;
+    let label = null;
+    let hovered = null;
+
+    function fiberOf(element) {
+        for (const key in element) {
+            if (key.indexOf('__reactFiber$') === 0) return element[key];
+        }
+        return null;
+    }
+
+    function componentName(type) {
+        if (!type) return null;
+        if (typeof type === 'function') return type.displayName || type.name || null;
+        // forwardRef and memo wrap the component
+        return type.displayName || componentName(type.render) || componentName(type.type);
+    }
+
+    // The component that rendered the element (React dev builds record it as the owner)
+    function describeFiber(fiber) {
+        let owner = fiber && fiber._debugOwner;
+        let current = fiber;
+        while (!owner && current && current.return) {
+            current = current.return;
+            if (typeof current.type !== 'string' && componentName(current.type)) owner = current;
+        }
+        const source = fiber && fiber._debugSource;
+        return {
+            component: owner ? componentName(owner.type) || undefined : undefined,
+            file: source ? source.fileName : undefined,
+            line: source ? source.lineNumber : undefined,
+            column: source ? source.columnNumber : undefined
+        };
+    }
+
+    // The closest element React knows about, for text-only or portal wrappers
+    function describe(element) {
+        let node = element;
+        while (node && !fiberOf(node)) node = node.parentElement;
+        return describeFiber(node ? fiberOf(node) : null);
+    }
+
+    function domPath(element) {
+        const parts = [];
+        let node = element;
+        while (node && node.nodeType === 1 && node !== document.body && parts.length < MAX_DEPTH) {
+            let part = node.tagName.toLowerCase();
+            if (node.id) {
+                parts.unshift(part + '#' + CSS.escape(node.id));
+                return parts.join(' > ');
+            }
+            const classes = Array.from(node.classList).slice(0, 2);
+            if (classes.length > 0) part += '.' + classes.map(function(c) { return CSS.escape(c); }).join('.');
+            const parent = node.parentElement;
+            if (parent) {
+                const sameTag = Array.from(parent.children).filter(function(child) { return child.tagName === node.tagName; });
+                if (sameTag.length > 1) part += ':nth-of-type(' + (sameTag.indexOf(node) + 1) + ')';
+            }
+            parts.unshift(part);
+            node = parent;
+        }
+        if (node === document.body) parts.unshift('body');
+        return parts.join(' > ');
+    }
+
+    function showOverlay(element) {
+        if (!overlay) {
+            overlay = document.createElement('div');
+            overlay.style.cssText = 'position:fixed;pointer-events:none;z-index:2147483647;border:2px solid #f59e0b;background:rgba(245,158,11,0.12);border-radius:2px;transition:all 50ms';
+            label = document.createElement('div');
+            label.style.cssText = 'position:absolute;left:-2px;bottom:100%;margin-bottom:2px;padding:1px 6px;font:11px/16px ui-monospace,monospace;color:#0a0a0a;background:#f59e0b;border-radius:2px;white-space:nowrap';
+            overlay.appendChild(label);
+            document.documentElement.appendChild(overlay);
+        }
+        const rect = element.getBoundingClientRect();
+        overlay.style.left = rect.left + 'px';
+        overlay.style.top = rect.top + 'px';
+        overlay.style.width = rect.width + 'px';
+        overlay.style.height = rect.height + 'px';
+        const info = describe(element);
+        label.textContent = (info.component ? info.component + ' · ' : '') + element.tagName.toLowerCase();
+        // Keep the label inside the viewport for elements at the very top
+        label.style.bottom = rect.top < 20 ? 'auto' : '100%';
+        label.style.top = rect.top < 20 ? '100%' : 'auto';
+    }
+
+    function onMove(event) {
+        const element = event.target;
+        if (!(element instanceof Element) || element === hovered) return;
+        hovered = element;
+        showOverlay(element);
+    }
+
+    // Swallow the whole click so the page does not navigate or toggle anything
+    function block(event) {
+        event.preventDefault();
+        event.stopPropagation();
+    }
+
+    function onClick(event) {
+        block(event);
+        const element = event.target;
+        if (!(element instanceof Element)) return;
+        const text = (element.textContent || '').replace(/\\s+/g, ' ').trim();
+        channel.send('element-selected', Object.assign(describe(element), {
+            domPath: domPath(element),
+            tagName: element.tagName.toLowerCase(),
+            text: text ? text.slice(0, MAX_TEXT) : undefined,
+            viewport: { width: window.innerWidth, height: window.innerHeight }
+        }));
+        setActive(false);
+    }
+
+    function onKeyDown(event) {
+        if (event.key !== 'Escape') return;
+        block(event);
+        setActive(false);
+        channel.send('inspect-cancelled', {});
+    }
+
+    function setActive(enabled) {
+        if (enabled === active) return;
+        active = enabled;
+        const method = enabled ? 'addEventListener' : 'removeEventListener';
+        document[method]('mousemove', onMove, true);
+        document[method]('click', onClick, true);
+        document[method]('mousedown', block, true);
+        document[method]('mouseup', block, true);
+        document[method]('keydown', onKeyDown, true);
+        document.documentElement.style.cursor = enabled ? 'crosshair' : '';
+        if (!enabled) {
+            if (overlay) overlay.remove();
+            overlay = null;
+            label = null;
+            hovered = null;
+        }
+    }
+
+    channel.on('inspect', function(payload) { setActive(!!payload.enabled); });
+})();
+</script>
+`.trim();
+}
@@ -1,14 +1,84 @@
 /**
  * Error Reporter - Injected into user projects to capture runtime errors
- * This script runs in the preview iframe and sends errors to parent window
+ * This script runs in the preview iframe and sends runtime errors and Vite
+ * compile errors to the parent window. Stack frames are mapped back to the
+ * original sources through the source maps the Vite dev server serves, so a
+ * report carries the real file, line and column plus a code excerpt.
+ * It also mirrors console output, failed fetch/XHR requests and Web Vitals.
+ * Everything goes through the preview channel (see previewChannel): nothing is sent
+ * before the builder has answered the hello with its session token, and then only to
+ * the builder's origin.
  */
 
+import { PREVIEW_PROTOCOL, PREVIEW_PROTOCOL_VERSION } from './previewChannel';
+
 export function getErrorReporterScript(): string {
     return `
 <script>
 (function() {
     'use strict';
     
+    // ---- Channel to the builder ----
+    
+    const PROTOCOL = ${JSON.stringify(PREVIEW_PROTOCOL)};
+    const VERSION = ${PREVIEW_PROTOCOL_VERSION};
+    const MAX_PENDING = 200; // Messages kept until the handshake; older ones are dropped
+    const HELLO_INTERVAL_MS = 1000;
+    const MAX_HELLOS = 10;
+    let session = null; // { token, origin } once the builder has answered
+    let pending = [];
+    const commandHandlers = {}; // Command type -> handler, for commands from the builder
+    
+    function deliver(message) {
+        try {
+            window.parent.postMessage(Object.assign({ token: session.token }, message), session.origin);
+        } catch (e) {
+            // The builder is gone or the payload could not be cloned; reporting is best effort
+        }
+    }
+    
+    function send(type, payload) {
+        const message = { protocol: PROTOCOL, version: VERSION, type: type, payload: payload, timestamp: Date.now() };
+        if (session) {
+            deliver(message);
+        } else {
+            pending.push(message);
+            if (pending.length > MAX_PENDING) pending.shift();
+        }
+    }
+    
+    window.addEventListener('message', function(event) {
+        const data = event.data;
+        if (event.source !== window.parent || !data || data.protocol !== PROTOCOL || data.version !== VERSION) return;
+        
+        if (data.type === 'handshake' && typeof data.token === 'string') {
+            session = { token: data.token, origin: event.origin };
+            pending.forEach(deliver);
+            pending = [];
+        } else if (session && event.origin === session.origin && data.token === session.token) {
+            const handler = Object.prototype.hasOwnProperty.call(commandHandlers, data.type) && commandHandlers[data.type];
+            if (handler) handler(data.payload || {});
+        }
+    });
+    
+    // Greet the builder until it answers; the hello carries nothing, so any origin may see it
+    if (window.parent !== window) {
+        let hellos = 0;
+        (function hello() {
+            if (session || hellos++ >= MAX_HELLOS) return;
+            window.parent.postMessage({ protocol: PROTOCOL, version: VERSION, type: 'hello' }, '*');
+            setTimeout(hello, HELLO_INTERVAL_MS);
+        })();
+    }
+    
+    // Lets the other injected scripts use the same channel
+    Object.defineProperty(window, '__previewChannel', {
+        value: {
+            send: send,
+            on: function(type, handler) { commandHandlers[type] = handler; }
+        }
+    });
+    
     // Throttle error reporting to prevent spam
     let lastErrorTime = 0;
     const ERROR_THROTTLE_MS = 2000;
@@ -22,18 +92,147 @@ export function getErrorReporterScript(): string {
         return true;
     }
     
+    // ---- Source maps ----
+    
+    const MAX_FRAMES = 10;
+    const EXCERPT_RADIUS = 3; // Lines shown above and below the error line
+    const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+    const sourceMaps = new Map(); // module URL without query -> Promise<{ map, lines } | null>
+    
+    // "mappings" -> per generated line, segments of [column, source, line, column] (0-based)
+    function decodeMappings(mappings) {
+        const lines = [];
+        let source = 0, sourceLine = 0, sourceColumn = 0;
+        for (const line of mappings.split(';')) {
+            const segments = [];
+            let column = 0;
+            for (const segment of line ? line.split(',') : []) {
+                const values = [];
+                let value = 0, shift = 0;
+                for (const char of segment) {
+                    const digit = BASE64.indexOf(char);
+                    value += (digit & 31) << shift;
+                    if (digit & 32) {
+                        shift += 5;
+                    } else {
+                        values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+                        value = 0;
+                        shift = 0;
+                    }
+                }
+                column += values[0];
+                if (values.length >= 4) {
+                    source += values[1];
+                    sourceLine += values[2];
+                    sourceColumn += values[3];
+                    segments.push([column, source, sourceLine, sourceColumn]);
+                }
+            }
+            lines.push(segments);
+        }
+        return lines;
+    }
+    
+    function decodeBase64(data) {
+        const bytes = Uint8Array.from(atob(data), function(char) { return char.charCodeAt(0); });
+        return new TextDecoder().decode(bytes);
+    }
+    
+    // The dev server inlines a source map into every module it transforms
+    function loadSourceMap(url) {
+        const key = url.split('?')[0];
+        if (!sourceMaps.has(key)) {
+            sourceMaps.set(key, fetch(url)
+                .then(function(response) { return response.text(); })
+                .then(function(code) {
+                    const match = /\\/\\/[#@] sourceMappingURL=(\\S+)\\s*$/.exec(code);
+                    if (!match) return null;
+                    const ref = match[1];
+                    const inline = /^data:application\\/json[^,]*;base64,(.*)$/.exec(ref);
+                    return inline
+                        ? JSON.parse(decodeBase64(inline[1]))
+                        : fetch(new URL(ref, url)).then(function(response) { return response.json(); });
+                })
+                .then(function(map) {
+                    return map && map.mappings ? { map: map, lines: decodeMappings(map.mappings) } : null;
+                })
+                .catch(function() { return null; }));
+        }
+        return sourceMaps.get(key);
+    }
+    
+    // "at fn (url:line:col)", "at url:line:col" (Chrome) and "fn@url:line:col" (Firefox, Safari)
+    function parseFrames(stack) {
+        const frames = [];
+        for (const line of String(stack || '').split('\\n')) {
+            const match = /(?:at (?:(.+?) \\()?|^(.*?)@)(https?:\\/\\/[^\\s)]+?):(\\d+):(\\d+)/.exec(line.trim());
+            if (match) {
+                frames.push({ fn: match[1] || match[2] || '', url: match[3], line: Number(match[4]), column: Number(match[5]) });
+            }
+        }
+        return frames;
+    }
+    
+    // Map a generated position to the original source; frames without a map keep their URL position
+    function resolveFrame(frame) {
+        const unmapped = { fn: frame.fn, file: new URL(frame.url).pathname, line: frame.line, column: frame.column };
+        if (new URL(frame.url).origin !== location.origin) return Promise.resolve(unmapped);
+        
+        return loadSourceMap(frame.url).then(function(sourceMap) {
+            const segments = sourceMap && sourceMap.lines[frame.line - 1];
+            if (!segments || segments.length === 0) return unmapped;
+            
+            let best = segments[0];
+            for (const segment of segments) {
+                if (segment[0] <= frame.column - 1) best = segment;
+            }
+            const map = sourceMap.map;
+            const source = (map.sourceRoot || '') + map.sources[best[1]];
+            const content = map.sourcesContent && map.sourcesContent[best[1]];
+            const resolved = { fn: frame.fn, file: new URL(source, frame.url).pathname, line: best[2] + 1, column: best[3] + 1 };
+            
+            if (typeof content === 'string') {
+                const lines = content.split('\\n');
+                const start = Math.max(best[2] - EXCERPT_RADIUS, 0);
+                resolved.excerpt = {
+                    startLine: start + 1,
+                    lines: lines.slice(start, best[2] + EXCERPT_RADIUS + 1)
+                };
+            }
+            return resolved;
+        });
+    }
+    
+    // Original location of the first frame in the project's own code, and the mapped stack
+    function locateError(errorData) {
+        const frames = parseFrames(errorData.stack);
+        if (frames.length === 0 && errorData.filename && errorData.lineno) {
+            frames.push({ fn: '', url: errorData.filename, line: errorData.lineno, column: errorData.colno || 0 });
+        }
+        
+        return Promise.all(frames.slice(0, MAX_FRAMES).map(function(frame) {
+            return Promise.resolve(frame).then(resolveFrame).catch(function() { return null; });
+        })).then(function(resolved) {
+            const mapped = resolved.filter(Boolean);
+            const own = mapped.find(function(frame) {
+                return frame.file.indexOf('/src/') !== -1 && frame.file.indexOf('/node_modules/') === -1;
+            });
+            return {
+                location: own ? { file: own.file, line: own.line, column: own.column } : undefined,
+                excerpt: own ? own.excerpt : undefined,
+                mappedStack: mapped.map(function(frame) {
+                    return '    at ' + (frame.fn || '<anonymous>') + ' (' + frame.file + ':' + frame.line + ':' + frame.column + ')';
+                }).join('\\n') || undefined
+            };
+        });
+    }
+    
     function sendErrorToParent(errorData) {
         if (!canReportError()) return;
         
-        try {
-            window.parent.postMessage({
-                type: 'RUNTIME_ERROR',
-                ...errorData,
-                timestamp: Date.now()
-            }, '*');
-        } catch (e) {
-            console.error('Failed to send error to parent:', e);
-        }
+        locateError(errorData)
+            .catch(function() { return {}; })
+            .then(function(located) { send('runtime-error', { ...errorData, ...located }); });
     }
     
     // Capture global JavaScript errors
@@ -63,13 +262,41 @@ export function getErrorReporterScript(): string {
         sendErrorToParent(errorData);
     });
     
-    // Intercept console.error to catch React error boundary errors
-    const originalConsoleError = console.error;
-    console.error = function(...args) {
-        // Call original first
-        originalConsoleError.apply(console, args);
-        
-        // Check if this is a React error
+    // ---- Telemetry ----
+    
+    const MAX_LOG_TEXT = 2000;
+    const CONSOLE_FLUSH_MS = 250; // Console output is sent in batches so a chatty loop does not flood the parent
+    const MAX_BATCH = 500; // A batch stops growing here; the rest of a burst is dropped
+    let consoleQueue = [];
+    let consoleTimer = null;
+    
+    function formatArg(arg) {
+        if (typeof arg === 'string') return arg;
+        if (arg instanceof Error) return arg.stack || String(arg);
+        if (arg === undefined || typeof arg === 'function' || typeof arg === 'symbol') return String(arg);
+        try {
+            return JSON.stringify(arg);
+        } catch (e) {
+            return String(arg);
+        }
+    }
+    
+    function mirrorConsole(level, args) {
+        let text = args.map(formatArg).join(' ');
+        if (consoleQueue.length >= MAX_BATCH) return;
+        if (text.length > MAX_LOG_TEXT) text = text.slice(0, MAX_LOG_TEXT) + '…';
+        consoleQueue.push({ level: level, text: text, at: Date.now() });
+        if (consoleTimer === null) {
+            consoleTimer = setTimeout(function() {
+                send('console', { entries: consoleQueue });
+                consoleQueue = [];
+                consoleTimer = null;
+            }, CONSOLE_FLUSH_MS);
+        }
+    }
+    
+    // React reports errors caught by error boundaries through console.error
+    function checkReactError(args) {
         const errorText = args.map(arg => String(arg)).join(' ');
         
         if (errorText.includes('error boundary') || 
@@ -95,11 +322,134 @@ export function getErrorReporterScript(): string {
             console.log('🔴 React Error Detected:', errorData);
             sendErrorToParent(errorData);
         }
+    }
+    
+    ['log', 'info', 'warn', 'error', 'debug'].forEach(function(level) {
+        const original = console[level];
+        console[level] = function(...args) {
+            // Call original first
+            original.apply(console, args);
+            mirrorConsole(level, args);
+            if (level === 'error') checkReactError(args);
+        };
+    });
+    
+    // Failed requests only: an error status, or no response at all
+    function reportRequest(kind, method, url, started, status, statusText, error) {
+        if (status > 0 && status < 400) return;
+        send('network', {
+            kind: kind,
+            method: (method || 'GET').toUpperCase(),
+            url: String(url),
+            status: status,
+            statusText: statusText || undefined,
+            error: error || undefined,
+            duration: Math.round(performance.now() - started),
+            at: Date.now()
+        });
+    }
+    
+    const originalFetch = window.fetch;
+    if (originalFetch) {
+        window.fetch = function(input, init) {
+            const started = performance.now();
+            const method = (init && init.method) || (input instanceof Request ? input.method : 'GET');
+            const url = input instanceof Request ? input.url : String(input);
+            return originalFetch.apply(this, arguments).then(function(response) {
+                reportRequest('fetch', method, url, started, response.status, response.statusText);
+                return response;
+            }, function(error) {
+                reportRequest('fetch', method, url, started, 0, '', (error && error.message) || String(error));
+                throw error;
+            });
+        };
+    }
+    
+    const originalOpen = XMLHttpRequest.prototype.open;
+    const originalSend = XMLHttpRequest.prototype.send;
+    XMLHttpRequest.prototype.open = function(method, url) {
+        this.__telemetry = { method: method, url: url };
+        return originalOpen.apply(this, arguments);
     };
+    XMLHttpRequest.prototype.send = function() {
+        const request = this.__telemetry;
+        if (request) {
+            const started = performance.now();
+            let error = '';
+            this.addEventListener('error', function() { error = 'Network error'; });
+            this.addEventListener('timeout', function() { error = 'Timed out'; });
+            this.addEventListener('abort', function() { error = 'Aborted'; });
+            this.addEventListener('loadend', function() {
+                reportRequest('xhr', request.method, request.url, started, this.status, this.statusText, error);
+            });
+        }
+        return originalSend.apply(this, arguments);
+    };
+    
+    // Web Vitals, measured the way the web-vitals library does and sent whenever they change
+    function observe(type, callback, options) {
+        try {
+            const observer = new PerformanceObserver(function(list) { callback(list.getEntries()); });
+            observer.observe(Object.assign({ type: type, buffered: true }, options));
+        } catch (e) {
+            // Entry type not supported by this browser
+        }
+    }
+    
+    observe('largest-contentful-paint', function(entries) {
+        const last = entries[entries.length - 1];
+        if (last) send('vital', { name: 'LCP', value: last.startTime });
+    });
+    
+    // Largest burst of layout shifts: shifts less than 1s apart, at most 5s in total
+    let cls = 0, sessionValue = 0, sessionStart = 0, sessionLast = 0;
+    observe('layout-shift', function(entries) {
+        for (const entry of entries) {
+            if (entry.hadRecentInput) continue;
+            if (sessionValue > 0 && entry.startTime - sessionLast < 1000 && entry.startTime - sessionStart < 5000) {
+                sessionValue += entry.value;
+            } else {
+                sessionValue = entry.value;
+                sessionStart = entry.startTime;
+            }
+            sessionLast = entry.startTime;
+            if (sessionValue > cls) {
+                cls = sessionValue;
+                send('vital', { name: 'CLS', value: cls });
+            }
+        }
+    });
+    
+    // Slowest interaction, ignoring one outlier per 50 interactions
+    const interactions = new Map();
+    let inp = 0;
+    observe('event', function(entries) {
+        for (const entry of entries) {
+            if (!entry.interactionId) continue;
+            interactions.set(entry.interactionId, Math.max(interactions.get(entry.interactionId) || 0, entry.duration));
+        }
+        const durations = Array.from(interactions.values()).sort(function(a, b) { return b - a; });
+        const value = durations[Math.min(Math.floor(durations.length / 50), durations.length - 1)] || 0;
+        if (value !== inp) {
+            inp = value;
+            send('vital', { name: 'INP', value: inp });
+        }
+    }, { durationThreshold: 40 });
     
     console.log('✅ Error Reporter initialized');
 })();
 </script>
+<script type="module">
+// Forward what Vite's error overlay shows, and clear it again after a successful update
+if (import.meta.hot) {
+    import.meta.hot.on('vite:error', function(payload) {
+        window.__previewChannel.send('vite-error', { err: payload.err });
+    });
+    import.meta.hot.on('vite:afterUpdate', function() {
+        window.__previewChannel.send('vite-update', {});
+    });
+}
+</script>
 `.trim();
 }
 
@@ -114,7 +464,7 @@ export function parseStackTrace(stack: string, message?: string): { filePath: st
 
     // Pattern 1: Direct /src/ path extraction from WebContainer URLs
     // Match: https://...io/src/components/features/StatCard.tsx:20:3
-    const srcPathMatch = combinedText.match(/\.io\/src\/([^\s:)]+\.tsx?):(\\d+)/);
+    const srcPathMatch = combinedText.match(/\.io\/src\/([^\s:)]+\.tsx?):(\d+)/);
     if (srcPathMatch) {
         return {
             filePath: 'src/' + srcPathMatch[1],
@@ -136,12 +486,6 @@ export function parseStackTrace(stack: string, message?: string): { filePath: st
                 lineNumber: componentFileMatch[2] ? parseInt(componentFileMatch[2], 10) : null
             };
         }
-
-        // Fallback: construct likely path from component name
-        return {
-            filePath: `src/components/features/${componentName}.tsx`,
-            lineNumber: null
-        };
     }
 
     // Pattern 3: React component format
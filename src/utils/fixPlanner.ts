@@ -0,0 +1,94 @@
+/**
+ * Fix Planner - Group current errors into fix requests that cover related files
+ * Files with errors are grouped when one imports the other or both import the same
+ * project module, so a broken shared type and every file that uses it go to the
+ * fixer together. Each group also carries the modules its files import, since the
+ * real fix is often there.
+ */
+
+import { buildImportGraph } from './importGraph';
+import type { Diagnostic } from '../types/diagnostics.types';
+import type { ProjectFile } from '../types/project.types';
+
+export interface FixPlan {
+    files: ProjectFile[]; // Files with errors first, then their imports; the fixer may edit any of them
+    diagnostics: Diagnostic[]; // The errors this plan should resolve
+}
+
+export interface FixPlanLimits {
+    maxFiles: number;
+    maxChars: number; // Total source size sent in one request
+}
+
+const DEFAULT_LIMITS: FixPlanLimits = { maxFiles: 8, maxChars: 60000 };
+
+export function planFixes(
+    diagnostics: Diagnostic[],
+    files: ProjectFile[],
+    limits: FixPlanLimits = DEFAULT_LIMITS
+): FixPlan[] {
+    const byPath = new Map(files.map(f => [f.path, f]));
+    const errors = diagnostics.filter(d => d.severity === 'error' && byPath.has(d.file));
+    if (errors.length === 0) return [];
+
+    const { imports, importedBy } = buildImportGraph(files);
+    const errorFiles = [...new Set(errors.map(d => d.file))];
+    const size = (path: string) => byPath.get(path)!.content.length;
+
+    // Union-find over files with errors; a merge is skipped when the group would outgrow the limits
+    const parent = new Map(errorFiles.map(path => [path, path]));
+    const members = new Map(errorFiles.map(path => [path, [path]]));
+    const find = (path: string): string => {
+        const root = parent.get(path)!;
+        if (root === path) return path;
+        const top = find(root);
+        parent.set(path, top);
+        return top;
+    };
+    const union = (a: string, b: string) => {
+        const rootA = find(a);
+        const rootB = find(b);
+        if (rootA === rootB) return;
+        const merged = [...members.get(rootA)!, ...members.get(rootB)!];
+        if (merged.length > limits.maxFiles) return;
+        if (merged.reduce((total, path) => total + size(path), 0) > limits.maxChars) return;
+        parent.set(rootB, rootA);
+        members.set(rootA, merged);
+        members.delete(rootB);
+    };
+
+    const isErrorFile = new Set(errorFiles);
+    for (const path of errorFiles) {
+        for (const dep of imports.get(path) ?? []) {
+            if (isErrorFile.has(dep)) union(path, dep);
+            // Siblings: other files with errors that import the same module
+            for (const sibling of importedBy.get(dep) ?? []) {
+                if (isErrorFile.has(sibling)) union(path, sibling);
+            }
+        }
+    }
+
+    const plans = [...members.values()].map(group => {
+        const paths = [...group];
+        let chars = group.reduce((total, path) => total + size(path), 0);
+
+        // Add the modules the group imports while they fit
+        for (const path of group) {
+            for (const dep of imports.get(path) ?? []) {
+                if (paths.includes(dep) || paths.length >= limits.maxFiles) continue;
+                if (chars + size(dep) > limits.maxChars) continue;
+                paths.push(dep);
+                chars += size(dep);
+            }
+        }
+
+        const inGroup = new Set(group);
+        return {
+            files: paths.map(path => byPath.get(path)!),
+            diagnostics: errors.filter(d => inGroup.has(d.file)),
+        };
+    });
+
+    // Most errors first: one fix there helps the most
+    return plans.sort((a, b) => b.diagnostics.length - a.diagnostics.length);
+}
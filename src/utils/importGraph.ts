@@ -0,0 +1,206 @@
+/**
+ * Import Graph - Which project files import which, and repairs for imports that do not resolve
+ * Only project-local imports (relative paths and the @/ alias) become edges;
+ * packages are left out. Paths are project paths with a leading slash.
+ */
+
+import type { ProjectFile } from '../types/project.types';
+
+export interface ImportGraph {
+    imports: Map<string, Set<string>>; // file -> project files it imports
+    importedBy: Map<string, Set<string>>; // file -> project files importing it
+}
+
+const SOURCE_FILE = /\.(?:[cm]?[jt]sx?)$/;
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+// import x from 'a' / import 'a' / export { x } from 'a' / import('a')
+const IMPORT_PATTERNS = [
+    /\b(?:import|export)\s+(?:type\s+)?[^'"`;]*?\bfrom\s*['"]([^'"]+)['"]/g,
+    /\bimport\s*['"]([^'"]+)['"]/g,
+    /\bimport\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+];
+
+export function parseImports(content: string): string[] {
+    const specifiers = new Set<string>();
+    for (const pattern of IMPORT_PATTERNS) {
+        for (const match of content.matchAll(pattern)) specifiers.add(match[1]);
+    }
+    return [...specifiers];
+}
+
+// Collapse "." and ".." segments of an absolute path
+function normalizePath(path: string): string {
+    const parts: string[] = [];
+    for (const part of path.split('/')) {
+        if (!part || part === '.') continue;
+        if (part === '..') parts.pop();
+        else parts.push(part);
+    }
+    return '/' + parts.join('/');
+}
+
+/**
+ * The project file an import refers to, trying the path as written, with each
+ * source extension and as a directory index. Null for packages and unknown files.
+ */
+export function resolveImport(fromPath: string, specifier: string, paths: Set<string>): string | null {
+    let base: string;
+    if (specifier.startsWith('@/')) {
+        base = normalizePath('/src/' + specifier.slice(2));
+    } else if (specifier.startsWith('.')) {
+        base = normalizePath(fromPath.replace(/\/[^/]*$/, '') + '/' + specifier);
+    } else if (specifier.startsWith('/')) {
+        base = normalizePath(specifier);
+    } else {
+        return null;
+    }
+
+    const candidates = [
+        base,
+        ...RESOLVE_EXTENSIONS.map(ext => base + ext),
+        ...RESOLVE_EXTENSIONS.map(ext => `${base}/index${ext}`),
+    ];
+    return candidates.find(candidate => paths.has(candidate)) ?? null;
+}
+
+export function buildImportGraph(files: ProjectFile[]): ImportGraph {
+    const paths = new Set(files.map(f => f.path));
+    const imports = new Map<string, Set<string>>();
+    const importedBy = new Map<string, Set<string>>();
+
+    for (const file of files) {
+        if (!SOURCE_FILE.test(file.path)) continue;
+        const deps = new Set<string>();
+        for (const specifier of parseImports(file.content)) {
+            const target = resolveImport(file.path, specifier, paths);
+            if (!target || target === file.path) continue;
+            deps.add(target);
+            if (!importedBy.has(target)) importedBy.set(target, new Set());
+            importedBy.get(target)!.add(file.path);
+        }
+        imports.set(file.path, deps);
+    }
+
+    return { imports, importedBy };
+}
+
+// ---- Missing imports ----
+
+export type ImportResolution =
+    | { kind: 'rewrite'; file: string; from: string; to: string; target: string } // The module exists under another path
+    | { kind: 'package'; name: string } // An npm package that is not a dependency yet
+    | { kind: 'create'; path: string }; // Nothing matches; a new file has to be written
+
+const isLocalSpecifier = (specifier: string) =>
+    specifier.startsWith('.') || specifier.startsWith('/') || specifier.startsWith('@/');
+
+// "lodash/debounce" -> "lodash", "@tanstack/react-query/devtools" -> "@tanstack/react-query"
+export function packageNameOf(specifier: string): string | null {
+    if (isLocalSpecifier(specifier) || /^[a-z]+:/.test(specifier)) return null; // node:fs, virtual:..., https:...
+    const parts = specifier.split('/');
+    const name = specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+    return /^(?:@[a-z0-9][\w.-]*\/)?[a-z0-9][\w.-]*$/i.test(name) ? name : null;
+}
+
+// "/src/components/Button/index.tsx" -> "button", "/src/App.tsx" -> "app"
+const moduleName = (path: string) => {
+    const parts = path.toLowerCase().split('/');
+    const last = parts.pop()!.replace(/\.[^.]+$/, '');
+    return last === 'index' && parts.length > 0 ? parts.pop()! : last;
+};
+
+// Segments two paths share from the root, to prefer the candidate closest to where the import pointed
+const sharedPrefix = (a: string, b: string) => {
+    const left = a.split('/');
+    const right = b.split('/');
+    let count = 0;
+    while (count < left.length && left[count] === right[count]) count++;
+    return count;
+};
+
+// The specifier `fromPath` should use for `targetPath`, in the same style as `original`
+export function toImportSpecifier(fromPath: string, targetPath: string, original: string): string {
+    let target = targetPath;
+    // Keep an extension only if it was written and is still right
+    const extension = (path: string) => SOURCE_FILE.exec(path)?.[0];
+    if (!extension(original) || extension(original) !== extension(targetPath)) target = target.replace(SOURCE_FILE, '');
+    if (!/\/index(?:\.[^/]*)?$/.test(original)) target = target.replace(/\/index$/, '');
+
+    if (original.startsWith('@/') && target.startsWith('/src/')) return '@/' + target.slice('/src/'.length);
+
+    const fromDir = fromPath.split('/').slice(0, -1);
+    const to = target.split('/');
+    let shared = 0;
+    while (shared < fromDir.length && shared < to.length - 1 && fromDir[shared] === to[shared]) shared++;
+    const ups = fromDir.length - shared;
+    const rest = to.slice(shared).join('/');
+    return ups === 0 ? './' + rest : '../'.repeat(ups) + rest;
+}
+
+/**
+ * Work out a missing import of `fromPath` without asking the LLM: the same module under
+ * a different case, extension or directory, an npm package to add, or, when nothing
+ * fits, the path a new file should get. Null when the import needs a real code change
+ * (e.g. a package that is already a dependency).
+ */
+export function resolveMissingImport(
+    fromPath: string,
+    specifier: string,
+    files: ProjectFile[],
+    packageJson: string
+): ImportResolution | null {
+    const packageName = packageNameOf(specifier);
+    if (packageName) {
+        try {
+            const pkg = JSON.parse(packageJson);
+            const known = { ...pkg.dependencies, ...pkg.devDependencies, ...pkg.peerDependencies };
+            return packageName in known ? null : { kind: 'package', name: packageName };
+        } catch {
+            return null;
+        }
+    }
+    if (!isLocalSpecifier(specifier)) return null;
+
+    const paths = new Set(files.map(f => f.path));
+    if (resolveImport(fromPath, specifier, paths)) return null; // Resolves now; the error is stale
+
+    const base = specifier.startsWith('@/')
+        ? normalizePath('/src/' + specifier.slice(2))
+        : specifier.startsWith('/')
+            ? normalizePath(specifier)
+            : normalizePath(fromPath.replace(/\/[^/]*$/, '') + '/' + specifier);
+    const wanted = base.replace(SOURCE_FILE, '').toLowerCase();
+    const sources = files.map(f => f.path).filter(path => SOURCE_FILE.test(path) && path !== fromPath);
+
+    // Same path apart from case or extension, then the same module name anywhere in the project
+    const sameStem = sources.filter(path => {
+        const stem = path.replace(SOURCE_FILE, '').toLowerCase();
+        return stem === wanted || stem === wanted + '/index';
+    });
+    const sameName = sameStem.length > 0 ? sameStem : sources.filter(path => moduleName(path) === moduleName(base));
+    if (sameName.length > 0) {
+        const target = [...sameName].sort((a, b) => sharedPrefix(b, base) - sharedPrefix(a, base))[0];
+        return { kind: 'rewrite', file: fromPath, from: specifier, to: toImportSpecifier(fromPath, target, specifier), target };
+    }
+
+    // Only code can be generated; a missing stylesheet or asset needs a human
+    if (/\.[a-z]+$/i.test(base) && !SOURCE_FILE.test(base)) return null;
+    return { kind: 'create', path: SOURCE_FILE.test(base) ? base : base + '.tsx' };
+}
+
+// Point every import of `from` in `content` at `to`
+export function rewriteImport(content: string, from: string, to: string): string {
+    const escaped = from.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return content.replace(
+        new RegExp(`(\\bfrom\\s*|\\bimport\\s*\\(?\\s*)(['"])${escaped}\\2`, 'g'),
+        (_match, prefix: string, quote: string) => `${prefix}${quote}${to}${quote}`
+    );
+}
+
+// package.json with `name` added to its dependencies
+export function addDependency(packageJson: string, name: string, version = 'latest'): string {
+    const pkg = JSON.parse(packageJson);
+    pkg.dependencies = { ...pkg.dependencies, [name]: version };
+    return JSON.stringify(pkg, null, 2) + '\n';
+}
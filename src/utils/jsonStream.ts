@@ -0,0 +1,82 @@
+/**
+ * JSON Stream - Incrementally decode one string field of a JSON body while it downloads
+ * Lets callers start working on a large `{ "response": "..." }` payload before the
+ * request finishes, instead of waiting for the whole body to parse.
+ */
+
+export interface JsonStringFieldReader {
+    // Feed the next slice of raw body text; returns the newly decoded part of the field
+    push: (chunk: string) => string;
+    // Total number of decoded characters returned so far
+    readonly decodedLength: number;
+}
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+    '"': '"',
+    '\\': '\\',
+    '/': '/',
+    b: '\b',
+    f: '\f',
+    n: '\n',
+    r: '\r',
+    t: '\t',
+};
+
+export function createJsonStringFieldReader(field: string): JsonStringFieldReader {
+    const keyPattern = new RegExp(`"${field}"\\s*:\\s*"`);
+    let pending = '';
+    let state: 'seeking' | 'reading' | 'done' = 'seeking';
+    let decodedLength = 0;
+
+    const push = (chunk: string): string => {
+        if (state === 'done') return '';
+        pending += chunk;
+
+        if (state === 'seeking') {
+            const match = keyPattern.exec(pending);
+            if (!match) return '';
+            pending = pending.slice(match.index + match[0].length);
+            state = 'reading';
+        }
+
+        let out = '';
+        let i = 0;
+        while (i < pending.length) {
+            const ch = pending[i];
+            if (ch === '"') {
+                state = 'done';
+                i = pending.length;
+                break;
+            }
+            if (ch !== '\\') {
+                out += ch;
+                i++;
+                continue;
+            }
+
+            // Escape sequence split across chunks - wait for the rest
+            const next = pending[i + 1];
+            if (next === undefined) break;
+            if (next === 'u') {
+                const hex = pending.slice(i + 2, i + 6);
+                if (hex.length < 4) break;
+                out += String.fromCharCode(parseInt(hex, 16));
+                i += 6;
+            } else {
+                out += SIMPLE_ESCAPES[next] ?? next;
+                i += 2;
+            }
+        }
+
+        pending = pending.slice(i);
+        decodedLength += out.length;
+        return out;
+    };
+
+    return {
+        push,
+        get decodedLength() {
+            return decodedLength;
+        },
+    };
+}
@@ -0,0 +1,15 @@
+// Determine language for Monaco from file extension
+export const getLanguage = (path: string): string => {
+    const ext = path.split('.').pop()?.toLowerCase();
+    const languageMap: Record<string, string> = {
+        tsx: 'typescript',
+        ts: 'typescript',
+        jsx: 'javascript',
+        js: 'javascript',
+        css: 'css',
+        html: 'html',
+        json: 'json',
+        md: 'markdown',
+    };
+    return languageMap[ext || ''] || 'plaintext';
+};
@@ -0,0 +1,122 @@
+/**
+ * Output Buffer - Ring buffer of everything the builder and its processes print
+ * Nothing is filtered on the way in: each line is kept raw and as plain text, with the
+ * channel it came from (the builder or a process id), a timestamp and a level guessed
+ * from its text. Once the configured number of lines is reached the oldest go first.
+ * Like the process registry, there is one buffer per page.
+ */
+
+import { stripAnsi } from './diagnostics';
+import type { OutputLevel, OutputLine } from '../types/process.types';
+
+export const BUILDER_CHANNEL = 'builder';
+export const OUTPUT_CAPACITY_OPTIONS = [1000, 5000, 20000, 50000];
+
+const DEFAULT_CAPACITY = 5000;
+const CAPACITY_KEY = 'terminalOutputCapacity';
+const ERROR_PATTERN = /\berror\b|ERR!|✘|❌/i;
+const WARN_PATTERN = /\bwarn(ing)?\b|⚠/i;
+
+function readCapacity(): number {
+    const stored = Number(localStorage.getItem(CAPACITY_KEY));
+    return OUTPUT_CAPACITY_OPTIONS.includes(stored) ? stored : DEFAULT_CAPACITY;
+}
+
+let capacity = readCapacity();
+let lines: OutputLine[] = [];
+let head = 0; // Index of the oldest line once the buffer is full
+let nextSeq = 1;
+const partialLines = new Map<string, string>(); // Per channel, output after its last newline
+const listeners = new Set<() => void>();
+
+const emit = () => listeners.forEach(listener => listener());
+
+export function levelOf(text: string): OutputLevel {
+    if (ERROR_PATTERN.test(text)) return 'error';
+    if (WARN_PATTERN.test(text)) return 'warn';
+    return 'info';
+}
+
+function push(channel: string, raw: string, level?: OutputLevel) {
+    // After a carriage return a terminal overwrites the line, e.g. with npm's progress
+    const text = stripAnsi(raw).split('\r').pop() ?? '';
+    const line: OutputLine = Object.freeze({ seq: nextSeq++, channel, at: Date.now(), level: level ?? levelOf(text), raw, text });
+    if (lines.length < capacity) {
+        lines.push(line);
+    } else {
+        lines[head] = line;
+        head = (head + 1) % capacity;
+    }
+}
+
+// Called after every change; reading the lines again is up to the listener
+export function subscribeOutput(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+// Oldest first
+export function readOutput(): OutputLine[] {
+    return head === 0 ? lines.slice() : [...lines.slice(head), ...lines.slice(0, head)];
+}
+
+// A complete line, e.g. a builder message
+export function appendLine(channel: string, raw: string, level?: OutputLevel): void {
+    push(channel, raw, level);
+    emit();
+}
+
+// A chunk of process output; a line is stored once its newline arrives
+export function writeOutput(channel: string, data: string): void {
+    const pieces = ((partialLines.get(channel) ?? '') + data).split('\n');
+    partialLines.set(channel, pieces.pop() ?? '');
+    if (pieces.length === 0) return;
+    pieces.forEach(piece => push(channel, piece.replace(/\r$/, '')));
+    emit();
+}
+
+// Store what is left of a channel's last line, e.g. when its process ends
+export function flushOutput(channel: string): void {
+    const rest = partialLines.get(channel);
+    partialLines.delete(channel);
+    if (!rest) return;
+    push(channel, rest);
+    emit();
+}
+
+export function clearOutput(): void {
+    lines = [];
+    head = 0;
+    partialLines.clear();
+    emit();
+}
+
+export function getOutputCapacity(): number {
+    return capacity;
+}
+
+// Shrinking keeps the newest lines
+export function setOutputCapacity(next: number): void {
+    if (next === capacity || next < 1) return;
+    lines = readOutput().slice(-next);
+    head = 0;
+    capacity = next;
+    localStorage.setItem(CAPACITY_KEY, String(next));
+    emit();
+}
+
+// Plain-text log for bug reports: one "time [channel] LEVEL text" line per output line
+export function formatOutputLog(output: OutputLine[], channelName: (channel: string) => string): string {
+    const header = [
+        `# Terminal output exported ${new Date().toISOString()}`,
+        `# ${output.length} lines, buffer keeps ${capacity}`,
+        `# ${navigator.userAgent}`,
+        '',
+    ];
+    const body = output.map(line =>
+        `${new Date(line.at).toISOString()} [${channelName(line.channel)}] ${line.level.toUpperCase().padEnd(5)} ${line.text}`
+    );
+    return [...header, ...body].join('\n') + '\n';
+}
@@ -0,0 +1,378 @@
+/**
+ * Patch - Parse and apply edits produced by the LLM
+ * Used for chirAction type="edit" so a follow-up prompt can change one function
+ * without the model having to rewrite the whole file, and by the auto-fixer so
+ * /api/fix-error can answer with a unified diff or search/replace blocks.
+ */
+
+import type { SearchReplaceHunk } from '../hooks/types';
+import type { ProjectFile } from '../types/project.types';
+import { diffLines } from './diff';
+
+export interface PatchResult {
+    content: string;
+    applied: number;
+    failed: SearchReplaceHunk[];
+}
+
+// A hunk plus the 1-based line where the diff expects it to start
+export interface LocatedHunk extends SearchReplaceHunk {
+    lineHint?: number;
+}
+
+export interface FilePatch {
+    path: string | null;
+    hunks: LocatedHunk[];
+}
+
+export interface MultiFilePatchResult {
+    files: ProjectFile[]; // Changed and created files with their new content
+    failed: string[]; // Files the patch could not be applied to cleanly
+}
+
+// How many unchanged lines may be dropped from each end of a hunk when matching
+const MAX_FUZZ = 2;
+
+const SEARCH_MARKER = /^<{5,}\s*SEARCH\s*$/;
+const DIVIDER_MARKER = /^={5,}\s*$/;
+const REPLACE_MARKER = /^>{5,}\s*REPLACE\s*$/;
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/*
+ * Parse search/replace blocks:
+ *
+ * <<<<<<< SEARCH
+ * const a = 1;
+ * =======
+ * const a = 2;
+ * >>>>>>> REPLACE
+ *
+ * An empty SEARCH section means "append REPLACE to the end of the file".
+ */
+export function parseSearchReplaceBlocks(text: string): SearchReplaceHunk[] {
+    const hunks: SearchReplaceHunk[] = [];
+    const lines = text.replace(/\r\n/g, '\n').split('\n');
+
+    let section: 'none' | 'search' | 'replace' = 'none';
+    let search: string[] = [];
+    let replace: string[] = [];
+
+    for (const line of lines) {
+        if (SEARCH_MARKER.test(line)) {
+            section = 'search';
+            search = [];
+            replace = [];
+        } else if (section === 'search' && DIVIDER_MARKER.test(line)) {
+            section = 'replace';
+        } else if (section === 'replace' && REPLACE_MARKER.test(line)) {
+            hunks.push({ search: search.join('\n'), replace: replace.join('\n') });
+            section = 'none';
+        } else if (section === 'search') {
+            search.push(line);
+        } else if (section === 'replace') {
+            replace.push(line);
+        }
+    }
+
+    return hunks;
+}
+
+export function isUnifiedDiff(text: string): boolean {
+    return /^@@ -\d+(?:,\d+)? \+\d+(?:,\d+)? @@/m.test(text);
+}
+
+const stripDiffPath = (raw: string): string | null => {
+    const path = raw.split('\t')[0].trim();
+    if (path === '/dev/null') return null;
+    return path.replace(/^[ab]\//, '');
+};
+
+/*
+ * Parse a unified diff into search/replace hunks. Line counts in the @@ headers are
+ * ignored because models frequently get them wrong; a hunk runs until the next header
+ * or the first line that is not part of a diff, such as an explanation after it.
+ * Empty lines are kept as blank context, since models often drop the leading space.
+ */
+export function parseUnifiedDiff(text: string): FilePatch[] {
+    const patches: FilePatch[] = [];
+    const lines = text.replace(/\r\n/g, '\n').split('\n');
+
+    let current: FilePatch | null = null;
+    let hunk: { lineHint: number; search: string[]; replace: string[] } | null = null;
+
+    const flushHunk = () => {
+        if (hunk && current) {
+            current.hunks.push({
+                search: hunk.search.join('\n'),
+                replace: hunk.replace.join('\n'),
+                lineHint: hunk.lineHint,
+            });
+        }
+        hunk = null;
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+            flushHunk();
+            current = { path: stripDiffPath(lines[i + 1].slice(4)) ?? stripDiffPath(line.slice(4)), hunks: [] };
+            patches.push(current);
+            i++;
+            continue;
+        }
+
+        const header = HUNK_HEADER.exec(line);
+        if (header) {
+            flushHunk();
+            if (!current) {
+                current = { path: null, hunks: [] };
+                patches.push(current);
+            }
+            hunk = { lineHint: parseInt(header[1], 10), search: [], replace: [] };
+            continue;
+        }
+
+        if (!hunk) continue;
+
+        if (line.startsWith('\\')) {
+            // "\ No newline at end of file"
+            continue;
+        } else if (line.startsWith('-')) {
+            hunk.search.push(line.slice(1));
+        } else if (line.startsWith('+')) {
+            hunk.replace.push(line.slice(1));
+        } else if (line === '' || line.startsWith(' ')) {
+            const context = line.slice(1);
+            hunk.search.push(context);
+            hunk.replace.push(context);
+        } else {
+            flushHunk();
+        }
+    }
+    flushHunk();
+
+    // Trailing blank context produced by the final newline of the diff text
+    for (const patch of patches) {
+        for (const h of patch.hunks) {
+            while (h.search.endsWith('\n') && h.replace.endsWith('\n')) {
+                h.search = h.search.slice(0, -1);
+                h.replace = h.replace.slice(0, -1);
+            }
+        }
+    }
+
+    return patches.filter(patch => patch.hunks.length > 0);
+}
+
+const normalizeLine = (line: string) => line.trim().replace(/\s+/g, ' ');
+
+// Start indexes where `needle` occurs as consecutive lines of `haystack`
+function findLineMatches(haystack: string[], needle: string[], normalize: (line: string) => string): number[] {
+    const matches: number[] = [];
+    if (needle.length === 0) return matches;
+
+    const target = needle.map(normalize);
+    for (let start = 0; start + target.length <= haystack.length; start++) {
+        let ok = true;
+        for (let j = 0; j < target.length; j++) {
+            if (normalize(haystack[start + j]) !== target[j]) {
+                ok = false;
+                break;
+            }
+        }
+        if (ok) matches.push(start);
+    }
+    return matches;
+}
+
+// Pick the only match, or the one nearest the hint; ambiguous matches are rejected
+function pickMatch(matches: number[], hintIndex: number | undefined): number | null {
+    if (matches.length === 1) return matches[0];
+    if (matches.length === 0 || hintIndex === undefined) return null;
+
+    const sorted = [...matches].sort((a, b) => Math.abs(a - hintIndex) - Math.abs(b - hintIndex));
+    if (Math.abs(sorted[0] - hintIndex) === Math.abs(sorted[1] - hintIndex)) return null;
+    return sorted[0];
+}
+
+// Number of identical lines at the start and end of search and replace, i.e. pure context
+function sharedContext(search: string[], replace: string[]): { leading: number; trailing: number } {
+    let leading = 0;
+    while (leading < search.length && leading < replace.length && search[leading] === replace[leading]) {
+        leading++;
+    }
+    let trailing = 0;
+    while (
+        trailing < search.length - leading &&
+        trailing < replace.length - leading &&
+        search[search.length - 1 - trailing] === replace[replace.length - 1 - trailing]
+    ) {
+        trailing++;
+    }
+    return { leading, trailing };
+}
+
+/*
+ * The replacement for `matched` (the file lines a hunk's search lines matched): lines
+ * the hunk keeps come from the file as-is, so a whitespace-insensitive match does
+ * not rewrite its context with the model's spacing; only changed lines are taken
+ * from `replace`.
+ */
+function spliceChanges(matched: string[], search: string[], replace: string[]): string[] {
+    const result: string[] = [];
+    let index = 0;
+    for (const op of diffLines(search, replace)) {
+        if (op.kind === 'add') result.push(op.line);
+        else if (op.kind === 'same') result.push(matched[index++]);
+        else index++;
+    }
+    return result;
+}
+
+/*
+ * Locate one hunk and splice in its replacement. Matching gets progressively looser:
+ * exact text, exact lines, whitespace-insensitive lines, then (like `patch --fuzz`)
+ * the same with up to MAX_FUZZ context lines dropped from either end. Returns null
+ * when the hunk cannot be placed unambiguously.
+ */
+function applyHunk(content: string, hunk: LocatedHunk, lineOffset: number): { content: string; lineDelta: number } | null {
+    if (!hunk.search) {
+        const appended = content.endsWith('\n') || !content ? content + hunk.replace : `${content}\n${hunk.replace}`;
+        return { content: appended, lineDelta: hunk.replace.split('\n').length };
+    }
+
+    const searchLines = hunk.search.split('\n');
+    const replaceLines = hunk.replace.split('\n');
+    const lineDelta = replaceLines.length - searchLines.length;
+
+    if (hunk.lineHint === undefined) {
+        const index = content.indexOf(hunk.search);
+        if (index !== -1 && content.indexOf(hunk.search, index + 1) === -1) {
+            return {
+                content: content.slice(0, index) + hunk.replace + content.slice(index + hunk.search.length),
+                lineDelta,
+            };
+        }
+    }
+
+    const contentLines = content.split('\n');
+    const hintIndex = hunk.lineHint !== undefined ? Math.max(0, hunk.lineHint - 1 + lineOffset) : undefined;
+    const { leading, trailing } = sharedContext(searchLines, replaceLines);
+
+    for (let fuzz = 0; fuzz <= MAX_FUZZ; fuzz++) {
+        const dropStart = Math.min(fuzz, leading);
+        const dropEnd = Math.min(fuzz, trailing);
+        if (fuzz > 0 && dropStart === 0 && dropEnd === 0) break;
+
+        const search = searchLines.slice(dropStart, searchLines.length - dropEnd);
+        const replace = replaceLines.slice(dropStart, replaceLines.length - dropEnd);
+        if (search.length === 0) break;
+
+        for (const normalize of [(line: string) => line, normalizeLine]) {
+            const match = pickMatch(
+                findLineMatches(contentLines, search, normalize),
+                hintIndex !== undefined ? hintIndex + dropStart : undefined
+            );
+            if (match !== null) {
+                const matched = contentLines.slice(match, match + search.length);
+                contentLines.splice(match, search.length, ...spliceChanges(matched, search, replace));
+                return { content: contentLines.join('\n'), lineDelta };
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Apply hunks in order. A hunk that cannot be located cleanly is skipped and
+ * reported in `failed`; the remaining hunks are still applied.
+ */
+export function applySearchReplace(content: string, hunks: LocatedHunk[]): PatchResult {
+    let result = content;
+    let applied = 0;
+    let lineOffset = 0;
+    const failed: SearchReplaceHunk[] = [];
+
+    for (const hunk of hunks) {
+        const outcome = applyHunk(result, hunk, lineOffset);
+        if (!outcome) {
+            failed.push(hunk);
+            continue;
+        }
+        result = outcome.content;
+        lineOffset += outcome.lineDelta;
+        applied++;
+    }
+
+    return { content: result, applied, failed };
+}
+
+/**
+ * Apply an LLM patch in either unified-diff or search/replace format. When the diff
+ * covers several files only the section for `filePath` is used.
+ */
+export function applyLlmPatch(content: string, patch: string, filePath?: string): PatchResult {
+    if (!isUnifiedDiff(patch)) {
+        return applySearchReplace(content, parseSearchReplaceBlocks(patch));
+    }
+
+    const filePatches = parseUnifiedDiff(patch);
+    const wanted = filePath?.replace(/^\//, '');
+    const filePatch = filePatches.length === 1
+        ? filePatches[0]
+        : filePatches.find(p => p.path && wanted && (p.path === wanted || wanted.endsWith(p.path)));
+
+    if (!filePatch) return { content, applied: 0, failed: [] };
+    return applySearchReplace(content, filePatch.hunks);
+}
+
+/**
+ * Apply a unified diff spanning several files. A section for a file that does not
+ * exist yet is accepted when it only adds lines; `existingPaths` lists every file of
+ * the project, so one that exists but was not sent along is never created over.
+ * Search/replace blocks name no file, so they are only usable when there is a single
+ * file to patch.
+ */
+export function applyMultiFilePatch(files: ProjectFile[], patch: string, existingPaths: string[] = []): MultiFilePatchResult {
+    const byPath = new Map(files.map(f => [f.path.replace(/^\//, ''), f]));
+    const projectPaths = existingPaths.map(path => path.replace(/^\//, ''));
+
+    if (!isUnifiedDiff(patch)) {
+        if (files.length !== 1) return { files: [], failed: files.map(f => f.path) };
+        const { content, applied, failed } = applySearchReplace(files[0].content, parseSearchReplaceBlocks(patch));
+        return applied > 0 && failed.length === 0
+            ? { files: content !== files[0].content ? [{ path: files[0].path, content }] : [], failed: [] }
+            : { files: [], failed: [files[0].path] };
+    }
+
+    const changed: ProjectFile[] = [];
+    const failedPaths: string[] = [];
+    for (const filePatch of parseUnifiedDiff(patch)) {
+        const wanted = filePatch.path ?? '';
+        const file = byPath.get(wanted) ?? [...byPath.entries()].find(([path]) => wanted && path.endsWith('/' + wanted))?.[1];
+
+        if (!file) {
+            const exists = projectPaths.some(path => path === wanted || path.endsWith('/' + wanted));
+            if (!wanted || exists || filePatch.hunks.some(h => h.search.trim())) {
+                failedPaths.push(wanted || '(unnamed file)');
+                continue;
+            }
+            changed.push({ path: '/' + wanted, content: applySearchReplace('', filePatch.hunks).content });
+            continue;
+        }
+
+        const base = changed.find(f => f.path === file.path)?.content ?? file.content;
+        const { content, failed } = applySearchReplace(base, filePatch.hunks);
+        if (failed.length > 0) {
+            failedPaths.push(file.path);
+            continue;
+        }
+        const existing = changed.find(f => f.path === file.path);
+        if (existing) existing.content = content;
+        else if (content !== file.content) changed.push({ path: file.path, content });
+    }
+
+    return { files: changed, failed: failedPaths };
+}
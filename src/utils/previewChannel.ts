@@ -0,0 +1,168 @@
+/**
+ * Preview Channel - The only way messages from the preview iframe reach the builder
+ * Every message is an envelope of the versioned protocol below. The preview greets the
+ * builder with `hello`; the builder answers with a per-session token, and from then on
+ * a message is accepted only if it comes from the current preview origin, carries that
+ * token and its payload matches the schema of its type. Everything else is dropped.
+ * Commands to the preview carry the same token and go only to the preview origin.
+ */
+
+import type { RuntimeErrorReport, ViteErrorPayload } from './diagnostics';
+import type { SelectedElement } from '../types/api.types';
+import type { ConsoleLevel, NetworkEntry, WebVitalName } from '../types/telemetry.types';
+
+export const PREVIEW_PROTOCOL = 'preview-channel';
+export const PREVIEW_PROTOCOL_VERSION = 2;
+
+export interface PreviewEnvelope<T extends string, P> {
+    protocol: string;
+    version: number;
+    token: string;
+    type: T;
+    payload: P;
+    timestamp: number;
+}
+
+export type PreviewMessage =
+    | PreviewEnvelope<'runtime-error', RuntimeErrorReport>
+    | PreviewEnvelope<'vite-error', { err: ViteErrorPayload }>
+    | PreviewEnvelope<'vite-update', Record<string, never>>
+    | PreviewEnvelope<'console', { entries: { level: ConsoleLevel; text: string; at: number }[] }>
+    | PreviewEnvelope<'network', Omit<NetworkEntry, 'id'>>
+    | PreviewEnvelope<'vital', { name: WebVitalName; value: number }>
+    | PreviewEnvelope<'element-selected', SelectedElement>
+    | PreviewEnvelope<'inspect-cancelled', Record<string, never>>
+    | PreviewEnvelope<'route-changed', { path: string }>
+    | PreviewEnvelope<'screenshot', PreviewScreenshot>;
+
+export type PreviewMessageType = PreviewMessage['type'];
+
+// Builder -> preview, once the handshake is done
+export type PreviewCommand =
+    | PreviewEnvelope<'inspect', { enabled: boolean }>
+    | PreviewEnvelope<'navigate', PreviewNavigation>
+    | PreviewEnvelope<'capture', { requestId: string }>;
+
+export type PreviewNavigation =
+    | { action: 'back' | 'forward' | 'reload' }
+    | { action: 'go'; path: string };
+
+// One frame's answer to `capture`: its viewport and a PNG of the page, or why it has none
+export interface PreviewScreenshot {
+    requestId: string;
+    width: number;
+    height: number;
+    image?: string;
+    error?: string;
+}
+
+// Builder -> preview, in reply to `hello`
+export interface PreviewHandshake {
+    protocol: string;
+    version: number;
+    type: 'handshake';
+    token: string;
+}
+
+// ---- Schema ----
+
+type Check = (value: unknown) => boolean;
+
+const isString: Check = value => typeof value === 'string';
+const isNumber: Check = value => typeof value === 'number' && Number.isFinite(value);
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+const optional = (check: Check): Check => value => value === undefined || check(value);
+// Only PNG data URLs are shown as images, never a URL the preview could point anywhere
+const isPngDataUrl: Check = value => typeof value === 'string' && value.startsWith('data:image/png;base64,');
+const oneOf = (...values: string[]): Check => value => typeof value === 'string' && values.includes(value);
+
+// An object whose listed fields pass their checks; unlisted fields are allowed and ignored
+const shape = (fields: Record<string, Check>): Check => value =>
+    isRecord(value) && Object.entries(fields).every(([key, check]) => check(value[key]));
+
+const arrayOf = (check: Check, max: number): Check => value =>
+    Array.isArray(value) && value.length <= max && value.every(check);
+
+const location = shape({ file: isString, line: isNumber, column: isNumber });
+const excerpt = shape({ startLine: isNumber, lines: arrayOf(isString, 100) });
+
+const PAYLOAD_SCHEMAS: Record<PreviewMessageType, Check> = {
+    'runtime-error': shape({
+        message: optional(isString),
+        stack: optional(isString),
+        errorType: optional(isString),
+        location: optional(location),
+        excerpt: optional(excerpt),
+        mappedStack: optional(isString),
+    }),
+    'vite-error': shape({
+        err: shape({
+            message: isString,
+            stack: optional(isString),
+            id: optional(isString),
+            frame: optional(isString),
+            plugin: optional(isString),
+            loc: optional(shape({ file: optional(isString), line: isNumber, column: isNumber })),
+        }),
+    }),
+    'vite-update': isRecord,
+    console: shape({
+        entries: arrayOf(shape({ level: oneOf('log', 'info', 'warn', 'error', 'debug'), text: isString, at: isNumber }), 1000),
+    }),
+    network: shape({
+        kind: oneOf('fetch', 'xhr'),
+        method: isString,
+        url: isString,
+        status: isNumber,
+        statusText: optional(isString),
+        error: optional(isString),
+        duration: isNumber,
+        at: isNumber,
+    }),
+    vital: shape({ name: oneOf('LCP', 'CLS', 'INP'), value: isNumber }),
+    'element-selected': shape({
+        component: optional(isString),
+        file: optional(isString),
+        line: optional(isNumber),
+        column: optional(isNumber),
+        domPath: isString,
+        tagName: isString,
+        text: optional(isString),
+        viewport: optional(shape({ width: isNumber, height: isNumber })),
+    }),
+    'inspect-cancelled': isRecord,
+    'route-changed': shape({ path: isString }),
+    screenshot: shape({
+        requestId: isString,
+        width: isNumber,
+        height: isNumber,
+        image: optional(isPngDataUrl),
+        error: optional(isString),
+    }),
+};
+
+const speaksProtocol = (data: Record<string, unknown>) =>
+    data.protocol === PREVIEW_PROTOCOL && data.version === PREVIEW_PROTOCOL_VERSION;
+
+// The preview asking for a session token
+export function isPreviewHello(data: unknown): boolean {
+    return isRecord(data) && speaksProtocol(data) && data.type === 'hello';
+}
+
+// `data` as a message of the session with `token`, or null when it is not one
+export function parsePreviewMessage(data: unknown, token: string): PreviewMessage | null {
+    if (!isRecord(data) || !speaksProtocol(data) || data.token !== token) return null;
+    if (!isNumber(data.timestamp) || !isString(data.type)) return null;
+    if (!Object.prototype.hasOwnProperty.call(PAYLOAD_SCHEMAS, data.type as string)) return null;
+    return PAYLOAD_SCHEMAS[data.type as PreviewMessageType](data.payload) ? data as unknown as PreviewMessage : null;
+}
+
+// "https://abc--5173--xyz.webcontainer-api.io/" -> "https://abc--5173--xyz.webcontainer-api.io"
+export function originOf(url: string): string | null {
+    try {
+        return new URL(url).origin;
+    } catch {
+        return null;
+    }
+}
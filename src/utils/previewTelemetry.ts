@@ -0,0 +1,21 @@
+/**
+ * Preview Telemetry - Rating and formatting of the Web Vitals the preview reports
+ */
+
+import type { WebVitalName, WebVitalRating } from '../types/telemetry.types';
+
+// Upper bounds of "good" and "needs improvement", from web.dev
+const VITAL_THRESHOLDS: Record<WebVitalName, [number, number]> = {
+    LCP: [2500, 4000],
+    CLS: [0.1, 0.25],
+    INP: [200, 500],
+};
+
+export function rateVital(name: WebVitalName, value: number): WebVitalRating {
+    const [good, poor] = VITAL_THRESHOLDS[name];
+    return value <= good ? 'good' : value <= poor ? 'needs-improvement' : 'poor';
+}
+
+export function formatVital(name: WebVitalName, value: number): string {
+    return name === 'CLS' ? value.toFixed(3) : `${Math.round(value)} ms`;
+}
@@ -0,0 +1,160 @@
+/**
+ * Process Registry - Every process spawned in the WebContainer, by id
+ * Each process keeps its own status, exit code and output buffer, so a dev server, a
+ * type-checker in watch mode and ad-hoc commands can run side by side and be listed,
+ * attached to and stopped one at a time. Every process runs on a pseudoterminal, so
+ * input is passed through as typed and output kept raw, ANSI sequences included. All
+ * output also goes to the output buffer, on a channel named after the process id. Like
+ * the WebContainer itself, there is one registry per page.
+ */
+
+import type { WebContainer, WebContainerProcess } from '@webcontainer/api';
+import { flushOutput, writeOutput } from './outputBuffer';
+import type { ProcessInfo, ProcessKind } from '../types/process.types';
+
+const MAX_OUTPUT_CHARS = 200000; // Per process; the oldest output goes first
+
+interface ProcessEntry {
+    info: ProcessInfo;
+    process: WebContainerProcess;
+    output: string;
+    attached: Set<(data: string) => void>;
+    input: WritableStreamDefaultWriter<string> | null;
+}
+
+export interface SpawnedProcess {
+    id: string;
+    exit: Promise<number>; // Resolves once the process ends, also when it was killed
+}
+
+const entries = new Map<string, ProcessEntry>();
+const listeners = new Set<() => void>();
+let nextId = 1;
+
+const emit = () => listeners.forEach(listener => listener());
+
+// Infos are replaced, never mutated, so they can be kept in React state
+const update = (entry: ProcessEntry, changes: Partial<ProcessInfo>) => {
+    entry.info = { ...entry.info, ...changes };
+    emit();
+};
+
+// Called whenever a process starts, ends or is removed
+export function subscribeProcesses(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+// In the order they were started
+export function listProcesses(): ProcessInfo[] {
+    return [...entries.values()].map(entry => entry.info);
+}
+
+export async function spawnProcess(
+    instance: WebContainer,
+    program: string,
+    args: string[],
+    options: {
+        name?: string;
+        kind?: ProcessKind;
+        terminal?: { cols: number; rows: number }; // Size of its pseudoterminal
+    } = {}
+): Promise<SpawnedProcess> {
+    const process = await instance.spawn(program, args, options.terminal ? { terminal: options.terminal } : undefined);
+    const id = `proc-${nextId++}`;
+    const command = [program, ...args].join(' ');
+    const entry: ProcessEntry = {
+        info: {
+            id,
+            kind: options.kind ?? 'command',
+            name: options.name ?? command,
+            command,
+            status: 'running',
+            exitCode: null,
+            startedAt: Date.now(),
+        },
+        process,
+        output: '',
+        attached: new Set(),
+        input: null,
+    };
+    entries.set(id, entry);
+    emit();
+
+    process.output.pipeTo(new WritableStream({
+        write(data) {
+            entry.output = (entry.output + data).slice(-MAX_OUTPUT_CHARS);
+            entry.attached.forEach(listener => listener(data));
+            writeOutput(id, data);
+        }
+    })).catch(() => {
+        // The stream errors when the process is killed mid-write
+    });
+
+    const exit = process.exit.then(exitCode => {
+        flushOutput(id);
+        const status = entry.info.status === 'killed' ? 'killed' : exitCode === 0 ? 'exited' : 'failed';
+        update(entry, { status, exitCode, endedAt: entry.info.endedAt ?? Date.now() });
+        return exitCode;
+    });
+
+    return { id, exit };
+}
+
+// Output so far, then everything the process writes until the returned function is called
+export function attachProcess(id: string, listener: (data: string) => void): () => void {
+    const entry = entries.get(id);
+    if (!entry) return () => { };
+    if (entry.output) listener(entry.output);
+    entry.attached.add(listener);
+    return () => {
+        entry.attached.delete(listener);
+    };
+}
+
+export function readProcessOutput(id: string): string {
+    return entries.get(id)?.output ?? '';
+}
+
+// Typed input for the process's terminal; ignored once it has ended
+export async function writeProcessInput(id: string, data: string): Promise<void> {
+    const entry = entries.get(id);
+    if (!entry || entry.info.status !== 'running') return;
+    if (!entry.input) entry.input = entry.process.input.getWriter();
+    await entry.input.write(data);
+}
+
+// Tell the process its terminal changed size, so full-screen output reflows
+export function resizeProcess(id: string, cols: number, rows: number): void {
+    const entry = entries.get(id);
+    if (!entry || entry.info.status !== 'running' || cols < 1 || rows < 1) return;
+    entry.process.resize({ cols, rows });
+}
+
+// False when there is no such process or it already ended
+export function killProcess(id: string): boolean {
+    const entry = entries.get(id);
+    if (!entry || entry.info.status !== 'running') return false;
+    entry.process.kill();
+    update(entry, { status: 'killed', endedAt: Date.now() });
+    return true;
+}
+
+// Forget a process that has ended, with its output
+export function removeProcess(id: string): void {
+    const entry = entries.get(id);
+    if (!entry || entry.info.status === 'running') return;
+    entries.delete(id);
+    emit();
+}
+
+// Kill everything and start over with an empty registry
+export function clearProcesses(): void {
+    for (const entry of entries.values()) {
+        if (entry.info.status === 'running') entry.process.kill();
+    }
+    entries.clear();
+    emit();
+}
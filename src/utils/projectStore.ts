@@ -0,0 +1,565 @@
+/**
+ * Project Store - Offline-first project persistence on top of IndexedDB
+ * Every save lands in the local store first and is queued in an outbox that is
+ * flushed to the backend in the background, retrying with backoff while it is
+ * unreachable. Files the server changed in the meantime surface as conflicts
+ * instead of being overwritten.
+ */
+
+import { api } from './api';
+import { STORES, deleteRecord, getAll, getAllByIndex, getRecord, putRecord } from './db';
+import { moveSnapshots } from './versionHistory';
+import type { GenerationCheckpoint, LocalProject, OutboxEntry, ProjectFile, SyncConflict, SyncStatus } from '../types/project.types';
+
+export type SyncEvent =
+    | { type: 'status'; projectId: string; status: SyncStatus }
+    | { type: 'id-changed'; from: string; to: string };
+
+export interface NewProjectData {
+    prompt: string;
+    files: ProjectFile[];
+    blueprint?: unknown;
+    sessionId?: string;
+    userId?: string | null;
+    status?: string;
+    generation?: GenerationCheckpoint;
+}
+
+// Shape of a project as returned by GET /api/projects/:id
+export interface ServerProject {
+    name?: string;
+    prompt?: string;
+    blueprint?: unknown;
+    status?: string;
+    generation?: GenerationCheckpoint | null;
+    files: ProjectFile[];
+}
+
+export interface GenerationProgress {
+    status: string;
+    generation?: GenerationCheckpoint; // Omitted once the generation has finished
+}
+
+const LOCAL_ID_PREFIX = 'local-';
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+const FLUSH_DEBOUNCE_MS = 2000;
+const SYNC_INTERVAL_MS = 15000;
+
+const listeners = new Set<(event: SyncEvent) => void>();
+const renamedIds = new Map<string, string>();
+let flushing: Promise<void> | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let inFlightEntryId: string | null = null;
+let syncUsers = 0;
+let syncTimer: ReturnType<typeof setInterval> | null = null;
+
+// Read-modify-write of project records must not interleave (e.g. fast typing)
+let writeQueue: Promise<unknown> = Promise.resolve();
+const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = writeQueue.then(task, task);
+    writeQueue = run.catch(() => undefined);
+    return run;
+};
+
+export const isLocalProjectId = (id: string) => id.startsWith(LOCAL_ID_PREFIX);
+
+// Callers may still hold the temporary id of a project that has since been created on the server
+const resolveId = (id: string) => renamedIds.get(id) ?? id;
+
+const normalizePath = (path: string) => (path.startsWith('/') ? path : '/' + path);
+
+const toRecord = (files: ProjectFile[]): Record<string, string> =>
+    Object.fromEntries(files.map(f => [normalizePath(f.path), f.content]));
+
+const upsertFile = (files: ProjectFile[], path: string, content: string): ProjectFile[] =>
+    files.some(f => f.path === path)
+        ? files.map(f => (f.path === path ? { path, content } : f))
+        : [...files, { path, content }];
+
+// Exponential backoff with jitter so reconnecting tabs don't retry in lockstep
+const retryDelay = (attempts: number) => {
+    const delay = Math.min(RETRY_BASE_MS * 2 ** attempts, RETRY_MAX_MS);
+    return delay / 2 + Math.random() * (delay / 2);
+};
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+const emit = (event: SyncEvent) => listeners.forEach(listener => listener(event));
+
+export function subscribe(listener: (event: SyncEvent) => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export async function getLocalProject(id: string): Promise<LocalProject | undefined> {
+    return getRecord<LocalProject>(STORES.projects, resolveId(id));
+}
+
+// Most recently edited first
+export async function listLocalProjects(): Promise<LocalProject[]> {
+    const projects = await getAll<LocalProject>(STORES.projects);
+    return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getPendingCount(projectId: string): Promise<number> {
+    const entries = await getAllByIndex<OutboxEntry>(STORES.outbox, 'projectId', resolveId(projectId));
+    return entries.length;
+}
+
+async function refreshStatus(projectId: string, lastError?: string): Promise<void> {
+    const status = await serialize(async () => {
+        const project = await getLocalProject(projectId);
+        if (!project) return null;
+
+        const entries = await getAllByIndex<OutboxEntry>(STORES.outbox, 'projectId', project.id);
+        const syncStatus: SyncStatus = project.conflicts.length > 0
+            ? 'conflict'
+            : entries.length === 0
+                ? 'synced'
+                : entries.some(e => e.attempts > 0) ? 'offline' : 'pending';
+
+        await putRecord(STORES.projects, {
+            ...project,
+            syncStatus,
+            lastError: syncStatus === 'offline' ? lastError ?? project.lastError : undefined,
+        });
+        return syncStatus;
+    });
+
+    if (status) emit({ type: 'status', projectId: resolveId(projectId), status });
+}
+
+// Add paths to the project's open PATCH entry, or open a new one. Must run inside serialize().
+async function enqueuePatch(projectId: string, paths: string[]): Promise<void> {
+    const entries = await getAllByIndex<OutboxEntry>(STORES.outbox, 'projectId', projectId);
+    const waiting = entries.filter(e => e.id !== inFlightEntryId);
+
+    // A queued create uploads every file anyway
+    if (waiting.some(e => e.kind === 'create')) return;
+
+    const open = waiting.find(e => e.kind === 'patch');
+    if (open) {
+        await putRecord(STORES.outbox, { ...open, paths: Array.from(new Set([...open.paths, ...paths])) });
+        return;
+    }
+
+    const now = Date.now();
+    await putRecord<OutboxEntry>(STORES.outbox, {
+        id: `out-${now}-${crypto.randomUUID().slice(0, 8)}`,
+        projectId,
+        kind: 'patch',
+        paths,
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: now,
+    });
+}
+
+// Open a progress entry unless one is already waiting - it sends whatever is current. Must run inside serialize().
+async function enqueueProgress(projectId: string): Promise<void> {
+    const entries = await getAllByIndex<OutboxEntry>(STORES.outbox, 'projectId', projectId);
+    const waiting = entries.filter(e => e.id !== inFlightEntryId);
+    if (waiting.some(e => e.kind === 'create' || e.kind === 'progress')) return;
+
+    const now = Date.now();
+    await putRecord<OutboxEntry>(STORES.outbox, {
+        id: `out-${now}-${crypto.randomUUID().slice(0, 8)}`,
+        projectId,
+        kind: 'progress',
+        paths: [],
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: now,
+    });
+}
+
+function scheduleFlush(delay = FLUSH_DEBOUNCE_MS) {
+    if (flushTimer) clearTimeout(flushTimer);
+    flushTimer = setTimeout(() => {
+        flushTimer = null;
+        void flushOutbox();
+    }, delay);
+}
+
+/**
+ * Create a project on the backend. If the backend is unreachable the project is
+ * kept under a temporary local id and the create is retried from the outbox.
+ */
+export async function createProject(data: NewProjectData): Promise<LocalProject> {
+    const files = data.files.map(f => ({ path: normalizePath(f.path), content: f.content }));
+    const base = {
+        prompt: data.prompt,
+        blueprint: data.blueprint,
+        sessionId: data.sessionId,
+        userId: data.userId,
+        status: data.status,
+        generation: data.generation,
+        files,
+        conflicts: [],
+        updatedAt: Date.now(),
+    };
+
+    let lastError: string | undefined;
+    try {
+        const created = await api.projects.create({ ...data, files });
+        if (created.success) {
+            const project: LocalProject = {
+                ...base,
+                id: created.projectId,
+                name: created.name,
+                serverFiles: toRecord(files),
+                syncStatus: 'synced',
+            };
+            await putRecord(STORES.projects, project);
+            return project;
+        }
+        lastError = created.error || 'Project was not saved';
+    } catch (err) {
+        lastError = errorMessage(err);
+        console.warn('Backend unavailable, keeping project locally:', lastError);
+    }
+
+    const now = Date.now();
+    const project: LocalProject = {
+        ...base,
+        id: `${LOCAL_ID_PREFIX}${now}-${crypto.randomUUID().slice(0, 8)}`,
+        serverFiles: {},
+        syncStatus: 'offline',
+        lastError,
+    };
+    await putRecord(STORES.projects, project);
+    await putRecord<OutboxEntry>(STORES.outbox, {
+        id: `out-${now}-${crypto.randomUUID().slice(0, 8)}`,
+        projectId: project.id,
+        kind: 'create',
+        paths: [],
+        attempts: 1,
+        nextAttemptAt: now + retryDelay(1),
+        createdAt: now,
+    });
+    emit({ type: 'status', projectId: project.id, status: 'offline' });
+    return project;
+}
+
+/**
+ * Store the server copy of a project. Local edits that have not been synced yet
+ * win - the outbox flush compares them against the server and reports conflicts.
+ */
+export async function cacheServerProject(id: string, server: ServerProject): Promise<LocalProject> {
+    return serialize(async () => {
+        const existing = await getLocalProject(id);
+        const pending = await getAllByIndex<OutboxEntry>(STORES.outbox, 'projectId', id);
+        if (existing && (pending.length > 0 || existing.conflicts.length > 0)) return existing;
+
+        const files = server.files.map(f => ({ path: normalizePath(f.path), content: f.content }));
+        const project: LocalProject = {
+            ...existing,
+            id,
+            name: server.name,
+            prompt: server.prompt,
+            blueprint: server.blueprint,
+            status: server.status,
+            generation: server.generation ?? undefined,
+            files,
+            serverFiles: toRecord(files),
+            conflicts: [],
+            syncStatus: 'synced',
+            lastError: undefined,
+            updatedAt: Date.now(),
+        };
+        await putRecord(STORES.projects, project);
+        return project;
+    });
+}
+
+/**
+ * Save changed files locally and queue them for upload. `serverFiles` records
+ * content the backend is already known to hold (e.g. files it rewrote itself during
+ * a chat), so it is not mistaken for a concurrent change.
+ */
+export async function queueFilePatch(
+    projectId: string,
+    files: ProjectFile[],
+    options: { serverFiles?: ProjectFile[] } = {}
+): Promise<void> {
+    const id = resolveId(projectId);
+    const changed = files.map(f => ({ path: normalizePath(f.path), content: f.content }));
+
+    await serialize(async () => {
+        const project: LocalProject = await getLocalProject(id) ?? {
+            id,
+            files: [],
+            serverFiles: {},
+            conflicts: [],
+            syncStatus: 'pending',
+            updatedAt: Date.now(),
+        };
+
+        const nextFiles = changed.reduce((acc, f) => upsertFile(acc, f.path, f.content), project.files);
+        await putRecord(STORES.projects, {
+            ...project,
+            files: nextFiles,
+            serverFiles: { ...project.serverFiles, ...toRecord(options.serverFiles ?? []) },
+            updatedAt: Date.now(),
+        });
+        await enqueuePatch(id, changed.map(f => f.path));
+    });
+
+    await refreshStatus(id);
+    scheduleFlush();
+}
+
+// Delete files locally and queue their deletion on the server
+export async function queueFileDeletion(projectId: string, paths: string[]): Promise<void> {
+    const id = resolveId(projectId);
+    const removed = paths.map(normalizePath);
+
+    await serialize(async () => {
+        const project = await getLocalProject(id);
+        if (!project) return;
+
+        await putRecord(STORES.projects, {
+            ...project,
+            files: project.files.filter(f => !removed.includes(f.path)),
+            conflicts: project.conflicts.filter(c => !removed.includes(c.path)),
+            updatedAt: Date.now(),
+        });
+        await enqueuePatch(id, removed);
+    });
+
+    await refreshStatus(id);
+    scheduleFlush();
+}
+
+/**
+ * Record how far a generation got (or that it finished) locally and queue it for
+ * upload, so an interrupted run can be found and continued later.
+ */
+export async function saveGenerationProgress(projectId: string, progress: GenerationProgress): Promise<void> {
+    const id = resolveId(projectId);
+
+    await serialize(async () => {
+        const project = await getLocalProject(id);
+        if (!project) return;
+
+        await putRecord(STORES.projects, {
+            ...project,
+            status: progress.status,
+            generation: progress.generation,
+            updatedAt: Date.now(),
+        });
+        await enqueueProgress(id);
+    });
+
+    await refreshStatus(id);
+    scheduleFlush();
+}
+
+// Drop the local copy and anything still queued for it (after deleting the project)
+export async function forgetProject(projectId: string): Promise<void> {
+    const id = resolveId(projectId);
+    await serialize(async () => {
+        const entries = await getAllByIndex<OutboxEntry>(STORES.outbox, 'projectId', id);
+        for (const entry of entries) {
+            await deleteRecord(STORES.outbox, entry.id);
+        }
+        await deleteRecord(STORES.projects, id);
+    });
+}
+
+/**
+ * Settle a conflict by keeping the local file (it is uploaded over the server copy)
+ * or taking the server's. Returns the file content that is now current.
+ */
+export async function resolveConflict(projectId: string, path: string, keep: 'local' | 'server'): Promise<ProjectFile | null> {
+    const id = resolveId(projectId);
+
+    const resolved = await serialize(async () => {
+        const project = await getLocalProject(id);
+        const conflict = project?.conflicts.find(c => c.path === path);
+        if (!project || !conflict) return null;
+
+        const content = keep === 'server' ? conflict.server : conflict.local;
+        await putRecord(STORES.projects, {
+            ...project,
+            files: upsertFile(project.files, path, content),
+            serverFiles: { ...project.serverFiles, [path]: conflict.server },
+            conflicts: project.conflicts.filter(c => c.path !== path),
+            updatedAt: Date.now(),
+        });
+        if (keep === 'local') await enqueuePatch(id, [path]);
+        return { path, content };
+    });
+
+    await refreshStatus(id);
+    if (resolved) scheduleFlush(0);
+    return resolved;
+}
+
+async function sendCreate(entry: OutboxEntry): Promise<string> {
+    const project = await getLocalProject(entry.projectId);
+    if (!project) return entry.projectId;
+
+    const created = await api.projects.create({
+        sessionId: project.sessionId,
+        userId: project.userId,
+        prompt: project.prompt ?? '',
+        files: project.files,
+        blueprint: project.blueprint,
+        status: project.status,
+        generation: project.generation,
+    }, { retries: 0 });
+    if (!created.success) {
+        throw new Error(created.error || 'Project was not saved');
+    }
+
+    const id = created.projectId;
+    const uploaded = toRecord(project.files);
+
+    await serialize(async () => {
+        const latest = await getLocalProject(entry.projectId) ?? project;
+        await putRecord(STORES.projects, { ...latest, id, name: created.name ?? latest.name, serverFiles: uploaded });
+        await deleteRecord(STORES.projects, entry.projectId);
+
+        // Edits made while the create was in flight still need to go up under the new id
+        const entries = await getAllByIndex<OutboxEntry>(STORES.outbox, 'projectId', entry.projectId);
+        for (const other of entries) {
+            await deleteRecord(STORES.outbox, other.id);
+            if (other.kind !== 'create') await putRecord(STORES.outbox, { ...other, projectId: id });
+        }
+        renamedIds.set(entry.projectId, id);
+    });
+
+    await moveSnapshots(entry.projectId, id);
+    emit({ type: 'id-changed', from: entry.projectId, to: id });
+    return id;
+}
+
+async function sendPatch(entry: OutboxEntry): Promise<void> {
+    const project = await getLocalProject(entry.projectId);
+    if (!project) return;
+
+    const local = toRecord(project.files);
+    const paths = entry.paths.filter(path => path in local);
+    const removed = entry.paths.filter(path => !(path in local));
+    if (paths.length === 0 && removed.length === 0) return;
+
+    // Three-way check per file: last synced content vs. server now vs. local now
+    const remoteProject = await api.projects.get(project.id, { retries: 0 });
+    const server = toRecord(remoteProject.files);
+    const deleted = removed.filter(path => path in server);
+    const conflicts: SyncConflict[] = [];
+    const upload: ProjectFile[] = [];
+
+    for (const path of paths) {
+        const base = project.serverFiles[path];
+        const remote = server[path];
+        if (base !== undefined && remote !== undefined && remote !== base && remote !== local[path]) {
+            conflicts.push({ path, local: local[path], server: remote });
+        } else if (remote !== local[path]) {
+            upload.push({ path, content: local[path] });
+        }
+    }
+
+    if (upload.length > 0) {
+        await api.projects.patchFiles(project.id, upload, { retries: 0 });
+    }
+    if (deleted.length > 0) {
+        await api.projects.deleteFiles(project.id, deleted, { retries: 0 });
+    }
+
+    await serialize(async () => {
+        const latest = await getLocalProject(project.id);
+        if (!latest) return;
+
+        const serverFiles = { ...latest.serverFiles };
+        paths.forEach(path => {
+            if (!conflicts.some(c => c.path === path)) serverFiles[path] = local[path];
+        });
+        removed.forEach(path => {
+            delete serverFiles[path];
+        });
+        await putRecord(STORES.projects, {
+            ...latest,
+            serverFiles,
+            conflicts: [...latest.conflicts.filter(c => !conflicts.some(n => n.path === c.path)), ...conflicts],
+        });
+    });
+}
+
+async function sendProgress(entry: OutboxEntry): Promise<void> {
+    const project = await getLocalProject(entry.projectId);
+    if (!project) return;
+
+    await api.projects.update(project.id, {
+        status: project.status,
+        generation: project.generation ?? null,
+    }, { retries: 0 });
+}
+
+async function runFlush(force: boolean): Promise<void> {
+    const entries = (await getAll<OutboxEntry>(STORES.outbox)).sort((a, b) => a.createdAt - b.createdAt);
+    // Entries of one project go out in order - stop at the first one that has to wait
+    const blocked = new Set<string>();
+
+    for (const entry of entries) {
+        if (blocked.has(entry.projectId)) continue;
+        if (!force && entry.nextAttemptAt > Date.now()) {
+            blocked.add(entry.projectId);
+            continue;
+        }
+
+        inFlightEntryId = entry.id;
+        try {
+            const projectId = entry.kind === 'create' ? await sendCreate(entry) : entry.projectId;
+            if (entry.kind === 'patch') await sendPatch(entry);
+            if (entry.kind === 'progress') await sendProgress(entry);
+            await deleteRecord(STORES.outbox, entry.id);
+            await refreshStatus(projectId);
+        } catch (err) {
+            blocked.add(entry.projectId);
+            const attempts = entry.attempts + 1;
+            await putRecord(STORES.outbox, { ...entry, attempts, nextAttemptAt: Date.now() + retryDelay(attempts) });
+            await refreshStatus(entry.projectId, errorMessage(err));
+        } finally {
+            inFlightEntryId = null;
+        }
+    }
+}
+
+// Send everything that is due. `force` ignores backoff (manual retry, back online).
+export function flushOutbox(force = false): Promise<void> {
+    if (!flushing) {
+        flushing = runFlush(force)
+            .catch(err => console.error('Outbox flush failed:', err))
+            .finally(() => {
+                flushing = null;
+            });
+    }
+    return flushing;
+}
+
+export const retryNow = () => flushOutbox(true);
+
+const handleOnline = () => {
+    void flushOutbox(true);
+};
+
+// Periodic flush plus an immediate one when the browser comes back online. Returns a stop function.
+export function startBackgroundSync(): () => void {
+    if (syncUsers++ === 0) {
+        syncTimer = setInterval(() => void flushOutbox(), SYNC_INTERVAL_MS);
+        window.addEventListener('online', handleOnline);
+        void flushOutbox();
+    }
+
+    return () => {
+        if (--syncUsers > 0) return;
+        if (syncTimer) clearInterval(syncTimer);
+        syncTimer = null;
+        window.removeEventListener('online', handleOnline);
+    };
+}
@@ -0,0 +1,65 @@
+/**
+ * Route Tracker - Injected into user projects next to the error reporter
+ * Reports the current path whenever the SPA navigates (history API, back/forward and
+ * hash changes), and carries out the builder's back, forward, reload and go commands.
+ */
+
+export function getRouteTrackerScript(): string {
+    return `
+<script>
+(function() {
+    'use strict';
+
+    const channel = window.__previewChannel;
+    if (!channel) return;
+
+    let lastPath = null;
+
+    function currentPath() {
+        return location.pathname + location.search + location.hash;
+    }
+
+    function report() {
+        const path = currentPath();
+        if (path === lastPath) return;
+        lastPath = path;
+        channel.send('route-changed', { path: path });
+    }
+
+    // Routers navigate through pushState/replaceState, which fire no event of their own
+    ['pushState', 'replaceState'].forEach(function(method) {
+        const original = history[method];
+        history[method] = function() {
+            const result = original.apply(this, arguments);
+            report();
+            return result;
+        };
+    });
+    window.addEventListener('popstate', report);
+    window.addEventListener('hashchange', report);
+
+    channel.on('navigate', function(payload) {
+        if (payload.action === 'back') {
+            history.back();
+        } else if (payload.action === 'forward') {
+            history.forward();
+        } else if (payload.action === 'reload') {
+            location.reload();
+        } else if (payload.action === 'go' && typeof payload.path === 'string') {
+            const path = payload.path.charAt(0) === '/' ? payload.path : '/' + payload.path;
+            if (location.hash.indexOf('#/') === 0) {
+                // HashRouter keeps the route in the hash
+                location.hash = path;
+            } else {
+                // BrowserRouter listens for popstate after the URL changed
+                history.pushState(null, '', path);
+                window.dispatchEvent(new PopStateEvent('popstate', { state: null }));
+            }
+        }
+    });
+
+    report();
+})();
+</script>
+`.trim();
+}
@@ -0,0 +1,96 @@
+/**
+ * Routes - The pages of a generated site, for the preview's route list
+ * Read from the react-router config in the source (JSX <Route> elements or route
+ * objects); when there is none yet, guessed from the blueprint's page nodes. Nested
+ * relative paths are taken from the root, which holds for the flat routers we generate.
+ */
+
+import type { ProjectBlueprint } from '../types/planning.types';
+import type { ProjectFile } from '../types/project.types';
+
+export interface PreviewRoute {
+    path: string; // Absolute, e.g. "/products/:id"
+    label: string; // Component rendered for it, or the blueprint page name
+    hasParams: boolean; // Needs values filled in before it can be opened
+    source: 'router' | 'blueprint';
+}
+
+const ROUTER_FILE = /react-router/;
+const ROUTE_ELEMENT = /<Route\b/g;
+const ROUTE_OBJECT = /\bpath\s*:\s*(['"`])([^'"`]*)\1/g;
+const ROUTE_WINDOW = 300; // Characters after a route's start searched for its attributes
+
+function normalizeRoutePath(path: string): string | null {
+    const trimmed = path.trim();
+    if (trimmed === '*' || trimmed === '/*') return null; // Catch-all
+    const absolute = '/' + trimmed.replace(/^\/+/, '').replace(/\/\*$/, '');
+    return absolute.length > 1 ? absolute.replace(/\/+$/, '') : absolute;
+}
+
+// Home first, then alphabetical
+const sortRoutes = (routes: PreviewRoute[]) =>
+    routes.sort((a, b) => (a.path === '/' ? -1 : b.path === '/' ? 1 : a.path.localeCompare(b.path)));
+
+// "<Home />" or "Home" next to a route -> "Home"
+const elementName = (text: string) =>
+    /\belement\s*[=:]\s*\{?\s*<\s*([A-Z][\w.]*)/.exec(text)?.[1] ?? /\bComponent\s*[=:]\s*\{?\s*([A-Z][\w.]*)/.exec(text)?.[1];
+
+export function routesFromFiles(files: ProjectFile[]): PreviewRoute[] {
+    const routes = new Map<string, PreviewRoute>();
+    // An index route names the page better than the layout route sharing its path
+    const add = (rawPath: string, context: string, isIndex = false) => {
+        const path = normalizeRoutePath(rawPath);
+        if (!path || (routes.has(path) && !isIndex)) return;
+        routes.set(path, {
+            path,
+            label: elementName(context) ?? path,
+            hasParams: path.includes(':'),
+            source: 'router',
+        });
+    };
+
+    for (const file of files) {
+        if (!/\.[jt]sx?$/.test(file.path) || !ROUTER_FILE.test(file.content)) continue;
+        const content = file.content;
+
+        // <Route path="/about" element={<About />} />, attributes in any order; index routes are "/"
+        for (const match of content.matchAll(ROUTE_ELEMENT)) {
+            const rest = content.slice(match.index! + match[0].length, match.index! + ROUTE_WINDOW);
+            const tag = rest.split(/<Route\b/)[0];
+            const path = /\bpath\s*=\s*\{?\s*(['"`])([^'"`]*)\1/.exec(tag)?.[2];
+            if (path !== undefined) add(path, tag);
+            else if (/\bindex\b/.test(tag)) add('/', tag, true);
+        }
+
+        // createBrowserRouter([{ path: '/about', element: <About /> }]) and useRoutes(...)
+        if (/createBrowserRouter|createHashRouter|useRoutes|RouteObject/.test(content)) {
+            for (const match of content.matchAll(ROUTE_OBJECT)) {
+                add(match[2], content.slice(match.index!, match.index! + ROUTE_WINDOW));
+            }
+        }
+    }
+
+    return sortRoutes([...routes.values()]);
+}
+
+// "Home Page" -> "/", "About Us Page" -> "/about-us"
+export function routesFromBlueprint(blueprint: ProjectBlueprint | null): PreviewRoute[] {
+    const pages = blueprint?.workflow.nodes.filter(node => node.type === 'page') ?? [];
+    const routes = new Map<string, PreviewRoute>();
+    for (const page of pages) {
+        const slug = page.label
+            .replace(/\bpage\b/i, '')
+            .trim()
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-|-$/g, '');
+        const path = !slug || slug === 'home' || slug === 'landing' || slug === 'index' ? '/' : '/' + slug;
+        if (!routes.has(path)) routes.set(path, { path, label: page.label, hasParams: false, source: 'blueprint' });
+    }
+    return sortRoutes([...routes.values()]);
+}
+
+export function previewRoutes(files: ProjectFile[], blueprint: ProjectBlueprint | null): PreviewRoute[] {
+    const fromRouter = routesFromFiles(files);
+    return fromRouter.length > 0 ? fromRouter : routesFromBlueprint(blueprint);
+}
@@ -0,0 +1,144 @@
+/**
+ * Screenshot Capture - Injected into user projects next to the error reporter
+ * On the builder's `capture` command the page is drawn into a canvas the way
+ * html2canvas-style tools do it: the DOM is cloned with every computed style inlined,
+ * wrapped in an SVG foreignObject and rasterized. Same-origin images and canvases are
+ * embedded; cross-origin images, CSS background images and web fonts are not.
+ */
+
+export function getScreenshotScript(): string {
+    return `
+<script>
+(function() {
+    'use strict';
+
+    const channel = window.__previewChannel;
+    if (!channel) return;
+
+    const MAX_VIEWPORTS = 3; // Page height captured, in viewports from the top
+    const BLANK = 'data:image/gif;base64,R0lGODlhAQABAAAAACH5BAEKAAEALAAAAAABAAEAAAICTAEAOw==';
+
+    function toDataUrl(blob) {
+        return new Promise(function(resolve, reject) {
+            const reader = new FileReader();
+            reader.onload = function() { resolve(reader.result); };
+            reader.onerror = function() { reject(reader.error); };
+            reader.readAsDataURL(blob);
+        });
+    }
+
+    // An image outside the SVG never loads in it, so embed it or leave it blank
+    function embedImage(source, clone) {
+        const src = source.currentSrc || source.src;
+        clone.removeAttribute('srcset');
+        if (!src || src.indexOf('data:') === 0) return Promise.resolve();
+        return fetch(src)
+            .then(function(response) {
+                if (!response.ok) throw new Error(String(response.status));
+                return response.blob();
+            })
+            .then(toDataUrl)
+            .then(function(dataUrl) { clone.setAttribute('src', dataUrl); })
+            .catch(function() { clone.setAttribute('src', BLANK); });
+    }
+
+    // Walks the page and its clone side by side, so both trees must still match
+    function inline(source, clone, pending) {
+        if (source.nodeType !== 1) return;
+        const computed = getComputedStyle(source);
+        let css = '';
+        for (let i = 0; i < computed.length; i++) {
+            const name = computed[i];
+            css += name + ':' + computed.getPropertyValue(name) + ';';
+        }
+        clone.setAttribute('style', css);
+
+        const tag = source.tagName;
+        if (tag === 'IMG') {
+            pending.push(embedImage(source, clone));
+        } else if (tag === 'INPUT') {
+            clone.setAttribute('value', source.value);
+            if (source.checked) clone.setAttribute('checked', '');
+        } else if (tag === 'TEXTAREA') {
+            clone.textContent = source.value;
+        } else if (tag === 'CANVAS') {
+            try {
+                clone.setAttribute('data-snapshot', source.toDataURL());
+            } catch (e) {
+                // Tainted by cross-origin content
+            }
+        }
+
+        for (let i = 0; i < source.childNodes.length; i++) {
+            inline(source.childNodes[i], clone.childNodes[i], pending);
+        }
+    }
+
+    // Canvases cannot carry their pixels into markup, so they become images
+    function replaceCanvases(root) {
+        root.querySelectorAll('canvas').forEach(function(canvas) {
+            const img = document.createElement('img');
+            img.setAttribute('style', canvas.getAttribute('style') || '');
+            img.setAttribute('src', canvas.getAttribute('data-snapshot') || BLANK);
+            canvas.replaceWith(img);
+        });
+    }
+
+    function loadImage(src) {
+        return new Promise(function(resolve, reject) {
+            const img = new Image();
+            img.onload = function() { resolve(img); };
+            img.onerror = function() { reject(new Error('The page could not be rasterized')); };
+            img.src = src;
+        });
+    }
+
+    function capture() {
+        const root = document.documentElement;
+        const width = root.clientWidth;
+        const height = Math.min(root.scrollHeight, window.innerHeight * MAX_VIEWPORTS);
+        const clone = root.cloneNode(true);
+        const pending = [];
+        inline(root, clone, pending);
+
+        return Promise.all(pending).then(function() {
+            replaceCanvases(clone);
+            // Styles are inline now; scripts must not run and the head only adds weight
+            clone.querySelectorAll('script, noscript, style, link, head').forEach(function(node) { node.remove(); });
+
+            const markup = new XMLSerializer().serializeToString(clone);
+            const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="' + width + '" height="' + height + '">' +
+                '<foreignObject x="0" y="0" width="100%" height="100%">' + markup + '</foreignObject></svg>';
+            return loadImage('data:image/svg+xml;charset=utf-8,' + encodeURIComponent(svg));
+        }).then(function(img) {
+            const canvas = document.createElement('canvas');
+            canvas.width = width;
+            canvas.height = height;
+            const context = canvas.getContext('2d');
+            context.fillStyle = '#ffffff';
+            context.fillRect(0, 0, width, height);
+            context.drawImage(img, 0, 0);
+            return canvas.toDataURL('image/png');
+        });
+    }
+
+    // The builder repeats a request until every frame has loaded; each is answered once
+    let lastRequestId = null;
+    channel.on('capture', function(payload) {
+        if (typeof payload.requestId !== 'string' || payload.requestId === lastRequestId) return;
+        lastRequestId = payload.requestId;
+        const reply = { requestId: payload.requestId, width: window.innerWidth, height: window.innerHeight };
+        capture()
+            .then(function(image) {
+                reply.image = image;
+                channel.send('screenshot', reply);
+            })
+            .catch(function(error) {
+                reply.error = String(error && error.message || error);
+                channel.send('screenshot', reply);
+            });
+    });
+})();
+</script>
+`.trim();
+}
@@ -0,0 +1,193 @@
+/**
+ * SSE - Server-sent event parsing and a reconnecting stream reader
+ * Follows the EventSource wire format (event/data/id/retry fields, multi-line data,
+ * comments, any line ending) but runs over fetch so POST bodies and headers work.
+ * When the server tags events with ids, a dropped connection is resumed with
+ * Last-Event-ID instead of starting over.
+ */
+
+export interface SseEvent {
+    event: string; // "message" when the server sent no event field
+    data: string;
+    id?: string;
+}
+
+export interface SseParser {
+    push: (chunk: string) => SseEvent[];
+    // Flush a final event that was not terminated by a blank line
+    end: () => SseEvent[];
+    readonly lastEventId: string | undefined;
+    readonly retryMs: number | undefined;
+}
+
+export function createSseParser(): SseParser {
+    let buffer = '';
+    let eventType = '';
+    let dataLines: string[] = [];
+    let hasData = false;
+    let eventId: string | undefined;
+    let lastEventId: string | undefined;
+    let retryMs: number | undefined;
+
+    const dispatch = (out: SseEvent[]) => {
+        if (eventId !== undefined) lastEventId = eventId;
+        if (hasData) {
+            out.push({ event: eventType || 'message', data: dataLines.join('\n'), id: lastEventId });
+        }
+        eventType = '';
+        dataLines = [];
+        hasData = false;
+        eventId = undefined;
+    };
+
+    const processLine = (line: string, out: SseEvent[]) => {
+        if (line === '') {
+            dispatch(out);
+            return;
+        }
+        if (line.startsWith(':')) return; // comment / keep-alive
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        let value = colon === -1 ? '' : line.slice(colon + 1);
+        if (value.startsWith(' ')) value = value.slice(1);
+
+        switch (field) {
+            case 'event':
+                eventType = value;
+                break;
+            case 'data':
+                dataLines.push(value);
+                hasData = true;
+                break;
+            case 'id':
+                if (!value.includes('\0')) eventId = value;
+                break;
+            case 'retry':
+                if (/^\d+$/.test(value)) retryMs = parseInt(value, 10);
+                break;
+        }
+    };
+
+    const push = (chunk: string): SseEvent[] => {
+        const out: SseEvent[] = [];
+        buffer += chunk;
+
+        let start = 0;
+        for (let i = 0; i < buffer.length; i++) {
+            const ch = buffer[i];
+            if (ch !== '\n' && ch !== '\r') continue;
+            // A trailing \r may be the first half of \r\n - wait for the next chunk
+            if (ch === '\r' && i === buffer.length - 1) break;
+
+            processLine(buffer.slice(start, i), out);
+            if (ch === '\r' && buffer[i + 1] === '\n') i++;
+            start = i + 1;
+        }
+        buffer = buffer.slice(start);
+        return out;
+    };
+
+    const end = (): SseEvent[] => {
+        const out: SseEvent[] = [];
+        if (buffer) {
+            processLine(buffer.replace(/\r$/, ''), out);
+            buffer = '';
+        }
+        if (hasData) dispatch(out);
+        return out;
+    };
+
+    return {
+        push,
+        end,
+        get lastEventId() {
+            return lastEventId;
+        },
+        get retryMs() {
+            return retryMs;
+        },
+    };
+}
+
+export interface SseStreamOptions {
+    signal?: AbortSignal;
+    maxReconnects?: number;
+    // Open the connection; `lastEventId` is set when resuming after a drop
+    connect: (lastEventId: string | undefined) => Promise<Response>;
+    // Decide whether a failure is worth reconnecting for (e.g. network drops, not 4xx)
+    shouldReconnect: (err: unknown) => boolean;
+    onReconnect?: (attempt: number, lastEventId: string) => void;
+    // The event that ends the stream; a clean close before it is resumed like a drop
+    isComplete?: (event: SseEvent) => boolean;
+}
+
+const DEFAULT_RETRY_MS = 1000;
+const MAX_RETRY_MS = 15000;
+
+const wait = (ms: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(new DOMException('Aborted', 'AbortError'));
+        }, { once: true });
+    });
+
+/**
+ * Read an event stream to the end, reconnecting with Last-Event-ID when the
+ * connection drops or closes before `isComplete` has seen its final event. Without an id from the server there is nothing to resume
+ * from, so the error is rethrown rather than silently restarting the work.
+ */
+export async function* readSseStream(options: SseStreamOptions): AsyncGenerator<SseEvent> {
+    const maxReconnects = options.maxReconnects ?? 5;
+    let lastEventId: string | undefined;
+    let retryMs = DEFAULT_RETRY_MS;
+    let reconnects = 0;
+    let completed = !options.isComplete;
+
+    while (true) {
+        const parser = createSseParser();
+        let receivedSinceConnect = false;
+
+        try {
+            const response = await options.connect(lastEventId);
+            const reader = response.body?.getReader();
+            if (!reader) throw new TypeError('Response has no body to stream');
+
+            const decoder = new TextDecoder();
+            try {
+                while (true) {
+                    const { done, value } = await reader.read();
+                    if (done) break;
+                    for (const event of parser.push(decoder.decode(value, { stream: true }))) {
+                        receivedSinceConnect = true;
+                        if (options.isComplete?.(event)) completed = true;
+                        yield event;
+                    }
+                    lastEventId = parser.lastEventId ?? lastEventId;
+                    retryMs = parser.retryMs ?? retryMs;
+                }
+                for (const event of [...parser.push(decoder.decode()), ...parser.end()]) {
+                    if (options.isComplete?.(event)) completed = true;
+                    yield event;
+                }
+            } finally {
+                reader.releaseLock();
+            }
+            if (!completed) throw new Error('Stream closed before it completed');
+            return;
+        } catch (err) {
+            lastEventId = parser.lastEventId ?? lastEventId;
+            if (options.signal?.aborted || !lastEventId || !options.shouldReconnect(err)) throw err;
+
+            // Progress since the last drop resets the budget; a dead server exhausts it
+            reconnects = receivedSinceConnect ? 1 : reconnects + 1;
+            if (reconnects > maxReconnects) throw err;
+
+            options.onReconnect?.(reconnects, lastEventId);
+            await wait(Math.min(retryMs * 2 ** (reconnects - 1), MAX_RETRY_MS), options.signal);
+        }
+    }
+}
@@ -0,0 +1,79 @@
+/**
+ * Version History - Immutable per-project snapshots stored in IndexedDB
+ * A snapshot is taken after each generation, chat modification and auto-fix so
+ * any earlier state of the project can be restored, even after a reload. Screenshots of
+ * the preview are stored next to the snapshot they show, once the change has rendered.
+ */
+
+import { STORES, getAllByIndex, getRecord, putRecord } from './db';
+import type { ProjectFile, ProjectSnapshot, SnapshotScreenshot, SnapshotSource } from '../types/project.types';
+
+export async function saveSnapshot(
+    projectId: string,
+    files: ProjectFile[],
+    label: string,
+    source: SnapshotSource
+): Promise<ProjectSnapshot> {
+    const snapshot: ProjectSnapshot = Object.freeze({
+        id: `snap-${Date.now()}-${crypto.randomUUID().slice(0, 8)}`,
+        projectId,
+        label,
+        source,
+        createdAt: Date.now(),
+        files: files.map(f => Object.freeze({ path: f.path, content: f.content })),
+    });
+
+    await putRecord(STORES.snapshots, snapshot);
+    return snapshot;
+}
+
+// Newest first
+export async function listSnapshots(projectId: string): Promise<ProjectSnapshot[]> {
+    const snapshots = await getAllByIndex<ProjectSnapshot>(STORES.snapshots, 'projectId', projectId);
+    return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function getSnapshot(id: string): Promise<ProjectSnapshot | undefined> {
+    return getRecord<ProjectSnapshot>(STORES.snapshots, id);
+}
+
+export async function saveScreenshot(
+    snapshot: Pick<ProjectSnapshot, 'id' | 'projectId'>,
+    capture: { width: number; height: number; image: string }
+): Promise<SnapshotScreenshot> {
+    const screenshot: SnapshotScreenshot = Object.freeze({
+        // One per viewport; capturing the same size again replaces it
+        id: `${snapshot.id}:${capture.width}x${capture.height}`,
+        snapshotId: snapshot.id,
+        projectId: snapshot.projectId,
+        width: capture.width,
+        height: capture.height,
+        image: capture.image,
+        capturedAt: Date.now(),
+    });
+
+    await putRecord(STORES.screenshots, screenshot);
+    return screenshot;
+}
+
+// Narrowest viewport first
+export async function listScreenshots(snapshotId: string): Promise<SnapshotScreenshot[]> {
+    const screenshots = await getAllByIndex<SnapshotScreenshot>(STORES.screenshots, 'snapshotId', snapshotId);
+    return screenshots.sort((a, b) => a.width - b.width || a.height - b.height);
+}
+
+export async function listProjectScreenshots(projectId: string): Promise<SnapshotScreenshot[]> {
+    return getAllByIndex<SnapshotScreenshot>(STORES.screenshots, 'projectId', projectId);
+}
+
+// A project created offline gets its real id on first sync - carry its history over
+export async function moveSnapshots(fromProjectId: string, toProjectId: string): Promise<void> {
+    const snapshots = await getAllByIndex<ProjectSnapshot>(STORES.snapshots, 'projectId', fromProjectId);
+    for (const snapshot of snapshots) {
+        await putRecord(STORES.snapshots, Object.freeze({ ...snapshot, projectId: toProjectId }));
+    }
+    const screenshots = await listProjectScreenshots(fromProjectId);
+    for (const screenshot of screenshots) {
+        await putRecord(STORES.screenshots, Object.freeze({ ...screenshot, projectId: toProjectId }));
+    }
+}
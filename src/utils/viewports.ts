@@ -0,0 +1,42 @@
+/**
+ * Viewports - Device presets for the preview and the scale that fits a device into the pane
+ */
+
+import type { PreviewViewport } from '../types/api.types';
+
+export type DeviceKind = 'mobile' | 'tablet' | 'desktop';
+
+export const DEVICE_PRESETS: PreviewViewport[] = [
+    { name: 'iPhone SE', width: 375, height: 667 },
+    { name: 'iPhone 14', width: 390, height: 844 },
+    { name: 'Pixel 7', width: 412, height: 915 },
+    { name: 'iPad Mini', width: 768, height: 1024 },
+    { name: 'iPad Pro', width: 1024, height: 1366 },
+    { name: 'Laptop', width: 1366, height: 768 },
+    { name: 'Desktop', width: 1920, height: 1080 },
+];
+
+// Shown next to each other in side-by-side mode: one per common breakpoint
+export const SIDE_BY_SIDE_PRESETS = ['iPhone 14', 'iPad Mini', 'Laptop']
+    .map(name => DEVICE_PRESETS.find(preset => preset.name === name)!);
+
+export const MIN_VIEWPORT_SIZE = 240;
+export const MAX_VIEWPORT_SIZE = 3840;
+
+export const clampViewportSize = (size: number) =>
+    Math.round(Math.min(Math.max(size, MIN_VIEWPORT_SIZE), MAX_VIEWPORT_SIZE));
+
+// By the shorter side, so a rotated phone is still a phone
+export function deviceKind(viewport: PreviewViewport): DeviceKind {
+    const shorter = Math.min(viewport.width, viewport.height);
+    return shorter < 600 ? 'mobile' : shorter < 1000 ? 'tablet' : 'desktop';
+}
+
+export const rotateViewport = (viewport: PreviewViewport): PreviewViewport =>
+    ({ ...viewport, width: viewport.height, height: viewport.width });
+
+// Largest scale, at most 1, at which a frame of `width` x `height` fits into the available space
+export function fitScale(width: number, height: number, available: { width: number; height: number }): number {
+    if (available.width <= 0 || available.height <= 0) return 1;
+    return Math.min(1, available.width / width, available.height / height);
+}
@@ -0,0 +1,81 @@
+/**
+ * Visual Diff - Pixel comparison of two preview screenshots
+ * The result image is the newer screenshot faded to grey with every changed pixel in
+ * magenta, so layout shifts and missing content stand out. Where the pages differ in
+ * height, the area only one of them covers counts as changed.
+ */
+
+export interface VisualDiff {
+    width: number;
+    height: number;
+    changedPixels: number;
+    ratio: number; // Changed share of all pixels, 0-1
+    image: string; // PNG data URL
+}
+
+const TOLERANCE = 32; // Summed RGB difference still treated as equal (anti-aliasing, JPEG-like noise)
+const HIGHLIGHT = [255, 0, 170] as const;
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Could not load screenshot'));
+        img.src = src;
+    });
+}
+
+// The image's pixels on a canvas of the given size; outside the image stays transparent
+function pixelsOf(img: HTMLImageElement, width: number, height: number): Uint8ClampedArray {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d')!;
+    context.drawImage(img, 0, 0);
+    return context.getImageData(0, 0, width, height).data;
+}
+
+export async function diffScreenshots(before: string, after: string): Promise<VisualDiff> {
+    const [a, b] = await Promise.all([loadImage(before), loadImage(after)]);
+    const width = Math.max(a.naturalWidth, b.naturalWidth);
+    const height = Math.max(a.naturalHeight, b.naturalHeight);
+    const pixelsA = pixelsOf(a, width, height);
+    const pixelsB = pixelsOf(b, width, height);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d')!;
+    const output = context.createImageData(width, height);
+    const out = output.data;
+
+    let changedPixels = 0;
+    for (let i = 0; i < out.length; i += 4) {
+        const covered = pixelsA[i + 3] > 0 && pixelsB[i + 3] > 0;
+        const delta = Math.abs(pixelsA[i] - pixelsB[i])
+            + Math.abs(pixelsA[i + 1] - pixelsB[i + 1])
+            + Math.abs(pixelsA[i + 2] - pixelsB[i + 2]);
+
+        if (!covered || delta > TOLERANCE) {
+            changedPixels++;
+            out[i] = HIGHLIGHT[0];
+            out[i + 1] = HIGHLIGHT[1];
+            out[i + 2] = HIGHLIGHT[2];
+        } else {
+            // Unchanged: a light grey version of the newer page, for orientation
+            const grey = 0.299 * pixelsB[i] + 0.587 * pixelsB[i + 1] + 0.114 * pixelsB[i + 2];
+            out[i] = out[i + 1] = out[i + 2] = 155 + grey * 0.39;
+        }
+        out[i + 3] = 255;
+    }
+
+    context.putImageData(output, 0, 0);
+    const total = width * height;
+    return {
+        width,
+        height,
+        changedPixels,
+        ratio: total > 0 ? changedPixels / total : 0,
+        image: canvas.toDataURL('image/png'),
+    };
+}
@@ -0,0 +1,40 @@
+/**
+ * WebContainer Template - The package.json every preview starts from
+ * Its dependencies are installed while the WebContainer pre-warms, so projects only
+ * install what they add on top.
+ */
+
+// Base package.json with 16 common dependencies
+export const BASE_PACKAGE_JSON = {
+    name: 'preview-project',
+    private: true,
+    version: '0.0.0',
+    type: 'module',
+    scripts: {
+        dev: 'vite --host',
+        build: 'vite build',
+    },
+    dependencies: {
+        'react': '^18.3.1',
+        'react-dom': '^18.3.1',
+        'react-router-dom': '^7.1.1',
+        'framer-motion': '^11.14.4',
+        'lucide-react': '^0.460.0',
+        'clsx': '^2.1.1',
+        'tailwind-merge': '^2.5.5',
+        'class-variance-authority': '^0.7.1',
+        'axios': '^1.7.9',
+        'zustand': '^5.0.2',
+        'date-fns': '^4.1.0',
+    },
+    devDependencies: {
+        '@vitejs/plugin-react': '^4.3.4',
+        'vite': '^6.0.3',
+        'typescript': '^5.7.2',
+        '@types/react': '^18.3.12',
+        '@types/react-dom': '^18.3.1',
+        'tailwindcss': '^3.4.17',
+        'postcss': '^8.4.49',
+        'autoprefixer': '^10.4.20',
+    },
+};
@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_BACKEND_URL?: string;
+  readonly VITE_AUTH_BACKEND_URL?: string;
+  readonly VITE_MOCK_BACKEND?: string;
+  readonly VITE_MOCK_LATENCY?: string;
+  readonly VITE_MOCK_DEBUG?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}